@@ -1,41 +1,65 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/use-auth";
+import { PermissionsProvider } from "@/hooks/use-permissions";
+import { PracticeTimerProvider } from "@/hooks/use-practice-timer";
 import Layout from "@/components/Layout";
+import { ProtectedRoute, RequireRole } from "@/components/RouteGuards";
+import { PERMISSIONS } from "@/constants";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import AdminPanel from "./pages/AdminPanel";
 import ProgressAnalytics from "./pages/ProgressAnalytics";
+import ProgressReport from "./pages/ProgressReport";
 import RevisionProblems from "./pages/RevisionProblems";
+import Profile from "./pages/Profile";
+import CustomLists from "./pages/CustomLists";
+import CustomListDetail from "./pages/CustomListDetail";
+import SharedCustomList from "./pages/SharedCustomList";
+import MockInterview from "./pages/MockInterview";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <AuthProvider>
-          <Layout>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/admin" element={<AdminPanel />} />
-              <Route path="/analytics" element={<ProgressAnalytics />} />
-              <Route path="/revision" element={<RevisionProblems />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Layout>
-        </AuthProvider>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
+  <TooltipProvider>
+    <Toaster />
+    <Sonner />
+    <BrowserRouter>
+      <AuthProvider>
+        <PermissionsProvider>
+          <PracticeTimerProvider>
+            <Layout>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route
+                  path="/admin"
+                  element={
+                    <ProtectedRoute>
+                      <RequireRole permissions={Object.values(PERMISSIONS)}>
+                        <AdminPanel />
+                      </RequireRole>
+                    </ProtectedRoute>
+                  }
+                />
+                <Route path="/analytics" element={<ProtectedRoute><ProgressAnalytics /></ProtectedRoute>} />
+                <Route path="/analytics/report" element={<ProtectedRoute><ProgressReport /></ProtectedRoute>} />
+                <Route path="/revision" element={<ProtectedRoute><RevisionProblems /></ProtectedRoute>} />
+                <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+                <Route path="/lists" element={<ProtectedRoute><CustomLists /></ProtectedRoute>} />
+                <Route path="/lists/shared/:shareToken" element={<ProtectedRoute><SharedCustomList /></ProtectedRoute>} />
+                <Route path="/lists/:listId" element={<ProtectedRoute><CustomListDetail /></ProtectedRoute>} />
+                <Route path="/mock" element={<ProtectedRoute><MockInterview /></ProtectedRoute>} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </Layout>
+          </PracticeTimerProvider>
+        </PermissionsProvider>
+      </AuthProvider>
+    </BrowserRouter>
+  </TooltipProvider>
 );
 
 export default App;
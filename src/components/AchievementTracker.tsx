@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  queryKeys,
+  useQuestions,
+  useUserProgress,
+  useUserCohort,
+  useStreakFreezes,
+  useStreakSettings,
+  useUserAchievements
+} from '@/hooks/use-tracker-queries';
+import { achievementService } from '@/services/supabase';
+import { getEarnedAchievementIds } from '@/utils/achievements';
+import { calculateStreakData } from '@/utils/streaks';
+import { ACHIEVEMENTS } from '@/constants';
+import type { UserAchievement } from '@/types';
+
+interface AchievementTrackerProps {
+  userId: string;
+}
+
+// Re-evaluates achievements whenever the cached progress changes, from any page.
+// Whatever is already earned when the data first loads is recorded quietly; only
+// achievements earned while the app is open get a toast.
+export function AchievementTracker({ userId }: AchievementTrackerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(userId);
+  const cohortQuery = useUserCohort(userId);
+  const freezesQuery = useStreakFreezes(userId);
+  const achievementsQuery = useUserAchievements(userId);
+  const streakSettings = useStreakSettings(userId);
+  const initializedRef = useRef(false);
+  const recordingRef = useRef('');
+
+  const ready = questionsQuery.isSuccess && progressQuery.isSuccess && cohortQuery.isSuccess &&
+    freezesQuery.isSuccess && achievementsQuery.isSuccess;
+
+  const newlyEarned = useMemo(() => {
+    if (!ready) return [];
+    const userProgress = progressQuery.data;
+    const streakData = calculateStreakData(userProgress, streakSettings, freezesQuery.data.map(f => f.frozen_on));
+    const unlocked = new Set(achievementsQuery.data.map(a => a.achievement_id));
+
+    return getEarnedAchievementIds(ACHIEVEMENTS, {
+      questions: questionsQuery.data,
+      userProgress,
+      streakData,
+      settings: streakSettings
+    }).filter(id => !unlocked.has(id));
+  }, [ready, questionsQuery.data, progressQuery.data, freezesQuery.data, achievementsQuery.data, streakSettings]);
+
+  const newlyEarnedKey = newlyEarned.join(',');
+
+  useEffect(() => {
+    if (!ready) return;
+    const announce = initializedRef.current;
+    initializedRef.current = true;
+    if (!newlyEarnedKey || recordingRef.current === newlyEarnedKey) return;
+    recordingRef.current = newlyEarnedKey;
+
+    achievementService.unlockAchievements(userId, newlyEarnedKey.split(',')).then(({ data, error }) => {
+      if (error) {
+        console.error('Error unlocking achievements:', error);
+        return;
+      }
+      queryClient.setQueryData<UserAchievement[]>(queryKeys.achievements(userId), (prev = []) => [...(data || []), ...prev]);
+
+      if (!announce) return;
+      (data || []).forEach(unlocked => {
+        const achievement = ACHIEVEMENTS.find(a => a.id === unlocked.achievement_id);
+        if (achievement) {
+          toast({
+            title: `Achievement unlocked: ${achievement.title}`,
+            description: achievement.description,
+          });
+        }
+      });
+    });
+  }, [ready, newlyEarnedKey, userId, queryClient, toast]);
+
+  return null;
+}
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { CalendarDays, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useCohorts, useCohortDailyActivity } from '@/hooks/use-tracker-queries';
+import { addDaysToKey, formatDayKey, getDailyActivity, getDayKey, getStreakSettings, getWeekdayOfKey } from '@/utils/streaks';
+import { formatTime } from '@/utils';
+import { ACTIVITY_HEATMAP, PERMISSIONS } from '@/constants';
+import type { ActivityDay, PracticeSession, Question, StreakSettings, UserProgress } from '@/types';
+
+const NO_COHORT = 'none';
+
+const LEVEL_CLASSES = [
+  'bg-muted',
+  'bg-green-500/20',
+  'bg-green-500/45',
+  'bg-green-500/70',
+  'bg-green-500'
+];
+
+// Practice without a solve still shows up, one step above an empty day
+const getActivityLevel = (day: ActivityDay | undefined) => {
+  if (!day) return 0;
+  const solved = day.solved.length;
+  if (solved >= 4) return 4;
+  if (solved >= 2) return 3;
+  if (solved === 1) return 2;
+  return day.sessions > 0 ? 1 : 0;
+};
+
+// The last day shown for a month offset: the end of that month, or today for the current month
+const getWindowEnd = (today: string, monthOffset: number) => {
+  const [year, month] = today.split('-').map(Number);
+  const monthEnd = new Date(Date.UTC(year, month - 1 + monthOffset + 1, 0)).toISOString().slice(0, 10);
+  return monthEnd < today ? monthEnd : today;
+};
+
+interface ActivityHeatmapProps {
+  questions: Question[];
+  userProgress: UserProgress[];
+  sessions: PracticeSession[];
+  streakSettings?: StreakSettings;
+}
+
+export function ActivityHeatmap({ questions, userProgress, sessions, streakSettings }: ActivityHeatmapProps) {
+  const { can } = usePermissions();
+  const canCompareCohorts = can(PERMISSIONS.VIEW_STUDENT_PROGRESS);
+  const [monthOffset, setMonthOffset] = useState(0);
+  const [cohortId, setCohortId] = useState(NO_COHORT);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const settings = useMemo(() => streakSettings ?? getStreakSettings(), [streakSettings]);
+  const today = getDayKey(new Date(), settings);
+  const windowEnd = getWindowEnd(today, monthOffset);
+  // Columns are weeks starting on Sunday; the last column holds the window's final week
+  const windowStart = addDaysToKey(windowEnd, -((ACTIVITY_HEATMAP.WEEKS - 1) * 7 + getWeekdayOfKey(windowEnd)));
+
+  const activity = useMemo(
+    () => getDailyActivity(questions, userProgress, sessions, settings),
+    [questions, userProgress, sessions, settings]
+  );
+
+  const cohortsQuery = useCohorts(canCompareCohorts);
+  const cohortActivityQuery = useCohortDailyActivity(
+    cohortId === NO_COHORT ? undefined : cohortId,
+    windowStart,
+    windowEnd,
+    settings
+  );
+  const cohortAverages = useMemo(
+    () => new Map((cohortActivityQuery.data || []).map(d => [d.activity_date, Number(d.average_completions)])),
+    [cohortActivityQuery.data]
+  );
+  const showOverlay = cohortId !== NO_COHORT;
+
+  const weeks = useMemo(() => {
+    const columns: string[][] = [];
+    for (let dayKey = windowStart; dayKey <= windowEnd; dayKey = addDaysToKey(dayKey, 1)) {
+      if (getWeekdayOfKey(dayKey) === 0) columns.push([]);
+      columns[columns.length - 1].push(dayKey);
+    }
+    return columns;
+  }, [windowStart, windowEnd]);
+
+  const activeDaysInWindow = weeks.flat().filter(dayKey => activity.has(dayKey)).length;
+  const selectedActivity = selectedDay ? activity.get(selectedDay) : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <CalendarDays className="h-5 w-5 mr-2" />
+              Activity Calendar
+            </CardTitle>
+            <CardDescription>
+              {formatDayKey(windowStart, { month: 'short', year: 'numeric' })} - {formatDayKey(windowEnd, { month: 'short', year: 'numeric' })}
+              {' '}· {activeDaysInWindow} active day{activeDaysInWindow === 1 ? '' : 's'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {canCompareCohorts && (
+              <Select value={cohortId} onValueChange={setCohortId}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Compare with cohort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COHORT}>No cohort overlay</SelectItem>
+                  {(cohortsQuery.data || []).map(cohort => (
+                    <SelectItem key={cohort.id} value={cohort.id}>{cohort.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="icon" onClick={() => setMonthOffset(offset => offset - 1)} aria-label="Previous month">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setMonthOffset(offset => offset + 1)}
+              disabled={monthOffset >= 0}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <div className="inline-flex gap-[3px]">
+            {weeks.map(week => {
+              const monthStart = week.find(dayKey => dayKey.endsWith('-01'));
+
+              return (
+                <div key={week[0]} className="flex flex-col gap-[3px]">
+                  <div className="h-4 text-[10px] text-muted-foreground whitespace-nowrap">
+                    {monthStart && formatDayKey(monthStart, { month: 'short' })}
+                  </div>
+                  {week.map(dayKey => {
+                    const day = activity.get(dayKey);
+                    const cohortAverage = cohortAverages.get(dayKey) ?? 0;
+                    const solved = day?.solved.length ?? 0;
+                    const aboveCohort = showOverlay && cohortAverage > 0 && solved >= cohortAverage;
+
+                    return (
+                      <Tooltip key={dayKey}>
+                        <TooltipTrigger asChild>
+                          <button
+                            type="button"
+                            onClick={() => setSelectedDay(current => current === dayKey ? null : dayKey)}
+                            className={`h-3 w-3 rounded-sm ${LEVEL_CLASSES[getActivityLevel(day)]} ${
+                              aboveCohort ? 'ring-1 ring-sky-500' : ''
+                            } ${selectedDay === dayKey ? 'outline outline-2 outline-primary' : ''}`}
+                            aria-label={`${formatDayKey(dayKey)}: ${solved} solved`}
+                          />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs">
+                          <p className="font-medium">{formatDayKey(dayKey, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {solved} solved
+                            {day?.sessions ? ` · ${day.sessions} session${day.sessions === 1 ? '' : 's'} (${formatTime(day.secondsPracticed)})` : ''}
+                          </p>
+                          {day?.solved.slice(0, ACTIVITY_HEATMAP.TOOLTIP_QUESTION_LIMIT).map(question => (
+                            <p key={question.id} className="text-xs truncate">{question.title}</p>
+                          ))}
+                          {solved > ACTIVITY_HEATMAP.TOOLTIP_QUESTION_LIMIT && (
+                            <p className="text-xs text-muted-foreground">+{solved - ACTIVITY_HEATMAP.TOOLTIP_QUESTION_LIMIT} more</p>
+                          )}
+                          {showOverlay && (
+                            <p className="text-xs text-sky-600 mt-1">Cohort average: {cohortAverage} solved</p>
+                          )}
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <span>Less</span>
+            {LEVEL_CLASSES.map(levelClass => (
+              <div key={levelClass} className={`h-3 w-3 rounded-sm ${levelClass}`} />
+            ))}
+            <span>More</span>
+          </div>
+          {showOverlay && (
+            <div className="flex items-center gap-1">
+              <div className="h-3 w-3 rounded-sm bg-muted ring-1 ring-sky-500" />
+              <span>At or above the cohort average</span>
+            </div>
+          )}
+        </div>
+
+        {selectedDay && (
+          <div className="border-t pt-4 space-y-2">
+            <h4 className="text-sm font-medium">
+              Solved on {formatDayKey(selectedDay, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+            </h4>
+            {selectedActivity?.solved.length ? (
+              selectedActivity.solved.map(question => (
+                <div key={question.id} className="flex items-center justify-between rounded-md border p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{question.title}</p>
+                    <p className="text-xs text-muted-foreground">{question.topic}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{question.difficulty}</Badge>
+                    {question.solve_url && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                        <a href={question.solve_url} target="_blank" rel="noopener noreferrer" aria-label={`Open ${question.title}`}>
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No questions solved on this day.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
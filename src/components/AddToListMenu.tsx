@@ -0,0 +1,82 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ListPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys, useCustomLists } from '@/hooks/use-tracker-queries';
+import { customListService } from '@/services/supabase';
+import type { CustomList } from '@/types';
+
+interface AddToListMenuProps {
+  questionId: string;
+  userId: string;
+}
+
+export function AddToListMenu({ questionId, userId }: AddToListMenuProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const listsQuery = useCustomLists(userId);
+  const lists = listsQuery.data ?? [];
+  const inAnyList = lists.some(list => list.question_ids.includes(questionId));
+
+  const toggleList = async (list: CustomList, include: boolean) => {
+    try {
+      // New questions go to the end of the list
+      const result = include
+        ? await customListService.addQuestion(list.id, questionId, list.question_ids.length)
+        : await customListService.removeQuestion(list.id, questionId);
+      if (result.error) throw result.error;
+
+      queryClient.setQueryData<CustomList[]>(queryKeys.customLists(userId), (prev) =>
+        prev?.map(l => l.id !== list.id ? l : {
+          ...l,
+          question_ids: include ? [...l.question_ids, questionId] : l.question_ids.filter(id => id !== questionId)
+        })
+      );
+    } catch (error) {
+      console.error('Error updating list:', error);
+      toast({
+        title: "Error",
+        description: `Failed to update ${list.name}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant={inAnyList ? "default" : "outline"} aria-label="Add to list">
+          <ListPlus className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Add to list</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {lists.map(list => (
+          <DropdownMenuCheckboxItem
+            key={list.id}
+            checked={list.question_ids.includes(questionId)}
+            onCheckedChange={(checked) => toggleList(list, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {list.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {lists.length > 0 && <DropdownMenuSeparator />}
+        <DropdownMenuItem asChild>
+          <Link to="/lists">{lists.length > 0 ? 'Manage lists' : 'Create a list'}</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,94 +1,30 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Flame } from 'lucide-react';
-import type { AdvancedFeaturesProps, UserProgress } from '@/types';
+import { Flame, Snowflake, Coffee } from 'lucide-react';
+import { StreakSettingsDialog } from '@/components/StreakSettingsDialog';
+import { calculateStreakData, formatDayKey, getStreakSettings } from '@/utils/streaks';
+import { STREAK_FREEZE, WEEKDAY_LABELS } from '@/constants';
+import type { AdvancedFeaturesProps } from '@/types';
 
-interface StreakData {
-  currentStreak: number;
-  longestStreak: number;
-  lastActivity: string;
-}
-
-export function AdvancedFeatures({ userProgress }: AdvancedFeaturesProps) {
-  const [streakData, setStreakData] = useState<StreakData>({
-    currentStreak: 0,
-    longestStreak: 0,
-    lastActivity: ''
-  });
-
-  const calculateStreaks = useCallback(() => {
-    const completedDates = userProgress
-      .filter((p: UserProgress) => p.completed && p.completed_at)
-      .map((p: UserProgress) => new Date(p.completed_at as string).toDateString())
-      .filter((date, index, arr) => arr.indexOf(date) === index)
-      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
-
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-
-    const today = new Date().toDateString();
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString();
-
-    // Calculate current streak
-    if (completedDates.includes(today) || completedDates.includes(yesterday)) {
-      const startDate = completedDates.includes(today) ? today : yesterday;
-      // eslint-disable-next-line prefer-const
-      let checkDate = new Date(startDate);
-      
-      while (completedDates.includes(checkDate.toDateString())) {
-        currentStreak++;
-        checkDate.setDate(checkDate.getDate() - 1);
-      }
-    }
-
-    // Calculate longest streak
-    for (let i = 0; i < completedDates.length; i++) {
-      const currentDate = new Date(completedDates[i]);
-      const nextDate = completedDates[i + 1] ? new Date(completedDates[i + 1]) : null;
-      
-      tempStreak = 1;
-      
-      if (nextDate) {
-        const dayDiff = (currentDate.getTime() - nextDate.getTime()) / (1000 * 60 * 60 * 24);
-        if (dayDiff === 1) {
-          let j = i + 1;
-          while (j < completedDates.length) {
-            const checkDate = new Date(completedDates[j - 1]);
-            const nextCheckDate = new Date(completedDates[j]);
-            const diff = (checkDate.getTime() - nextCheckDate.getTime()) / (1000 * 60 * 60 * 24);
-            
-            if (diff === 1) {
-              tempStreak++;
-              j++;
-            } else {
-              break;
-            }
-          }
-        }
-      }
-      
-      longestStreak = Math.max(longestStreak, tempStreak);
-    }
-
-    setStreakData({
-      currentStreak,
-      longestStreak,
-      lastActivity: completedDates[0] || ''
-    });
-  }, [userProgress]);
-
-  useEffect(() => {
-    calculateStreaks();
-  }, [calculateStreaks]);
+export function AdvancedFeatures({ userProgress, streakSettings, streakData: providedStreakData, showStreakSettings = false }: AdvancedFeaturesProps) {
+  const settings = useMemo(() => streakSettings ?? getStreakSettings(), [streakSettings]);
+  const computedStreakData = useMemo(
+    () => providedStreakData ? null : calculateStreakData(userProgress, settings),
+    [providedStreakData, userProgress, settings]
+  );
+  const streakData = providedStreakData ?? computedStreakData;
+  const restDayLabels = [...settings.restDays].sort().map(day => WEEKDAY_LABELS[day]);
 
   return (
     <Card className="h-fit">
       <CardHeader>
-        <CardTitle className="flex items-center text-lg">
-          <Flame className="h-5 w-5 mr-2 text-orange-500" />
-          Streak Tracking
-        </CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center text-lg">
+            <Flame className="h-5 w-5 mr-2 text-orange-500" />
+            Streak Tracking
+          </CardTitle>
+          {showStreakSettings && <StreakSettingsDialog />}
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -102,10 +38,32 @@ export function AdvancedFeatures({ userProgress }: AdvancedFeaturesProps) {
           </div>
           <div className="text-center">
             <div className="text-sm font-medium">
-              {streakData.lastActivity ? new Date(streakData.lastActivity).toLocaleDateString() : 'No activity'}
+              {streakData.lastActivityDate ? formatDayKey(streakData.lastActivityDate) : 'No activity'}
             </div>
             <p className="text-sm text-muted-foreground">Last Activity</p>
           </div>
+          <div className="border-t pt-4 space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center text-muted-foreground">
+                <Snowflake className="h-4 w-4 mr-2 text-sky-500" />
+                Streak freezes
+              </span>
+              <span className="font-medium">{streakData.freezesAvailable}/{STREAK_FREEZE.MAX_BANKED}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {streakData.freezesAvailable >= STREAK_FREEZE.MAX_BANKED
+                ? 'Freeze bank is full.'
+                : `${streakData.daysUntilNextFreeze} more active day${streakData.daysUntilNextFreeze === 1 ? '' : 's'} to earn a freeze.`}
+              {streakData.frozenDays.length > 0 && ` Used ${streakData.frozenDays.length} so far.`}
+            </p>
+            <div className="flex items-center justify-between">
+              <span className="flex items-center text-muted-foreground">
+                <Coffee className="h-4 w-4 mr-2" />
+                Rest days
+              </span>
+              <span className="font-medium">{restDayLabels.length > 0 ? restDayLabels.join(', ') : 'None'}</span>
+            </div>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,522 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Edit, Trash2, Copy, RefreshCw, CalendarClock, Users, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSheetQuestions } from '@/hooks/use-tracker-queries';
+import { cohortService, profileService } from '@/services/supabase';
+import { formatDateForDisplay, formatDateForInput, getSheetDeadline, getUniqueTopics } from '@/utils';
+import { USER_ROLES } from '@/constants';
+import type { Sheet, Profile, Cohort, CohortSheet, CohortMentor, CohortFormData, CohortSheetFormData } from '@/types';
+
+interface CohortManagementProps {
+  sheets: Sheet[];
+}
+
+const emptyCohortForm: CohortFormData = {
+  name: '',
+  description: '',
+  start_date: '',
+  end_date: '',
+  mentor_ids: []
+};
+
+const emptyAssignmentForm: CohortSheetFormData = {
+  sheet_id: '',
+  topics: [],
+  due_date: ''
+};
+
+export function CohortManagement({ sheets }: CohortManagementProps) {
+  const { toast } = useToast();
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [assignments, setAssignments] = useState<CohortSheet[]>([]);
+  const [mentors, setMentors] = useState<CohortMentor[]>([]);
+  const [mentorCandidates, setMentorCandidates] = useState<Profile[]>([]);
+  const [enrollmentCounts, setEnrollmentCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [isCohortDialogOpen, setIsCohortDialogOpen] = useState(false);
+  const [editingCohort, setEditingCohort] = useState<Cohort | null>(null);
+  const [cohortForm, setCohortForm] = useState<CohortFormData>(emptyCohortForm);
+  const [assigningCohort, setAssigningCohort] = useState<Cohort | null>(null);
+  const [assignmentForm, setAssignmentForm] = useState<CohortSheetFormData>(emptyAssignmentForm);
+  const assignmentQuestionsQuery = useSheetQuestions(assignmentForm.sheet_id || undefined);
+
+  const fetchCohorts = useCallback(async () => {
+    try {
+      const [cohortsResult, assignmentsResult, mentorsResult, staffResult, enrollmentsResult] = await Promise.all([
+        cohortService.getAllCohorts(),
+        cohortService.getCohortSheets(),
+        cohortService.getMentors(),
+        profileService.getProfilesByRoles([USER_ROLES.ADMIN, USER_ROLES.MENTOR, USER_ROLES.TEACHING_ASSISTANT]),
+        cohortService.getEnrollments()
+      ]);
+
+      if (cohortsResult.error) throw cohortsResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+      if (mentorsResult.error) throw mentorsResult.error;
+      if (staffResult.error) throw staffResult.error;
+      if (enrollmentsResult.error) throw enrollmentsResult.error;
+
+      const counts: Record<string, number> = {};
+      (enrollmentsResult.data || []).forEach(p => {
+        counts[p.cohort_id] = (counts[p.cohort_id] || 0) + 1;
+      });
+
+      setCohorts(cohortsResult.data || []);
+      setAssignments(assignmentsResult.data || []);
+      setMentors(mentorsResult.data || []);
+      setMentorCandidates(staffResult.data || []);
+      setEnrollmentCounts(counts);
+    } catch (error) {
+      console.error('Error fetching cohorts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch cohorts. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCohorts();
+  }, [fetchCohorts]);
+
+  const openCohortDialog = (cohort: Cohort | null) => {
+    setEditingCohort(cohort);
+    setCohortForm(cohort ? {
+      name: cohort.name,
+      description: cohort.description || '',
+      start_date: cohort.start_date || '',
+      end_date: cohort.end_date || '',
+      mentor_ids: mentors.filter(m => m.cohort_id === cohort.id).map(m => m.user_id)
+    } : emptyCohortForm);
+    setIsCohortDialogOpen(true);
+  };
+
+  const handleCohortSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      let cohortId = editingCohort?.id;
+
+      if (editingCohort) {
+        const result = await cohortService.updateCohort(editingCohort.id, cohortForm);
+        if (result.error) throw result.error;
+      } else {
+        const result = await cohortService.createCohort(cohortForm);
+        if (result.error) throw result.error;
+        cohortId = result.data.id;
+      }
+
+      const mentorsResult = await cohortService.setMentors(cohortId, cohortForm.mentor_ids);
+      if (mentorsResult.error) throw mentorsResult.error;
+
+      toast({
+        title: "Success",
+        description: `Cohort ${editingCohort ? 'updated' : 'created'} successfully.`,
+      });
+      setIsCohortDialogOpen(false);
+      setEditingCohort(null);
+      await fetchCohorts();
+    } catch (error) {
+      console.error('Error saving cohort:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save cohort. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteCohort = async (cohort: Cohort) => {
+    if (!confirm(`Delete ${cohort.name}? Its students will be unenrolled and its assignments removed.`)) {
+      return;
+    }
+
+    try {
+      const result = await cohortService.deleteCohort(cohort.id);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: "Cohort deleted successfully.",
+      });
+      fetchCohorts();
+    } catch (error) {
+      console.error('Error deleting cohort:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete cohort. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyInviteCode = async (cohort: Cohort) => {
+    await navigator.clipboard.writeText(cohort.invite_code);
+    toast({
+      title: "Copied",
+      description: `Invite code for ${cohort.name} copied to clipboard.`,
+    });
+  };
+
+  const handleRegenerateInviteCode = async (cohort: Cohort) => {
+    if (!confirm('Generate a new invite code? The current code will stop working.')) {
+      return;
+    }
+
+    const result = await cohortService.regenerateInviteCode(cohort.id);
+    if (result.error) {
+      console.error('Error regenerating invite code:', result.error);
+      toast({
+        title: "Error",
+        description: "Failed to regenerate the invite code.",
+        variant: "destructive",
+      });
+      return;
+    }
+    fetchCohorts();
+  };
+
+  const openAssignmentDialog = (cohort: Cohort, assignment?: CohortSheet) => {
+    setAssigningCohort(cohort);
+    setAssignmentForm(assignment ? {
+      sheet_id: assignment.sheet_id,
+      topics: assignment.topics,
+      due_date: formatDateForInput(assignment.due_date)
+    } : emptyAssignmentForm);
+  };
+
+  const handleAssignmentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assigningCohort) return;
+
+    try {
+      const result = await cohortService.assignSheet(assigningCohort.id, assignmentForm);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: `Sheet assigned to ${assigningCohort.name}.`,
+      });
+      setAssigningCohort(null);
+      fetchCohorts();
+    } catch (error) {
+      console.error('Error assigning sheet:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign sheet. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUnassignSheet = async (assignment: CohortSheet) => {
+    const result = await cohortService.unassignSheet(assignment.id);
+    if (result.error) {
+      console.error('Error removing assignment:', result.error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the assignment.",
+        variant: "destructive",
+      });
+      return;
+    }
+    fetchCohorts();
+  };
+
+  const toggleListValue = (list: string[], value: string, checked: boolean) => {
+    return checked ? [...list, value] : list.filter(item => item !== value);
+  };
+
+  const assignmentTopics = getUniqueTopics(assignmentQuestionsQuery.data ?? []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Cohorts</h2>
+        <Button onClick={() => openCohortDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Cohort
+        </Button>
+      </div>
+
+      <div className="grid gap-4">
+        {cohorts.length === 0 && (
+          <p className="text-muted-foreground">No cohorts yet. Create one to enroll students and assign sheets.</p>
+        )}
+        {cohorts.map((cohort) => {
+          const cohortAssignments = assignments.filter(a => a.cohort_id === cohort.id);
+          const cohortMentors = mentors
+            .filter(m => m.cohort_id === cohort.id)
+            .map(m => mentorCandidates.find(p => p.user_id === m.user_id)?.name)
+            .filter(Boolean);
+
+          return (
+            <Card key={cohort.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>{cohort.name}</CardTitle>
+                    <CardDescription>
+                      {cohort.start_date ? formatDateForDisplay(`${cohort.start_date}T00:00:00`) : 'No start date'}
+                      {' - '}
+                      {cohort.end_date ? formatDateForDisplay(`${cohort.end_date}T00:00:00`) : 'No end date'}
+                    </CardDescription>
+                    {cohort.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{cohort.description}</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openCohortDialog(cohort)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDeleteCohort(cohort)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <div className="flex items-center space-x-1">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span>{enrollmentCounts[cohort.id] || 0} students</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-muted-foreground">Invite code:</span>
+                    <code className="font-mono bg-muted px-2 py-0.5 rounded">{cohort.invite_code}</code>
+                    <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => handleCopyInviteCode(cohort)} title="Copy">
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => handleRegenerateInviteCode(cohort)} title="Regenerate">
+                      <RefreshCw className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {cohortMentors.length > 0 && (
+                    <div className="flex items-center space-x-1">
+                      <span className="text-muted-foreground">Mentors:</span>
+                      <span>{cohortMentors.join(', ')}</span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium">Assigned Sheets</h4>
+                    <Button size="sm" variant="outline" onClick={() => openAssignmentDialog(cohort)}>
+                      <Plus className="h-3 w-3 mr-1" />
+                      Assign Sheet
+                    </Button>
+                  </div>
+                  {cohortAssignments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No sheets assigned; students see every sheet.</p>
+                  ) : (
+                    cohortAssignments.map((assignment) => {
+                      const sheet = sheets.find(s => s.id === assignment.sheet_id);
+                      const deadline = getSheetDeadline(assignment.due_date);
+
+                      return (
+                        <div key={assignment.id} className="flex items-center justify-between rounded-lg border p-3">
+                          <div className="space-y-1">
+                            <p className="font-medium">{sheet?.title}</p>
+                            <div className="flex flex-wrap gap-1">
+                              {assignment.topics.length === 0 ? (
+                                <Badge variant="secondary" className="text-xs">All topics</Badge>
+                              ) : (
+                                assignment.topics.map((topic) => (
+                                  <Badge key={topic} variant="secondary" className="text-xs">
+                                    {topic}
+                                  </Badge>
+                                ))
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {deadline && (
+                              <Badge variant={deadline.isOverdue ? 'destructive' : 'outline'} className="text-xs">
+                                <CalendarClock className="h-3 w-3 mr-1" />
+                                Due {formatDateForDisplay(deadline.dueDate)}
+                              </Badge>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => openAssignmentDialog(cohort, assignment)}>
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleUnassignSheet(assignment)}>
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={isCohortDialogOpen} onOpenChange={setIsCohortDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCohort ? 'Edit Cohort' : 'Create New Cohort'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCohortSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="cohortName">Name</Label>
+              <Input
+                id="cohortName"
+                value={cohortForm.name}
+                onChange={(e) => setCohortForm({ ...cohortForm, name: e.target.value })}
+                placeholder="e.g., Batch 2025"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="cohortDescription">Description</Label>
+              <Textarea
+                id="cohortDescription"
+                value={cohortForm.description}
+                onChange={(e) => setCohortForm({ ...cohortForm, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="cohortStart">Start Date</Label>
+                <Input
+                  id="cohortStart"
+                  type="date"
+                  value={cohortForm.start_date}
+                  onChange={(e) => setCohortForm({ ...cohortForm, start_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cohortEnd">End Date</Label>
+                <Input
+                  id="cohortEnd"
+                  type="date"
+                  value={cohortForm.end_date}
+                  min={cohortForm.start_date || undefined}
+                  onChange={(e) => setCohortForm({ ...cohortForm, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Mentors</Label>
+              <div className="space-y-2 mt-2">
+                {mentorCandidates.map((mentor) => (
+                  <div key={mentor.user_id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`mentor-${mentor.user_id}`}
+                      checked={cohortForm.mentor_ids.includes(mentor.user_id)}
+                      onCheckedChange={(checked) => setCohortForm({
+                        ...cohortForm,
+                        mentor_ids: toggleListValue(cohortForm.mentor_ids, mentor.user_id, checked === true)
+                      })}
+                    />
+                    <Label htmlFor={`mentor-${mentor.user_id}`} className="font-normal">
+                      {mentor.name} <span className="text-muted-foreground">({mentor.email})</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsCohortDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingCohort ? 'Update' : 'Create'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={assigningCohort !== null} onOpenChange={(open) => !open && setAssigningCohort(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Sheet to {assigningCohort?.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleAssignmentSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="assignmentSheet">Sheet</Label>
+              <Select
+                value={assignmentForm.sheet_id}
+                onValueChange={(value) => setAssignmentForm({ ...assignmentForm, sheet_id: value, topics: [] })}
+              >
+                <SelectTrigger id="assignmentSheet">
+                  <SelectValue placeholder="Select a sheet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map((sheet) => (
+                    <SelectItem key={sheet.id} value={sheet.id}>
+                      {sheet.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {assignmentTopics.length > 0 && (
+              <div>
+                <Label>Topics</Label>
+                <p className="text-xs text-muted-foreground">Leave all unchecked to assign the whole sheet.</p>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {assignmentTopics.map((topic) => (
+                    <div key={topic} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`topic-${topic}`}
+                        checked={assignmentForm.topics.includes(topic)}
+                        onCheckedChange={(checked) => setAssignmentForm({
+                          ...assignmentForm,
+                          topics: toggleListValue(assignmentForm.topics, topic, checked === true)
+                        })}
+                      />
+                      <Label htmlFor={`topic-${topic}`} className="font-normal">{topic}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="assignmentDue">Due Date</Label>
+              <Input
+                id="assignmentDue"
+                type="date"
+                value={assignmentForm.due_date}
+                onChange={(e) => setAssignmentForm({ ...assignmentForm, due_date: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setAssigningCohort(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!assignmentForm.sheet_id}>
+                Assign
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
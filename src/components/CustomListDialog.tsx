@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/hooks/use-tracker-queries';
+import { customListService } from '@/services/supabase';
+import type { CustomList, CustomListFormData } from '@/types';
+
+interface CustomListDialogProps {
+  userId: string;
+  // Edits this list when given, otherwise creates a new one
+  list?: CustomList;
+  children: React.ReactNode;
+}
+
+export function CustomListDialog({ userId, list, children }: CustomListDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<CustomListFormData>({ name: '', description: '' });
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setForm({ name: list?.name ?? '', description: list?.description ?? '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const result = list
+        ? await customListService.updateList(list.id, form)
+        : await customListService.createList(userId, form);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: list ? "List updated." : "List created.",
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customLists(userId) });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error saving list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save list.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{list ? 'Edit List' : 'New List'}</DialogTitle>
+          <DialogDescription>
+            Lists can hold questions from any sheet, in whatever order you like.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="listName">Name</Label>
+            <Input
+              id="listName"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Amazon prep"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="listDescription">Description (optional)</Label>
+            <Textarea
+              id="listDescription"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="What is this list for?"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !form.name.trim()}>
+              {saving ? 'Saving...' : list ? 'Save' : 'Create List'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
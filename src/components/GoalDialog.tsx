@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/hooks/use-tracker-queries';
+import { goalService } from '@/services/supabase';
+import { getUniqueTopics } from '@/utils';
+import { GOAL_KIND_LABELS } from '@/constants';
+import type { GoalFormData, GoalKind, Question, Sheet } from '@/types';
+
+const EMPTY_FORM: GoalFormData = {
+  kind: 'daily_questions',
+  target: 3,
+  topic: '',
+  sheet_id: '',
+  due_date: ''
+};
+
+interface GoalDialogProps {
+  userId: string;
+  sheets: Sheet[];
+  questions: Question[];
+}
+
+export function GoalDialog({ userId, sheets, questions }: GoalDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<GoalFormData>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const topics = getUniqueTopics(questions);
+  const isOneOff = form.kind === 'topic_questions' || form.kind === 'sheet_completion';
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const result = await goalService.createGoal(userId, form);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: "Goal created.",
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(userId) });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error creating goal:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create goal.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Goal
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Goal</DialogTitle>
+          <DialogDescription>
+            Daily and weekly goals repeat; topic and sheet goals finish once you reach them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Goal type</Label>
+            <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as GoalKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GOAL_KIND_LABELS).map(([kind, label]) => (
+                  <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {form.kind === 'topic_questions' && (
+            <div>
+              <Label>Topic</Label>
+              <Select value={form.topic} onValueChange={(value) => setForm({ ...form, topic: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a topic" />
+                </SelectTrigger>
+                <SelectContent>
+                  {topics.map(topic => (
+                    <SelectItem key={topic} value={topic}>{topic}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {form.kind === 'sheet_completion' ? (
+            <div>
+              <Label>Sheet</Label>
+              <Select value={form.sheet_id} onValueChange={(value) => setForm({ ...form, sheet_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a sheet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map(sheet => (
+                    <SelectItem key={sheet.id} value={sheet.id}>{sheet.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="goalTarget">
+                {form.kind === 'weekly_minutes' ? 'Minutes' : 'Questions'}
+              </Label>
+              <Input
+                id="goalTarget"
+                type="number"
+                min={1}
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: parseInt(e.target.value) || 1 })}
+                required
+              />
+            </div>
+          )}
+
+          {isOneOff && (
+            <div>
+              <Label htmlFor="goalDueDate">Finish by (optional)</Label>
+              <Input
+                id="goalDueDate"
+                type="date"
+                value={form.due_date}
+                onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                saving ||
+                (form.kind === 'topic_questions' && !form.topic) ||
+                (form.kind === 'sheet_completion' && !form.sheet_id)
+              }
+            >
+              {saving ? 'Saving...' : 'Create Goal'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
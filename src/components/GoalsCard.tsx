@@ -0,0 +1,158 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Target, X } from 'lucide-react';
+import { GoalDialog } from '@/components/GoalDialog';
+import { ProgressRing } from '@/components/ProgressRing';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys, useGoalProgress } from '@/hooks/use-tracker-queries';
+import { goalService } from '@/services/supabase';
+import { formatDayKey } from '@/utils/streaks';
+import { GOALS } from '@/constants';
+import type { Goal, GoalProgress, Question, Sheet, UserProgress } from '@/types';
+
+interface GoalsCardProps {
+  sheets: Sheet[];
+  questions: Question[];
+  userProgress: UserProgress[];
+}
+
+const getGoalLabel = (goal: Goal, sheetTitles: Map<string, string>) => {
+  switch (goal.kind) {
+    case 'daily_questions':
+      return `${goal.target} question${goal.target === 1 ? '' : 's'} a day`;
+    case 'weekly_minutes':
+      return `${goal.target} minutes a week`;
+    case 'topic_questions':
+      return `${goal.target} ${goal.topic} questions`;
+    default:
+      return `Finish ${sheetTitles.get(goal.sheet_id) ?? 'sheet'}`;
+  }
+};
+
+const getGoalStatus = ({ goal, met, periodEnd, projectedDate, onTrack }: GoalProgress) => {
+  if (goal.kind === 'daily_questions') return met ? 'Done for today' : 'Today';
+  if (goal.kind === 'weekly_minutes') {
+    return met ? 'Done this week' : `This week, until ${formatDayKey(periodEnd, { weekday: 'short', month: 'short', day: 'numeric' })}`;
+  }
+  if (met) return 'Completed';
+
+  const projection = projectedDate
+    ? `on pace for ${formatDayKey(projectedDate, { month: 'short', day: 'numeric' })}`
+    : 'no recent pace to project from';
+  if (!periodEnd) return projection.charAt(0).toUpperCase() + projection.slice(1);
+  return `Due ${formatDayKey(periodEnd, { month: 'short', day: 'numeric' })} · ${onTrack ? '' : 'behind, '}${projection}`;
+};
+
+export function GoalsCard({ sheets, questions, userProgress }: GoalsCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { progress, goals, results, loading } = useGoalProgress(user?.id, questions, userProgress);
+
+  const sheetTitles = new Map(sheets.map(s => [s.id, s.title]));
+  const goalsById = new Map(goals.map(g => [g.id, g]));
+  const recentResults = results.slice(0, GOALS.HISTORY_LIMIT);
+  const hits = recentResults.filter(r => r.met).length;
+
+  const handleArchive = async (goal: Goal) => {
+    try {
+      const result = await goalService.archiveGoal(goal.id);
+      if (result.error) throw result.error;
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals(user.id) });
+    } catch (error) {
+      console.error('Error removing goal:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove goal.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center text-lg">
+              <Target className="h-5 w-5 mr-2" />
+              Goals
+            </CardTitle>
+            <CardDescription>Set targets for your practice and track them as you go.</CardDescription>
+          </div>
+          {user && <GoalDialog userId={user.id} sheets={sheets} questions={questions} />}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : progress.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No goals yet. Add a daily, weekly, topic or sheet goal to get started.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {progress.map(goalProgress => (
+              <div key={goalProgress.goal.id} className="relative flex flex-col items-center text-center rounded-lg border p-4 space-y-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute top-1 right-1 h-6 w-6"
+                  onClick={() => handleArchive(goalProgress.goal)}
+                  aria-label="Remove goal"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+                <ProgressRing
+                  value={goalProgress.percentage}
+                  indicatorClassName={
+                    goalProgress.met ? 'text-green-500' : goalProgress.onTrack === false ? 'text-orange-500' : 'text-primary'
+                  }
+                >
+                  <span className="text-sm font-bold">{goalProgress.current}/{goalProgress.target}</span>
+                </ProgressRing>
+                <p className="text-sm font-medium">{getGoalLabel(goalProgress.goal, sheetTitles)}</p>
+                <p className="text-xs text-muted-foreground">{getGoalStatus(goalProgress)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {recentResults.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">History</h4>
+              <span className="text-xs text-muted-foreground">Hit {hits} of the last {recentResults.length}</span>
+            </div>
+            <div className="space-y-1">
+              {recentResults.map(result => {
+                const goal = goalsById.get(result.goal_id);
+                return (
+                  <div key={result.id} className="flex items-center justify-between text-sm">
+                    <span className="truncate">
+                      {goal ? getGoalLabel(goal, sheetTitles) : 'Removed goal'}
+                      <span className="text-muted-foreground">
+                        {' '}· {result.period_start === result.period_end
+                          ? formatDayKey(result.period_end, { month: 'short', day: 'numeric' })
+                          : `${formatDayKey(result.period_start, { month: 'short', day: 'numeric' })} - ${formatDayKey(result.period_end, { month: 'short', day: 'numeric' })}`}
+                      </span>
+                    </span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-xs text-muted-foreground">{result.achieved}/{result.target}</span>
+                      <Badge variant={result.met ? 'default' : 'outline'}>{result.met ? 'Hit' : 'Missed'}</Badge>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, X } from 'lucide-react';
+
+interface HintListEditorProps {
+  id: string;
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+// One box per hint, so a hint can span several lines of markdown
+export function HintListEditor({ id, label, value, onChange, placeholder }: HintListEditorProps) {
+  const updateHint = (index: number, hint: string) => {
+    onChange(value.map((h, i) => (i === index ? hint : h)));
+  };
+
+  const removeHint = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${id}-0`}>{label}</Label>
+      {value.map((hint, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <span className="text-sm text-muted-foreground pt-2 w-6 shrink-0">{index + 1}.</span>
+          <Textarea
+            id={`${id}-${index}`}
+            value={hint}
+            onChange={(e) => updateHint(index, e.target.value)}
+            placeholder={placeholder}
+            className="font-mono text-sm"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="shrink-0"
+            onClick={() => removeHint(index)}
+            aria-label={`Remove hint ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, ''])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add hint
+      </Button>
+    </div>
+  );
+}
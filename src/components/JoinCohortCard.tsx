@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { GraduationCap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cohortService } from '@/services/supabase';
+
+interface JoinCohortCardProps {
+  onJoined: () => void;
+}
+
+export function JoinCohortCard({ onJoined }: JoinCohortCardProps) {
+  const { toast } = useToast();
+  const [inviteCode, setInviteCode] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setJoining(true);
+
+    try {
+      const result = await cohortService.joinCohort(inviteCode);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Welcome aboard",
+        description: "You have joined your cohort.",
+      });
+      setInviteCode('');
+      onJoined();
+    } catch (error) {
+      console.error('Error joining cohort:', error);
+      toast({
+        title: "Error",
+        description: "That invite code is invalid or has expired.",
+        variant: "destructive",
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <GraduationCap className="h-5 w-5 mr-2" />
+          Join a Cohort
+        </CardTitle>
+        <CardDescription>Enter the invite code from your mentor to see your assigned sheets and deadlines.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex space-x-2">
+          <Input
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="Invite code"
+            className="font-mono uppercase"
+            required
+          />
+          <Button type="submit" disabled={joining || !inviteCode.trim()}>
+            {joining ? 'Joining...' : 'Join'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,13 @@
 import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import { usePracticeTimer } from '@/hooks/use-practice-timer';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
-import { LogOut, User, Settings, BarChart3, BookmarkCheck } from 'lucide-react';
+import { PracticeTimerIndicator } from '@/components/PracticeTimerIndicator';
+import { AchievementTracker } from '@/components/AchievementTracker';
+import { LogOut, User, Settings, BarChart3, BookmarkCheck, ListChecks, Timer } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { PERMISSIONS } from '@/constants';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -12,32 +15,21 @@ interface LayoutProps {
 
 const Layout = ({ children }: LayoutProps) => {
   const { user, signOut } = useAuth();
-  const [userRole, setUserRole] = useState<string>('student');
+  const { canAny } = usePermissions();
+  const { stop } = usePracticeTimer();
 
-  useEffect(() => {
-    const fetchUserRole = async () => {
-      if (user) {
-        const { data } = await supabase
-          .from('profiles')
-          .select('role')
-          .eq('user_id', user.id)
-          .single();
-        
-        if (data) {
-          setUserRole(data.role);
-        }
-      }
-    };
+  // Any staff permission unlocks the admin panel; tabs are gated individually
+  const isAdmin = canAny(Object.values(PERMISSIONS));
 
-    fetchUserRole();
-  }, [user]);
-
-  // Check if user is admin
-  const isAdmin = userRole === 'admin';
+  // A running timer is saved while the session can still write it; the next account drops it
+  const handleSignOut = async () => {
+    await stop();
+    await signOut();
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
-      <header className="fixed top-0 left-0 right-0 z-50 border-b bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
+      <header className="print:hidden fixed top-0 left-0 right-0 z-50 border-b bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <Link to="/" className="cursor-pointer">
             <h1 className="text-2xl font-bold text-foreground hover:text-primary transition-colors">Mentiby Coding Tracker</h1>
@@ -45,6 +37,7 @@ const Layout = ({ children }: LayoutProps) => {
           </Link>
           {user ? (
             <div className="flex items-center space-x-4">
+              <PracticeTimerIndicator />
               <ThemeToggle />
               <Button asChild variant="outline" size="sm">
                 <Link to="/revision">
@@ -52,6 +45,18 @@ const Layout = ({ children }: LayoutProps) => {
                   <span className="hidden sm:inline">Revision</span>
                 </Link>
               </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link to="/mock">
+                  <Timer className="h-4 w-4 mr-2" />
+                  <span className="hidden sm:inline">Mock</span>
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link to="/lists">
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  <span className="hidden sm:inline">Lists</span>
+                </Link>
+              </Button>
               <Button asChild variant="outline" size="sm">
                 <Link to="/analytics">
                   <BarChart3 className="h-4 w-4 mr-2" />
@@ -66,11 +71,11 @@ const Layout = ({ children }: LayoutProps) => {
                   </Link>
                 </Button>
               )}
-              <div className="flex items-center space-x-2 text-sm hidden sm:flex">
+              <Link to="/profile" className="flex items-center space-x-2 text-sm hidden sm:flex hover:text-primary transition-colors">
                 <User className="h-4 w-4" />
                 <span>{user.email}</span>
-              </div>
-              <Button variant="outline" size="sm" onClick={signOut}>
+              </Link>
+              <Button variant="outline" size="sm" onClick={handleSignOut}>
                 <LogOut className="h-4 w-4 mr-2" />
                 <span className="hidden sm:inline">Sign Out</span>
               </Button>
@@ -85,9 +90,10 @@ const Layout = ({ children }: LayoutProps) => {
           )}
         </div>
       </header>
-      <main className="pt-20">
+      <main className="pt-20 print:pt-0">
         {children}
       </main>
+      {user && <AchievementTracker userId={user.id} />}
     </div>
   );
 };
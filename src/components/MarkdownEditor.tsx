@@ -0,0 +1,35 @@
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { MarkdownContent } from '@/components/MarkdownContent';
+
+interface MarkdownEditorProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export function MarkdownEditor({ id, label, value, onChange, placeholder }: MarkdownEditorProps) {
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <div className="grid grid-cols-2 gap-4">
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className="min-h-[160px] font-mono text-sm"
+        />
+        <div className="min-h-[160px] max-h-[320px] overflow-y-auto rounded-md border p-3">
+          {value ? (
+            <MarkdownContent content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Preview</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
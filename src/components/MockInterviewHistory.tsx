@@ -0,0 +1,80 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Timer } from 'lucide-react';
+import { useMockInterviews } from '@/hooks/use-tracker-queries';
+import { formatDateForDisplay, formatTime } from '@/utils';
+
+interface MockInterviewHistoryProps {
+  userId: string;
+}
+
+const getScoreVariant = (score: number): "default" | "secondary" | "destructive" =>
+  score >= 70 ? 'default' : score >= 40 ? 'secondary' : 'destructive';
+
+export function MockInterviewHistory({ userId }: MockInterviewHistoryProps) {
+  const mocksQuery = useMockInterviews(userId);
+  const mocks = mocksQuery.data ?? [];
+  const averageScore = mocks.length > 0 ? Math.round(mocks.reduce((sum, m) => sum + m.score, 0) / mocks.length) : 0;
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center text-lg">
+              <Timer className="h-5 w-5 mr-2" />
+              Mock Interviews
+            </CardTitle>
+            <CardDescription>
+              {mocks.length > 0
+                ? `Averaging ${averageScore}% over your last ${mocks.length} mock${mocks.length === 1 ? '' : 's'}`
+                : 'Timed practice under interview conditions'}
+            </CardDescription>
+          </div>
+          <Button asChild size="sm">
+            <Link to="/mock">Start a Mock</Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {mocksQuery.isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : mocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No mock interviews yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Solved</TableHead>
+                <TableHead className="text-right">Time Used</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mocks.map(mock => (
+                <TableRow key={mock.id}>
+                  <TableCell>{formatDateForDisplay(mock.started_at)}</TableCell>
+                  <TableCell className="text-right">
+                    {mock.questions.filter(q => q.assessment === 'solved').length}/{mock.questions.length}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatTime(mock.time_used_seconds)} of {formatTime(mock.time_limit_seconds)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={getScoreVariant(mock.score)}>{mock.score}%</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Play } from 'lucide-react';
+import { countByDifficulty, drawMockQuestions, getMockCandidates, getSuggestedTimeLimit } from '@/utils/mockInterview';
+import { getUniqueTopics } from '@/utils';
+import { MOCK_INTERVIEW } from '@/constants';
+import type { DifficultyMix, MockInterviewConfig, Question, Sheet, UserProgress } from '@/types';
+
+interface MockInterviewSetupProps {
+  sheets: Sheet[];
+  questions: Question[];
+  userProgress: UserProgress[];
+  onStart: (config: MockInterviewConfig, questionIds: string[]) => void;
+}
+
+const DIFFICULTIES: Question['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+export function MockInterviewSetup({ sheets, questions, userProgress, onStart }: MockInterviewSetupProps) {
+  const [sheetIds, setSheetIds] = useState<string[]>(() => sheets.map(s => s.id));
+  const [topics, setTopics] = useState<string[]>([]);
+  const [mix, setMix] = useState<DifficultyMix>({ ...MOCK_INTERVIEW.DEFAULT_MIX });
+  // Follows the suggestion for the mix until the student sets their own
+  const [timeLimit, setTimeLimit] = useState<number | null>(null);
+
+  const availableTopics = useMemo(
+    () => getUniqueTopics(questions.filter(q => sheetIds.includes(q.sheet_id))),
+    [questions, sheetIds]
+  );
+  const candidates = useMemo(
+    () => getMockCandidates(questions, userProgress, { sheetIds, topics }),
+    [questions, userProgress, sheetIds, topics]
+  );
+  const available = countByDifficulty(candidates);
+  const requested = DIFFICULTIES.reduce((sum, d) => sum + mix[d], 0);
+  const drawable = DIFFICULTIES.reduce((sum, d) => sum + Math.min(mix[d], available[d]), 0);
+  const timeLimitMinutes = timeLimit ?? getSuggestedTimeLimit(mix);
+
+  const toggleSheet = (sheetId: string, checked: boolean) => {
+    setSheetIds(prev => checked ? [...prev, sheetId] : prev.filter(id => id !== sheetId));
+    setTopics([]);
+  };
+
+  const toggleTopic = (topic: string) => {
+    setTopics(prev => prev.includes(topic) ? prev.filter(t => t !== topic) : [...prev, topic]);
+  };
+
+  const handleStart = () => {
+    const drawn = drawMockQuestions(candidates, mix);
+    onStart({ sheetIds, topics, mix, timeLimitMinutes }, drawn.map(q => q.id));
+  };
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle>Set up your mock</CardTitle>
+        <CardDescription>
+          Questions are drawn from what you have not solved yet or marked for revision. Topics and tags stay hidden
+          during the mock.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Sheets</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {sheets.map(sheet => (
+              <label key={sheet.id} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={sheetIds.includes(sheet.id)}
+                  onCheckedChange={(checked) => toggleSheet(sheet.id, Boolean(checked))}
+                />
+                <span>{sheet.title}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {availableTopics.length > 0 && (
+          <div className="space-y-2">
+            <Label>Topics {topics.length === 0 && <span className="text-muted-foreground font-normal">(all)</span>}</Label>
+            <div className="flex flex-wrap gap-2">
+              {availableTopics.map(topic => (
+                <Badge
+                  key={topic}
+                  variant={topics.includes(topic) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleTopic(topic)}
+                >
+                  {topic}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          {DIFFICULTIES.map(difficulty => (
+            <div key={difficulty}>
+              <Label htmlFor={`mock${difficulty}`}>{difficulty}</Label>
+              <Input
+                id={`mock${difficulty}`}
+                type="number"
+                min={0}
+                max={MOCK_INTERVIEW.MAX_PER_DIFFICULTY}
+                value={mix[difficulty]}
+                onChange={(e) => setMix({
+                  ...mix,
+                  [difficulty]: Math.min(MOCK_INTERVIEW.MAX_PER_DIFFICULTY, Math.max(0, parseInt(e.target.value) || 0))
+                })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">{available[difficulty]} available</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="max-w-[200px]">
+          <Label htmlFor="mockTimeLimit">Time limit (minutes)</Label>
+          <Input
+            id="mockTimeLimit"
+            type="number"
+            min={1}
+            value={timeLimitMinutes}
+            onChange={(e) => setTimeLimit(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {drawable < requested
+              ? `Only ${drawable} of the ${requested} questions you asked for are available.`
+              : `${drawable} question${drawable === 1 ? '' : 's'} in ${timeLimitMinutes} minutes.`}
+          </p>
+          <Button onClick={handleStart} disabled={drawable === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Start Mock
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ArrowRight } from 'lucide-react';
+import { RecommendationList } from '@/components/RecommendationList';
+import { useRecommendations } from '@/hooks/use-tracker-queries';
+import { RECOMMENDATIONS } from '@/constants';
+
+interface NextQuestionDialogProps {
+  questionId: string;
+  userId: string;
+}
+
+// Mounted only while the dialog is open, so long question lists do not each pay for the ranking
+function NextQuestionContent({ questionId, userId }: NextQuestionDialogProps) {
+  const { recommendations, userProgress, loading } = useRecommendations(userId, RECOMMENDATIONS.NEXT_DIALOG_LIMIT, questionId);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return <RecommendationList recommendations={recommendations} userProgress={userProgress} userId={userId} />;
+}
+
+export function NextQuestionDialog({ questionId, userId }: NextQuestionDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" title="What to do next">
+          <ArrowRight className="h-3 w-3" />
+          <span className="hidden sm:inline ml-2">Next</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Up next</DialogTitle>
+          <DialogDescription>Suggested from your weak topics, the difficulty ladder and revisions due.</DialogDescription>
+        </DialogHeader>
+        <NextQuestionContent questionId={questionId} userId={userId} />
+      </DialogContent>
+    </Dialog>
+  );
+}
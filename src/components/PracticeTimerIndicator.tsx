@@ -0,0 +1,45 @@
+import { Button } from '@/components/ui/button';
+import { Clock, Pause, Play, Square } from 'lucide-react';
+import { usePracticeTimer, useElapsedSeconds } from '@/hooks/use-practice-timer';
+
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60).toString().padStart(2, '0');
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+};
+
+export function PracticeTimerIndicator() {
+  const { timer, isRunning, pause, resume, stop } = usePracticeTimer();
+  const elapsedSeconds = useElapsedSeconds(timer !== null);
+
+  if (!timer) return null;
+
+  return (
+    <div className="flex items-center space-x-2 rounded-md border px-2 py-1 text-sm">
+      <Clock className={`h-4 w-4 ${isRunning ? 'text-primary animate-pulse' : 'text-muted-foreground'}`} />
+      <span className="hidden md:inline max-w-[160px] truncate" title={timer.questionTitle}>
+        {timer.questionTitle}
+      </span>
+      <span className="font-mono">{formatClock(elapsedSeconds)}</span>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6"
+        onClick={isRunning ? pause : resume}
+        title={isRunning ? 'Pause' : 'Resume'}
+      >
+        {isRunning ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6"
+        onClick={() => stop()}
+        title="Stop and save"
+      >
+        <Square className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
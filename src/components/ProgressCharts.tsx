@@ -14,69 +14,25 @@ import {
   Line,
   Legend
 } from 'recharts';
-import { TrendingUp, PieChart as PieChartIcon, BarChart3 } from 'lucide-react';
+import { TrendingUp, PieChart as PieChartIcon, BarChart3, Timer } from 'lucide-react';
 
-interface Question {
-  id: string;
-  topic: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-}
+import { formatTime, aggregateSessionTime, calculateMedian, computeProgressAggregates } from '@/utils';
+import { formatDayKey, getDayKey, getRecentDayKeys, getStreakSettings } from '@/utils/streaks';
+import type { ProgressChartsProps } from '@/types';
 
-interface UserProgress {
-  question_id: string;
-  completed: boolean;
-  marked_for_revision: boolean;
-  time_spent?: number;
-  completed_at?: string;
-}
+export function ProgressCharts({ questions, userProgress, sessions = [], streakSettings }: ProgressChartsProps) {
+  const settings = streakSettings ?? getStreakSettings();
+  const aggregates = computeProgressAggregates(questions, userProgress);
 
-interface ProgressChartsProps {
-  questions: Question[];
-  userProgress: UserProgress[];
-}
-
-export function ProgressCharts({ questions, userProgress }: ProgressChartsProps) {
   // Difficulty distribution data
   const difficultyData = [
-    { name: 'Easy', total: 0, completed: 0, color: '#22c55e' },
-    { name: 'Medium', total: 0, completed: 0, color: '#eab308' },
-    { name: 'Hard', total: 0, completed: 0, color: '#ef4444' }
+    { name: 'Easy', ...aggregates.difficulty.Easy, color: '#22c55e' },
+    { name: 'Medium', ...aggregates.difficulty.Medium, color: '#eab308' },
+    { name: 'Hard', ...aggregates.difficulty.Hard, color: '#ef4444' }
   ];
 
-  questions.forEach(question => {
-    const diffIndex = difficultyData.findIndex(d => d.name === question.difficulty);
-    if (diffIndex !== -1) {
-      difficultyData[diffIndex].total++;
-      const isCompleted = userProgress.find(p => p.question_id === question.id && p.completed);
-      if (isCompleted) {
-        difficultyData[diffIndex].completed++;
-      }
-    }
-  });
-
   // Topic distribution data
-  const topicData = questions.reduce((acc, question) => {
-    const existingTopic = acc.find(item => item.topic === question.topic);
-    const isCompleted = userProgress.find(p => p.question_id === question.id && p.completed);
-    
-    if (existingTopic) {
-      existingTopic.total++;
-      if (isCompleted) existingTopic.completed++;
-    } else {
-      acc.push({
-        topic: question.topic,
-        total: 1,
-        completed: isCompleted ? 1 : 0,
-        percentage: 0
-      });
-    }
-    return acc;
-  }, [] as Array<{ topic: string; total: number; completed: number; percentage: number }>);
-
-  // Calculate percentages
-  topicData.forEach(item => {
-    item.percentage = item.total > 0 ? Math.round((item.completed / item.total) * 100) : 0;
-  });
+  const topicData = Object.values(aggregates.topics);
 
   // Completion status pie chart data
   const completionData = [
@@ -98,19 +54,15 @@ export function ProgressCharts({ questions, userProgress }: ProgressChartsProps)
   ];
 
   // Progress over time (last 7 days)
-  const last7Days = Array.from({ length: 7 }, (_, i) => {
-    const date = new Date();
-    date.setDate(date.getDate() - (6 - i));
-    return {
-      date: date.toISOString().split('T')[0],
-      day: date.toLocaleDateString('en-US', { weekday: 'short' }),
-      completed: 0
-    };
-  });
+  const last7Days = getRecentDayKeys(7, settings).map(dayKey => ({
+    date: dayKey,
+    day: formatDayKey(dayKey, { weekday: 'short' }),
+    completed: 0
+  }));
 
   userProgress.forEach(progress => {
     if (progress.completed && progress.completed_at) {
-      const completedDate = new Date(progress.completed_at).toISOString().split('T')[0];
+      const completedDate = getDayKey(progress.completed_at, settings);
       const dayData = last7Days.find(d => d.date === completedDate);
       if (dayData) {
         dayData.completed++;
@@ -118,6 +70,23 @@ export function ProgressCharts({ questions, userProgress }: ProgressChartsProps)
     }
   });
 
+  // Time analytics from recorded practice sessions (seconds)
+  const difficultyOrder = ['Easy', 'Medium', 'Hard'];
+  const difficultyTimeData = aggregateSessionTime(sessions, questions, q => q.difficulty)
+    .sort((a, b) => difficultyOrder.indexOf(a.key) - difficultyOrder.indexOf(b.key));
+  const topicTimeData = aggregateSessionTime(sessions, questions, q => q.topic)
+    .sort((a, b) => b.totalSeconds - a.totalSeconds);
+  const questionTitles = new Map(questions.map(q => [q.id, q.title]));
+  const questionTimeData = aggregateSessionTime(sessions, questions, q => q.id)
+    .map(item => ({
+      ...item,
+      medianSeconds: calculateMedian(
+        sessions.filter(s => s.question_id === item.key).map(s => s.duration_seconds)
+      )
+    }))
+    .sort((a, b) => b.totalSeconds - a.totalSeconds)
+    .slice(0, 5);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
       {/* Difficulty Distribution */}
@@ -231,6 +200,78 @@ export function ProgressCharts({ questions, userProgress }: ProgressChartsProps)
           </ResponsiveContainer>
         </CardContent>
       </Card>
+
+      {sessions.length > 0 && (
+        <>
+          {/* Time by Difficulty */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Timer className="h-5 w-5 mr-2" />
+                Time by Difficulty
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={difficultyTimeData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="key" />
+                  <YAxis tickFormatter={(value: number) => formatTime(value)} />
+                  <Tooltip formatter={(value: number, name: string) => [formatTime(value), name]} />
+                  <Legend />
+                  <Bar dataKey="medianSeconds" fill="#3b82f6" name="Median per question" />
+                  <Bar dataKey="totalSeconds" fill="#e2e8f0" name="Total" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Time by Topic */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Timer className="h-5 w-5 mr-2" />
+                Time by Topic
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={topicTimeData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="key" />
+                  <YAxis tickFormatter={(value: number) => formatTime(value)} />
+                  <Tooltip formatter={(value: number, name: string) => [formatTime(value), name]} />
+                  <Legend />
+                  <Bar dataKey="medianSeconds" fill="#3b82f6" name="Median per question" />
+                  <Bar dataKey="totalSeconds" fill="#e2e8f0" name="Total" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Most Time-Consuming Questions */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Timer className="h-5 w-5 mr-2" />
+                Most Time-Consuming Questions
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {questionTimeData.map((item) => (
+                  <div key={item.key} className="flex items-center justify-between text-sm p-2 rounded-lg bg-muted/50">
+                    <span className="font-medium">{questionTitles.get(item.key)}</span>
+                    <span className="text-muted-foreground">
+                      {formatTime(item.totalSeconds)} total, {formatTime(item.medianSeconds)} median over {item.sessions} session{item.sessions === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Download, FileJson, FileSpreadsheet, Printer } from 'lucide-react';
+import { buildProgressExport, buildProgressExportRows, getProgressExportFileName, toProgressCsv } from '@/utils/progressExport';
+import { downloadJson } from '@/utils/sheetPackage';
+import { downloadFile } from '@/utils';
+import type { Profile, Question, Sheet, UserProgress } from '@/types';
+
+interface ProgressExportMenuProps {
+  profile: Pick<Profile, 'name' | 'email'> | null;
+  sheets: Sheet[];
+  questions: Question[];
+  userProgress: UserProgress[];
+  // The printable report only covers the signed-in student
+  showReport?: boolean;
+}
+
+export function ProgressExportMenu({ profile, sheets, questions, userProgress, showReport = false }: ProgressExportMenuProps) {
+  const handleCsv = () => {
+    const csv = toProgressCsv(buildProgressExportRows(sheets, questions, userProgress));
+    downloadFile(getProgressExportFileName(profile?.name, 'csv'), csv, 'text/csv;charset=utf-8');
+  };
+
+  const handleJson = () => {
+    downloadJson(getProgressExportFileName(profile?.name, 'json'), buildProgressExport(profile, sheets, questions, userProgress));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={handleCsv}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Download CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={handleJson}>
+          <FileJson className="h-4 w-4 mr-2" />
+          Download JSON
+        </DropdownMenuItem>
+        {showReport && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link to="/analytics/report">
+                <Printer className="h-4 w-4 mr-2" />
+                Printable report
+              </Link>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
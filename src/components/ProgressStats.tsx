@@ -15,7 +15,7 @@ import {
 import { formatTime, calculateDifficultyStats, calculateCurrentStreak, getQuestionsCompletedToday, getDifficultyColor } from '@/utils';
 import type { ProgressStatsProps } from '@/types';
 
-export function ProgressStats({ questions, userProgress }: ProgressStatsProps) {
+export function ProgressStats({ questions, userProgress, streakSettings }: ProgressStatsProps) {
   const totalQuestions = questions.length;
   const completedQuestions = userProgress.filter(p => p.completed).length;
   const revisionQuestions = userProgress.filter(p => p.marked_for_revision).length;
@@ -24,9 +24,9 @@ export function ProgressStats({ questions, userProgress }: ProgressStatsProps) {
   const completionRate = totalQuestions > 0 ? Math.round((completedQuestions / totalQuestions) * 100) : 0;
   
   // Calculate stats using utility functions
-  const currentStreak = calculateCurrentStreak(userProgress);
+  const currentStreak = calculateCurrentStreak(userProgress, streakSettings);
   const avgTimePerQuestion = completedQuestions > 0 ? Math.round(totalTimeSpent / completedQuestions) : 0;
-  const questionsCompletedToday = getQuestionsCompletedToday(userProgress);
+  const questionsCompletedToday = getQuestionsCompletedToday(userProgress, streakSettings);
   
   // Difficulty breakdown
   const difficultyStats = calculateDifficultyStats(questions, userProgress);
@@ -1,10 +1,11 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
 import { 
   ExternalLink, 
   Clock, 
@@ -14,37 +15,77 @@ import {
   Code,
   CheckCircle,
   BookmarkPlus,
-  StickyNote
+  StickyNote,
+  Lock,
+  GraduationCap,
+  History
 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { useToast } from '@/hooks/use-toast';
+import { progressService, questionService, sessionService } from '@/services/supabase';
+import { calculateMedian } from '@/utils';
+import { SESSION_OUTCOMES } from '@/constants';
+import type { QuestionDetailsProps, PracticeSession, QuestionContent } from '@/types';
 
-interface Question {
-  id: string;
-  sheet_id: string;
-  title: string;
-  topic: string;
-  tags: string[];
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  solve_url?: string;
-}
+export function QuestionDetails({ question, progress, userId, onProgressUpdate, children }: QuestionDetailsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<PracticeSession[]>([]);
+  const [content, setContent] = useState<QuestionContent | null>(null);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [sessionNote, setSessionNote] = useState('');
+  const { toast } = useToast();
 
-interface UserProgress {
-  question_id: string;
-  completed: boolean;
-  marked_for_revision: boolean;
-  note?: string;
-  time_spent?: number;
-  completed_at?: string;
-}
+  const fetchSessions = useCallback(async () => {
+    if (!userId) return;
 
-interface QuestionDetailsProps {
-  question: Question;
-  progress?: UserProgress;
-  children: React.ReactNode;
-}
+    const { data, error } = await sessionService.getQuestionSessions(userId, question.id);
+    if (error) {
+      console.error('Error fetching practice sessions:', error);
+      return;
+    }
+    setSessions(data || []);
+  }, [userId, question.id]);
 
-export function QuestionDetails({ question, progress, children }: QuestionDetailsProps) {
-  const [isOpen, setIsOpen] = useState(false);
+  useEffect(() => {
+    if (isOpen) {
+      fetchSessions();
+    }
+  }, [isOpen, fetchSessions]);
+
+  // The server decides which hints and whether the editorial this user may see
+  const fetchContent = useCallback(async () => {
+    const { data, error } = await questionService.getQuestionContent(question.id);
+    if (error) {
+      console.error('Error fetching question content:', error);
+      return;
+    }
+    setContent(data);
+  }, [question.id]);
+
+  const hintsRevealedCount = progress?.hints_revealed ?? 0;
+  const completed = progress?.completed ?? false;
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchContent();
+    }
+  }, [isOpen, fetchContent, hintsRevealedCount, completed]);
+
+  const saveSessionNote = async (sessionId: string) => {
+    const { error } = await sessionService.updateSession(sessionId, { note: sessionNote });
+    if (error) {
+      console.error('Error saving session note:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save session note. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, note: sessionNote } : s));
+    setEditingSessionId(null);
+  };
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
@@ -69,47 +110,30 @@ export function QuestionDetails({ question, progress, children }: QuestionDetail
     }
   };
 
-  // Mock problem description and hints (in a real app, this would come from the database)
-  const problemDescription = `
-This is a coding problem that tests your understanding of ${question.topic}. 
-
-**Problem Statement:**
-Implement a solution that demonstrates proficiency in ${question.topic} concepts. This ${question.difficulty.toLowerCase()} level problem will help you practice fundamental algorithms and data structures.
-
-**Input:**
-- The input parameters will be provided in the problem interface
-- Consider edge cases and boundary conditions
+  const hints = content?.hints ?? [];
+  const hintCount = content?.hint_count ?? 0;
+  const hintsRevealed = Math.min(hintsRevealedCount, hintCount);
 
-**Output:**
-- Return the expected result according to the problem requirements
-- Ensure your solution handles all specified cases
+  const revealNextHint = async () => {
+    if (!userId) return;
 
-**Constraints:**
-- Time complexity should be optimized
-- Consider space complexity trade-offs
-- Handle edge cases appropriately
-
-**Example:**
-\`\`\`
-Input: example_input
-Output: expected_output
-\`\`\`
-  `;
-
-  const hints = [
-    `Consider using ${question.topic} principles to approach this problem`,
-    `Think about the most efficient algorithm for this ${question.difficulty.toLowerCase()} problem`,
-    `Break down the problem into smaller subproblems`,
-    `Consider the time and space complexity of your solution`
-  ];
+    try {
+      const { data, error } = await progressService.revealNextHint(question.id);
+      if (error) throw error;
+      onProgressUpdate?.(question.id, { hints_revealed: data });
+    } catch (error) {
+      console.error('Error revealing hint:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reveal hint. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
 
-  const relatedConcepts = [
-    'Algorithms',
-    'Data Structures', 
-    'Problem Solving',
-    question.topic,
-    ...question.tags
-  ];
+  const editorialLockMessage = question.editorial_unlock_hints !== null && question.editorial_unlock_hints !== undefined
+    ? `Complete this problem or reveal ${question.editorial_unlock_hints} hint${question.editorial_unlock_hints === 1 ? '' : 's'} to unlock the editorial.`
+    : 'Complete this problem to unlock the editorial.';
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
@@ -196,10 +220,11 @@ Output: expected_output
 
           {/* Tabbed Content */}
           <Tabs defaultValue="description" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="description">Description</TabsTrigger>
               <TabsTrigger value="hints">Hints</TabsTrigger>
-              <TabsTrigger value="concepts">Concepts</TabsTrigger>
+              <TabsTrigger value="editorial">Editorial</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
               <TabsTrigger value="notes">My Notes</TabsTrigger>
             </TabsList>
             
@@ -212,11 +237,13 @@ Output: expected_output
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="prose dark:prose-invert max-w-none">
-                    <pre className="whitespace-pre-wrap text-sm leading-relaxed">
-                      {problemDescription}
-                    </pre>
-                  </div>
+                  {question.description ? (
+                    <MarkdownContent content={question.description} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No problem statement has been added yet. Open the problem link to read it.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -230,36 +257,109 @@ Output: expected_output
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-3">
-                    {hints.map((hint, index) => (
-                      <div key={index} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/50">
-                        <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs font-medium">
-                          {index + 1}
-                        </span>
-                        <p className="text-sm">{hint}</p>
-                      </div>
-                    ))}
-                  </div>
+                  {hintCount === 0 ? (
+                    <p className="text-sm text-muted-foreground">No hints available for this problem.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {hints.map((hint, index) => (
+                        <div key={index} className="flex items-start space-x-3 p-3 rounded-lg bg-muted/50">
+                          <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs font-medium">
+                            {index + 1}
+                          </span>
+                          <MarkdownContent content={hint} />
+                        </div>
+                      ))}
+                      {hintsRevealed < hintCount && (
+                        <Button variant="outline" onClick={revealNextHint} disabled={!userId}>
+                          <Lightbulb className="h-4 w-4 mr-2" />
+                          Reveal hint {hintsRevealed + 1} of {hintCount}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
+            <TabsContent value="editorial" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <GraduationCap className="h-5 w-5 mr-2" />
+                    Editorial
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!content?.has_editorial ? (
+                    <p className="text-sm text-muted-foreground">No editorial has been written for this problem yet.</p>
+                  ) : content.editorial ? (
+                    <MarkdownContent content={content.editorial} />
+                  ) : (
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Lock className="h-4 w-4 mr-2" />
+                      {editorialLockMessage}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
             
-            <TabsContent value="concepts" className="space-y-4">
+            <TabsContent value="history" className="space-y-4">
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center">
-                    <Target className="h-5 w-5 mr-2" />
-                    Related Concepts
+                    <History className="h-5 w-5 mr-2" />
+                    Practice History
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {relatedConcepts.map((concept) => (
-                      <Badge key={concept} variant="outline" className="text-sm">
-                        {concept}
-                      </Badge>
-                    ))}
-                  </div>
+                  {sessions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No timed sessions yet. Start the timer on this question to record one.
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        {sessions.length} sessions - median {formatTime(calculateMedian(sessions.map(s => s.duration_seconds)))}
+                      </p>
+                      <ol className="relative border-l border-border ml-2 space-y-4">
+                        {sessions.map((session) => (
+                          <li key={session.id} className="ml-4">
+                            <div className="absolute w-2 h-2 bg-primary rounded-full -left-1 mt-2" />
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                              <span className="font-medium">
+                                {new Date(session.started_at).toLocaleString()}
+                              </span>
+                              <span className="text-muted-foreground">{formatTime(session.duration_seconds)}</span>
+                              <Badge variant={session.outcome === 'solved' ? 'default' : 'outline'}>
+                                {SESSION_OUTCOMES.find(o => o.value === session.outcome)?.label}
+                              </Badge>
+                            </div>
+                            {editingSessionId === session.id ? (
+                              <div className="flex items-center gap-2 mt-2">
+                                <Input
+                                  value={sessionNote}
+                                  onChange={(e) => setSessionNote(e.target.value)}
+                                  placeholder="What happened in this session?"
+                                />
+                                <Button size="sm" onClick={() => saveSessionNote(session.id)}>Save</Button>
+                              </div>
+                            ) : (
+                              <button
+                                className="text-sm text-muted-foreground hover:text-primary mt-1 text-left"
+                                onClick={() => {
+                                  setEditingSessionId(session.id);
+                                  setSessionNote(session.note || '');
+                                }}
+                              >
+                                {session.note || 'Add a note'}
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
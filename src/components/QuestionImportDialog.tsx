@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Upload, CheckCircle, AlertCircle, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSheetQuestions } from '@/hooks/use-tracker-queries';
+import { questionService } from '@/services/supabase';
+import {
+  parseImportFile,
+  getImportColumns,
+  suggestColumnMapping,
+  validateImportRows
+} from '@/utils/questionImport';
+import { IMPORT_FIELDS } from '@/constants';
+import type { Sheet, ImportColumnMapping, ImportRowResult, ImportSummary, RawImportRow } from '@/types';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'summary';
+
+// Radix Select does not allow an empty string as an item value
+const UNMAPPED = '__unmapped__';
+
+interface QuestionImportDialogProps {
+  sheets: Sheet[];
+  onImported: () => void;
+}
+
+export function QuestionImportDialog({ sheets, onImported }: QuestionImportDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [sheetId, setSheetId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<RawImportRow[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [importing, setImporting] = useState(false);
+  // Duplicates are only checked within the target sheet, so only its questions are loaded
+  const sheetQuestionsQuery = useSheetQuestions(sheetId || undefined);
+
+  const reset = () => {
+    setStep('upload');
+    setSheetId('');
+    setFileName('');
+    setRows([]);
+    setColumns([]);
+    setMapping(null);
+    setResults([]);
+    setSummary(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsedRows = parseImportFile(file.name, await file.text());
+      if (parsedRows.length === 0) throw new Error('The file does not contain any rows');
+
+      const fileColumns = getImportColumns(parsedRows);
+      setFileName(file.name);
+      setRows(parsedRows);
+      setColumns(fileColumns);
+      setMapping(suggestColumnMapping(fileColumns));
+    } catch (error) {
+      console.error('Error parsing import file:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the import file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePreview = () => {
+    setResults(validateImportRows(rows, mapping, sheetId, sheetQuestionsQuery.data ?? []));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    const validRows = results.filter(r => r.status === 'valid');
+    setImporting(true);
+
+    try {
+      if (validRows.length > 0) {
+        const result = await questionService.createQuestions(validRows.map(r => r.data));
+        if (result.error) throw result.error;
+      }
+
+      setSummary({ created: validRows.length, skipped: results.length - validRows.length });
+      setStep('summary');
+      onImported();
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import questions. No rows were created.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const requiredFieldsMapped = mapping !== null &&
+    IMPORT_FIELDS.filter(f => f.required).every(f => mapping[f.field]);
+  const validCount = results.filter(r => r.status === 'valid').length;
+  const invalidCount = results.filter(r => r.status === 'invalid').length;
+  const duplicateCount = results.filter(r => r.status === 'duplicate').length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file, map its columns and review every row before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="importSheet">Target Sheet</Label>
+              <Select value={sheetId} onValueChange={setSheetId}>
+                <SelectTrigger id="importSheet">
+                  <SelectValue placeholder="Select a sheet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map((sheet) => (
+                    <SelectItem key={sheet.id} value={sheet.id}>
+                      {sheet.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="importFile">File (.csv or .json)</Label>
+              <Input id="importFile" type="file" accept=".csv,.json" onChange={handleFileChange} />
+              {fileName && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  {rows.length} rows and {columns.length} columns found in {fileName}
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep('map')} disabled={!sheetId || rows.length === 0}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <Label>{label}{required && ' *'}</Label>
+                  <Select
+                    value={mapping[field] || UNMAPPED}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value === UNMAPPED ? '' : value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} disabled={!requiredFieldsMapped || !sheetQuestionsQuery.isSuccess}>
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                {validCount} valid
+              </Badge>
+              <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                {invalidCount} invalid
+              </Badge>
+              <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
+                {duplicateCount} duplicates
+              </Badge>
+            </div>
+            <ScrollArea className="h-[400px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Topic</TableHead>
+                    <TableHead>Difficulty</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.rowNumber}>
+                      <TableCell>{result.rowNumber}</TableCell>
+                      <TableCell className="font-medium">{result.data.title || '-'}</TableCell>
+                      <TableCell>{result.data.topic || '-'}</TableCell>
+                      <TableCell>{result.status === 'invalid' ? '-' : result.data.difficulty}</TableCell>
+                      <TableCell>
+                        {result.status === 'valid' ? (
+                          <span className="flex items-center text-green-600">
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Ready
+                          </span>
+                        ) : (
+                          <span className={`flex items-start ${result.status === 'invalid' ? 'text-red-600' : 'text-yellow-600'}`}>
+                            {result.status === 'invalid' ?
+                              <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" /> :
+                              <Copy className="h-4 w-4 mr-1 flex-shrink-0" />
+                            }
+                            {result.errors.join('; ')}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importing || validCount === 0}>
+                {importing ? 'Importing...' : `Import ${validCount} questions`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'summary' && summary && (
+          <div className="space-y-4 text-center py-6">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+            <h3 className="text-xl font-semibold">Import complete</h3>
+            <p className="text-muted-foreground">
+              {summary.created} questions created, {summary.skipped} rows skipped.
+            </p>
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
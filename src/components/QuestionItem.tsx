@@ -11,46 +11,31 @@ import {
   BookmarkPlus, 
   BookmarkCheck, 
   StickyNote,
-  ExternalLink 
+  ExternalLink,
+  CalendarClock
 } from 'lucide-react';
 import { QuestionDetails } from '@/components/QuestionDetails';
+import { AddToListMenu } from '@/components/AddToListMenu';
+import { NextQuestionDialog } from '@/components/NextQuestionDialog';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-
-interface Question {
-  id: string;
-  sheet_id: string;
-  title: string;
-  topic: string;
-  tags: string[];
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  solve_url?: string;
-}
-
-interface UserProgress {
-  question_id: string;
-  completed: boolean;
-  marked_for_revision: boolean;
-  note?: string;
-  time_spent?: number;
-  completed_at?: string;
-}
-
-interface QuestionItemProps {
-  question: Question;
-  progress?: UserProgress;
-  userId: string;
-  onProgressUpdate: (questionId: string, updates: Partial<UserProgress>) => void;
-}
+import { usePracticeTimer, useElapsedSeconds } from '@/hooks/use-practice-timer';
+import { useUpdateProgress } from '@/hooks/use-tracker-queries';
+import { progressService } from '@/services/supabase';
+import { getRevisionQueue, getDaysUntilReview } from '@/utils/spacedRepetition';
+import { RECALL_GRADES } from '@/constants';
+import type { QuestionItemProps, RecallGrade, SessionOutcome, UserProgress } from '@/types';
 
 export function QuestionItem({ question, progress, userId, onProgressUpdate }: QuestionItemProps) {
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
-  const [timeSpent, setTimeSpent] = useState(progress?.time_spent || 0);
-  const [timerInterval, setTimerInterval] = useState<NodeJS.Timeout | null>(null);
+  const { timer, start, resume, stop } = usePracticeTimer();
+  const isActive = timer?.questionId === question.id;
+  const isTimerRunning = isActive && timer.runningSince !== null;
+  const elapsedSeconds = useElapsedSeconds(isActive);
+  const timeSpent = (progress?.time_spent || 0) + elapsedSeconds;
   const [note, setNote] = useState(progress?.note || '');
   const [isNoteExpanded, setIsNoteExpanded] = useState(false);
   const { toast } = useToast();
+  const progressMutation = useUpdateProgress(userId);
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
@@ -75,45 +60,27 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
     }
   };
 
-  const startTimer = () => {
-    setIsTimerRunning(true);
-    const interval = setInterval(() => {
-      setTimeSpent(prev => prev + 1);
-    }, 1000);
-    setTimerInterval(interval);
+  const startTimer = async () => {
+    if (isActive) {
+      resume();
+    } else {
+      await start(question.id, question.title);
+    }
   };
 
-  const stopTimer = async () => {
-    setIsTimerRunning(false);
-    if (timerInterval) {
-      clearInterval(timerInterval);
-      setTimerInterval(null);
+  const stopTimer = async (outcome: SessionOutcome = 'attempted') => {
+    // The timer store records the session and saves the new total (in seconds)
+    const totalTimeSpent = await stop(outcome);
+    if (totalTimeSpent !== null) {
+      onProgressUpdate(question.id, { time_spent: totalTimeSpent });
     }
-    
-    // Save time to database
-    await updateProgress({ time_spent: timeSpent });
   };
 
   const updateProgress = async (updates: Partial<UserProgress>) => {
     try {
-      const { error } = await supabase
-        .from('user_progress')
-        .upsert({
-          user_id: userId,
-          question_id: question.id,
-          completed: progress?.completed || false,
-          marked_for_revision: progress?.marked_for_revision || false,
-          note: progress?.note || '',
-          time_spent: progress?.time_spent || 0,
-          ...updates,
-        }, {
-          onConflict: 'user_id,question_id'
-        });
-
-      if (error) throw error;
+      // The shared progress cache is updated optimistically and rolled back on failure
+      await progressMutation.mutateAsync({ questionId: question.id, updates });
 
-      onProgressUpdate(question.id, updates);
-      
       toast({
         title: "Progress updated",
         description: "Your progress has been saved successfully.",
@@ -130,6 +97,9 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
 
   const toggleCompletion = async () => {
     const newCompleted = !progress?.completed;
+    if (newCompleted && isActive) {
+      await stopTimer('solved');
+    }
     await updateProgress({ 
       completed: newCompleted,
       completed_at: newCompleted ? new Date().toISOString() : undefined 
@@ -138,9 +108,43 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
 
   const toggleRevision = async () => {
     const newRevision = !progress?.marked_for_revision;
-    await updateProgress({ marked_for_revision: newRevision });
+    await updateProgress({ 
+      marked_for_revision: newRevision,
+      next_review_at: newRevision ? new Date().toISOString() : null
+    });
   };
 
+  const gradeRecall = async (grade: RecallGrade) => {
+    try {
+      const { data, error } = await progressService.gradeRevision(userId, question.id, grade);
+      if (error) throw error;
+
+      const { ease_factor, review_interval, repetitions, next_review_at, last_reviewed_at } = data;
+      onProgressUpdate(question.id, {
+        marked_for_revision: true,
+        ease_factor,
+        review_interval,
+        repetitions,
+        next_review_at,
+        last_reviewed_at
+      });
+
+      toast({
+        title: "Review recorded",
+        description: `Next review in ${review_interval} day${review_interval === 1 ? '' : 's'}.`,
+      });
+    } catch (error) {
+      console.error('Error grading revision:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record review. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revisionQueue = progress?.marked_for_revision ? getRevisionQueue(progress) : null;
+
   const saveNote = async () => {
     await updateProgress({ note });
     setIsNoteExpanded(false);
@@ -157,7 +161,7 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
           />
           <div className={`w-3 h-3 rounded-full ${getDifficultyColor(question.difficulty)}`} />
           <div className="min-w-0 flex-1">
-            <QuestionDetails question={question} progress={progress}>
+            <QuestionDetails question={question} progress={progress} userId={userId} onProgressUpdate={onProgressUpdate}>
               <button className={`font-medium text-left hover:text-primary transition-colors ${progress?.completed ? 'line-through text-muted-foreground' : ''}`}>
                 {question.title}
               </button>
@@ -181,7 +185,7 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
             <Button
               size="sm"
               variant="outline"
-              onClick={isTimerRunning ? stopTimer : startTimer}
+              onClick={isTimerRunning ? () => stopTimer() : startTimer}
             >
               {isTimerRunning ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
             </Button>
@@ -199,6 +203,9 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
             }
           </Button>
 
+          {/* Custom Lists */}
+          {userId && <AddToListMenu questionId={question.id} userId={userId} />}
+
           {/* Note Toggle */}
           <Button
             size="sm"
@@ -218,6 +225,9 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
             </Button>
           )}
 
+          {/* Recommended Next */}
+          {progress?.completed && userId && <NextQuestionDialog questionId={question.id} userId={userId} />}
+
           {/* Status Badges */}
           <div className="flex space-x-1">
             {progress?.completed && (
@@ -230,6 +240,34 @@ export function QuestionItem({ question, progress, userId, onProgressUpdate }: Q
         </div>
       </div>
 
+      {/* Revision Grading */}
+      {revisionQueue && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          {revisionQueue === 'upcoming' ? (
+            <span className="text-muted-foreground">
+              Next review in {getDaysUntilReview(progress.next_review_at)} days
+            </span>
+          ) : (
+            <>
+              <span className={revisionQueue === 'overdue' ? 'text-red-600' : 'text-muted-foreground'}>
+                {revisionQueue === 'overdue' ? 'Review overdue' : 'Due for review'} - how well did you recall it?
+              </span>
+              {RECALL_GRADES.map((grade) => (
+                <Button
+                  key={grade.value}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => gradeRecall(grade.value)}
+                >
+                  {grade.label}
+                </Button>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Note Section */}
       <Collapsible open={isNoteExpanded} onOpenChange={setIsNoteExpanded}>
         <CollapsibleContent className="mt-4">
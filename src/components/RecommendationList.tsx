@@ -0,0 +1,72 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Sparkles } from 'lucide-react';
+import { QuestionDetails } from '@/components/QuestionDetails';
+import { useProgressCacheUpdater } from '@/hooks/use-tracker-queries';
+import { getDifficultyBadgeVariant, getProgressIndex } from '@/utils';
+import type { Recommendation, UserProgress } from '@/types';
+
+interface RecommendationListProps {
+  recommendations: Recommendation[];
+  userProgress: UserProgress[];
+  userId: string;
+}
+
+export function RecommendationList({ recommendations, userProgress, userId }: RecommendationListProps) {
+  const handleProgressUpdate = useProgressCacheUpdater(userId);
+  const progressIndex = getProgressIndex(userProgress);
+
+  if (recommendations.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        Nothing left to suggest. Every question is solved and no revisions are due.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {recommendations.map(({ question, reasons }, index) => (
+        <div key={question.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+          <div className="flex items-start space-x-3 min-w-0">
+            <span className="text-sm font-semibold text-muted-foreground w-4 pt-0.5">{index + 1}</span>
+            <div className="space-y-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <QuestionDetails
+                  question={question}
+                  progress={progressIndex.get(question.id)}
+                  userId={userId}
+                  onProgressUpdate={handleProgressUpdate}
+                >
+                  <button className="font-medium text-left hover:text-primary transition-colors">
+                    {question.title}
+                  </button>
+                </QuestionDetails>
+                <Badge variant={getDifficultyBadgeVariant(question.difficulty)} className="text-xs">
+                  {question.difficulty}
+                </Badge>
+                <span className="text-xs text-muted-foreground">{question.topic}</span>
+              </div>
+              <ul className="space-y-0.5">
+                {reasons.map(reason => (
+                  <li key={reason} className="flex items-start text-xs text-muted-foreground">
+                    <Sparkles className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          {question.solve_url && (
+            <Button size="sm" variant="outline" asChild className="shrink-0">
+              <a href={question.solve_url} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-3 w-3" />
+                <span className="hidden sm:inline ml-2">Solve</span>
+              </a>
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
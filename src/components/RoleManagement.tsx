@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, UserMinus, UserPlus } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { profileService, roleService } from '@/services/supabase';
+import { formatDateForDisplay } from '@/utils';
+import { PERMISSION_LABELS, ROLE_AUDIT_LOG_LIMIT, ROLE_OPTIONS, USER_ROLES } from '@/constants';
+import type { Permission, Profile, RoleAuditEntry, RolePermission, UserRole } from '@/types';
+
+const STAFF_ROLE_OPTIONS = ROLE_OPTIONS.filter(option => option.value !== USER_ROLES.STUDENT);
+const STAFF_ROLES: UserRole[] = STAFF_ROLE_OPTIONS.map(option => option.value);
+
+export function RoleManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
+  const [staff, setStaff] = useState<Profile[]>([]);
+  const [auditLog, setAuditLog] = useState<RoleAuditEntry[]>([]);
+  const [auditNames, setAuditNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [grantEmail, setGrantEmail] = useState('');
+  const [grantRole, setGrantRole] = useState<UserRole>(USER_ROLES.MENTOR);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [permissionsResult, staffResult, auditResult] = await Promise.all([
+        roleService.getRolePermissions(),
+        profileService.getProfilesByRoles(STAFF_ROLES),
+        roleService.getAuditLog(ROLE_AUDIT_LOG_LIMIT)
+      ]);
+
+      if (permissionsResult.error) throw permissionsResult.error;
+      if (staffResult.error) throw staffResult.error;
+      if (auditResult.error) throw auditResult.error;
+
+      const entries = auditResult.data || [];
+      const userIds = [...new Set(entries.flatMap(entry => [entry.user_id, entry.changed_by]).filter(Boolean))];
+      const names: Record<string, string> = {};
+      if (userIds.length > 0) {
+        const namesResult = await profileService.getProfilesByUserIds(userIds);
+        if (namesResult.error) throw namesResult.error;
+        (namesResult.data || []).forEach(p => {
+          names[p.user_id] = p.name;
+        });
+      }
+
+      setRolePermissions(permissionsResult.data || []);
+      setStaff(staffResult.data || []);
+      setAuditLog(entries);
+      setAuditNames(names);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch roles. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const changeRole = async (userId: string, role: UserRole, message: string) => {
+    try {
+      const result = await roleService.setUserRole(userId, role);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: message,
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change role. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = grantEmail.trim().toLowerCase();
+    if (!email) return;
+
+    const result = await profileService.getProfiles({ search: email, page: 1, pageSize: 10 });
+    const profile = (result.data || []).find(p => p.email.toLowerCase() === email);
+    if (!profile) {
+      toast({
+        title: "User not found",
+        description: `No account is registered with ${email}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await changeRole(profile.user_id, grantRole, `${profile.name} is now ${roleLabel(grantRole)}.`);
+    setGrantEmail('');
+  };
+
+  const handleRevoke = async (profile: Profile) => {
+    if (!confirm(`Revoke ${roleLabel(profile.role)} from ${profile.name}? They will become a student.`)) {
+      return;
+    }
+    await changeRole(profile.user_id, USER_ROLES.STUDENT, `${profile.name} is now a student.`);
+  };
+
+  const hasPermission = (role: UserRole, permission: Permission) =>
+    rolePermissions.some(rp => rp.role === role && rp.permission === permission);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Role Permissions</CardTitle>
+          <CardDescription>What each staff role is allowed to do</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {STAFF_ROLE_OPTIONS.map(option => (
+                  <TableHead key={option.value} className="text-center">{option.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(Object.keys(PERMISSION_LABELS) as Permission[]).map(permission => (
+                <TableRow key={permission}>
+                  <TableCell>{PERMISSION_LABELS[permission]}</TableCell>
+                  {STAFF_ROLE_OPTIONS.map(option => (
+                    <TableCell key={option.value} className="text-center">
+                      {hasPermission(option.value, permission) && (
+                        <Check className="h-4 w-4 text-green-600 mx-auto" />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff</CardTitle>
+          <CardDescription>Grant or revoke staff roles</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleGrant} className="flex flex-col md:flex-row md:items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="grantEmail">Email</Label>
+              <Input
+                id="grantEmail"
+                type="email"
+                value={grantEmail}
+                onChange={(e) => setGrantEmail(e.target.value)}
+                placeholder="user@example.com"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="grantRole">Role</Label>
+              <Select value={grantRole} onValueChange={(value) => setGrantRole(value as UserRole)}>
+                <SelectTrigger id="grantRole" className="md:w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Grant
+            </Button>
+          </form>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                    No staff members yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                staff.map(profile => (
+                  <TableRow key={profile.id}>
+                    <TableCell>
+                      <div className="font-medium">{profile.name}</div>
+                      <div className="text-xs text-muted-foreground">{profile.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge>{roleLabel(profile.role)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevoke(profile)}
+                        disabled={profile.user_id === user?.id}
+                        title="Revoke role"
+                      >
+                        <UserMinus className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>The last {ROLE_AUDIT_LOG_LIMIT} role changes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Changed by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditLog.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                    No role changes recorded.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                auditLog.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{formatDateForDisplay(entry.created_at)}</TableCell>
+                    <TableCell>{auditNames[entry.user_id] || 'Unknown user'}</TableCell>
+                    <TableCell>
+                      {entry.old_role ? roleLabel(entry.old_role) : 'None'} → {roleLabel(entry.new_role)}
+                    </TableCell>
+                    <TableCell>
+                      {entry.changed_by ? auditNames[entry.changed_by] || 'Unknown user' : 'System'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function roleLabel(role: UserRole) {
+  return ROLE_OPTIONS.find(option => option.value === role)?.label ?? role;
+}
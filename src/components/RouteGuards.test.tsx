@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { ProtectedRoute, RequireRole } from './RouteGuards';
+import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import type { Permission } from '@/types';
+
+vi.mock('@/hooks/use-auth', () => ({ useAuth: vi.fn() }));
+vi.mock('@/hooks/use-permissions', () => ({ usePermissions: vi.fn() }));
+
+type AuthValue = ReturnType<typeof useAuth>;
+type PermissionsValue = ReturnType<typeof usePermissions>;
+
+const stubAuth = (value: Partial<AuthValue>) => {
+  vi.mocked(useAuth).mockReturnValue({ user: null, session: null, loading: false, signOut: vi.fn(), ...value } as AuthValue);
+};
+
+const stubPermissions = (granted: Permission[], loading = false) => {
+  vi.mocked(usePermissions).mockReturnValue({
+    role: 'student',
+    permissions: granted,
+    loading,
+    can: (permission: Permission) => granted.includes(permission),
+    canAny: (permissions: readonly Permission[]) => permissions.some(p => granted.includes(p)),
+    refresh: vi.fn()
+  } as PermissionsValue);
+};
+
+function AuthPage() {
+  const location = useLocation();
+  return <p>Auth page {location.search}</p>;
+}
+
+const renderAt = (path: string, element: React.ReactNode) => render(
+  <MemoryRouter initialEntries={[path]}>
+    <Routes>
+      <Route path="/auth" element={<AuthPage />} />
+      <Route path="/admin" element={element} />
+    </Routes>
+  </MemoryRouter>
+);
+
+describe('route guards', () => {
+  beforeEach(() => {
+    stubAuth({ user: { id: 'user-1' } as AuthValue['user'] });
+    stubPermissions([]);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('shows the spinner while the session loads', () => {
+    stubAuth({ loading: true });
+    renderAt('/admin', <ProtectedRoute><p>Secret</p></ProtectedRoute>);
+
+    expect(screen.getByText('Loading...')).toBeTruthy();
+    expect(screen.queryByText('Secret')).toBeNull();
+  });
+
+  it('sends signed-out visitors to /auth with the encoded path and search', () => {
+    stubAuth({ user: null });
+    renderAt('/admin?tab=users&page=2', <ProtectedRoute><p>Secret</p></ProtectedRoute>);
+
+    expect(screen.getByText(`Auth page ?redirect=${encodeURIComponent('/admin?tab=users&page=2')}`)).toBeTruthy();
+    expect(screen.queryByText('Secret')).toBeNull();
+  });
+
+  it('renders the 403 page when the permission is missing', () => {
+    stubPermissions(['view_student_progress']);
+    renderAt('/admin', (
+      <ProtectedRoute>
+        <RequireRole permissions={['manage_roles']}><p>Secret</p></RequireRole>
+      </ProtectedRoute>
+    ));
+
+    expect(screen.getByText('Access Denied')).toBeTruthy();
+    expect(screen.queryByText('Secret')).toBeNull();
+  });
+
+  it('renders the children when the permission is granted', () => {
+    stubPermissions(['manage_roles']);
+    renderAt('/admin', (
+      <ProtectedRoute>
+        <RequireRole permissions={['manage_roles']}><p>Secret</p></RequireRole>
+      </ProtectedRoute>
+    ));
+
+    expect(screen.getByText('Secret')).toBeTruthy();
+  });
+});
@@ -0,0 +1,56 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import Forbidden from '@/pages/Forbidden';
+import { AUTH_REDIRECT_PARAM } from '@/constants';
+import type { Permission, UserRole } from '@/types';
+
+function RouteLoading() {
+  return (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    </div>
+  );
+}
+
+// Waits for the session and sends signed-out visitors to /auth, remembering where they were going
+export function ProtectedRoute({ children }: { children: React.ReactNode }) {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <RouteLoading />;
+  }
+
+  if (!user) {
+    const returnTo = encodeURIComponent(`${location.pathname}${location.search}`);
+    return <Navigate to={`/auth?${AUTH_REDIRECT_PARAM}=${returnTo}`} replace />;
+  }
+
+  return <>{children}</>;
+}
+
+interface RequireRoleProps {
+  children: React.ReactNode;
+  roles?: UserRole[];
+  permissions?: Permission[];
+}
+
+// Renders a 403 unless the user has one of the roles or any of the permissions.
+// Must be nested inside ProtectedRoute.
+export function RequireRole({ children, roles = [], permissions = [] }: RequireRoleProps) {
+  const { role, canAny, loading } = usePermissions();
+
+  if (loading) {
+    return <RouteLoading />;
+  }
+
+  if (!roles.includes(role) && !canAny(permissions)) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+}
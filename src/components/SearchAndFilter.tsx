@@ -14,6 +14,7 @@ import {
   Circle 
 } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { getProgressIndex, isQuestionCompleted } from '@/utils';
 import type { Question, UserProgress, SearchAndFilterProps } from '@/types';
 
 
@@ -36,6 +37,7 @@ export function SearchAndFilter({
 
   // Apply filters
   const applyFilters = useCallback(() => {
+    const index = getProgressIndex(userProgress);
     const filtered = questions.filter(question => {
       const matchesSearch = question.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            question.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
@@ -43,7 +45,7 @@ export function SearchAndFilter({
       const matchesDifficulty = selectedDifficulty === 'all' || question.difficulty === selectedDifficulty;
       const matchesTopic = selectedTopic === 'all' || question.topic === selectedTopic;
       
-      const progress = userProgress.find(p => p.question_id === question.id);
+      const progress = index.get(question.id);
       let matchesStatus = true;
       
       if (selectedStatus === 'completed') {
@@ -76,8 +78,8 @@ export function SearchAndFilter({
           break;
         }
         case 'completion': {
-          const aCompleted = userProgress.find(p => p.question_id === a.id)?.completed || false;
-          const bCompleted = userProgress.find(p => p.question_id === b.id)?.completed || false;
+          const aCompleted = isQuestionCompleted(index, a.id);
+          const bCompleted = isQuestionCompleted(index, b.id);
           comparison = Number(aCompleted) - Number(bCompleted);
           break;
         }
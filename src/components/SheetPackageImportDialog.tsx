@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PackageOpen } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSheetQuestions } from '@/hooks/use-tracker-queries';
+import { sheetService, questionService } from '@/services/supabase';
+import { appendAfterExisting, parseSheetPackage, validateSheetPackage } from '@/utils/sheetPackage';
+import { formatArrayForInput } from '@/utils';
+import type { Sheet, SheetPackage } from '@/types';
+
+type ImportMode = 'create' | 'merge';
+
+interface SheetPackageImportDialogProps {
+  sheets: Sheet[];
+  onImported: () => void;
+}
+
+export function SheetPackageImportDialog({ sheets, onImported }: SheetPackageImportDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [sheetPackage, setSheetPackage] = useState<SheetPackage | null>(null);
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [targetSheetId, setTargetSheetId] = useState('');
+  const [importing, setImporting] = useState(false);
+  const targetQuestionsQuery = useSheetQuestions(mode === 'merge' && targetSheetId ? targetSheetId : undefined);
+  const targetQuestions = targetQuestionsQuery.data ?? [];
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setSheetPackage(null);
+      setMode('create');
+      setTargetSheetId('');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setSheetPackage(parseSheetPackage(await file.text()));
+    } catch (error) {
+      console.error('Error reading sheet package:', error);
+      setSheetPackage(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the sheet package.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const results = sheetPackage
+    ? validateSheetPackage(sheetPackage, mode === 'merge' ? targetSheetId : '', mode === 'merge' ? targetQuestions : [])
+    : [];
+  const validRows = results.filter(r => r.status === 'valid');
+
+  const handleImport = async () => {
+    if (!sheetPackage) return;
+    setImporting(true);
+
+    try {
+      let sheetId = targetSheetId;
+
+      if (mode === 'create') {
+        const result = await sheetService.createSheet({
+          title: sheetPackage.sheet.title,
+          description: sheetPackage.sheet.description,
+          topics: formatArrayForInput(sheetPackage.sheet.topics)
+        });
+        if (result.error) throw result.error;
+        sheetId = result.data.id;
+      } else {
+        const target = sheets.find(s => s.id === targetSheetId);
+        const topics = [...new Set([...target.topics, ...sheetPackage.sheet.topics])];
+        const result = await sheetService.updateSheet(target.id, {
+          title: target.title,
+          description: target.description || '',
+          topics: formatArrayForInput(topics)
+        });
+        if (result.error) throw result.error;
+      }
+
+      if (validRows.length > 0) {
+        const rows = mode === 'merge'
+          ? appendAfterExisting(validRows.map(r => r.data), sheetId, targetQuestions)
+          : validRows.map(r => ({ ...r.data, sheet_id: sheetId }));
+        const result = await questionService.createQuestions(rows);
+        if (result.error) {
+          // Don't leave an empty sheet behind when its questions could not be added
+          if (mode === 'create') {
+            const cleanup = await sheetService.deleteSheet(sheetId);
+            if (cleanup.error) console.error('Error removing partially imported sheet:', cleanup.error);
+          }
+          throw result.error;
+        }
+      }
+
+      toast({
+        title: "Success",
+        description: `${validRows.length} questions imported, ${results.length - validRows.length} skipped.`,
+      });
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing sheet package:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import sheet package. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <PackageOpen className="h-4 w-4 mr-2" />
+          Import Package
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Sheet Package</DialogTitle>
+          <DialogDescription>
+            Create a new sheet from an exported package or merge its questions into an existing sheet.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="sheetPackageFile">Package file (.json)</Label>
+            <Input id="sheetPackageFile" type="file" accept=".json" onChange={handleFileChange} />
+          </div>
+
+          {sheetPackage && (
+            <>
+              <div className="rounded-lg bg-muted/50 p-3 space-y-2">
+                <p className="font-medium">{sheetPackage.sheet.title}</p>
+                <p className="text-sm text-muted-foreground">
+                  {sheetPackage.questions.length} questions - exported {new Date(sheetPackage.exported_at).toLocaleDateString()}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {sheetPackage.sheet.topics.map((topic) => (
+                    <Badge key={topic} variant="secondary" className="text-xs">
+                      {topic}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="create" id="importModeCreate" />
+                  <Label htmlFor="importModeCreate">Create a new sheet</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="merge" id="importModeMerge" />
+                  <Label htmlFor="importModeMerge">Merge into an existing sheet</Label>
+                </div>
+              </RadioGroup>
+
+              {mode === 'merge' && (
+                <Select value={targetSheetId} onValueChange={setTargetSheetId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a sheet" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheets.map((sheet) => (
+                      <SelectItem key={sheet.id} value={sheet.id}>
+                        {sheet.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <p className="text-sm text-muted-foreground">
+                {validRows.length} questions will be imported
+                {results.length > validRows.length && `, ${results.length - validRows.length} skipped as invalid or duplicate`}.
+              </p>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!sheetPackage || importing || (mode === 'merge' && !targetQuestionsQuery.isSuccess)}
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Settings } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys, useUserCohort } from '@/hooks/use-tracker-queries';
+import { profileService } from '@/services/supabase';
+import { getDeviceTimeZone, isValidTimeZone } from '@/utils/streaks';
+import { STREAK_DEFAULTS, WEEKDAY_LABELS } from '@/constants';
+
+const formatRolloverHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export function StreakSettingsDialog() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userCohort } = useUserCohort(user?.id);
+  const [isOpen, setIsOpen] = useState(false);
+  const [timeZone, setTimeZone] = useState('');
+  const [rolloverHour, setRolloverHour] = useState(String(STREAK_DEFAULTS.ROLLOVER_HOUR));
+  const [restDays, setRestDays] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setTimeZone(userCohort?.profile?.timezone || '');
+      setRolloverHour(String(userCohort?.profile?.day_rollover_hour ?? STREAK_DEFAULTS.ROLLOVER_HOUR));
+      setRestDays((userCohort?.profile?.rest_days || []).map(String));
+    }
+  };
+
+  const trimmedTimeZone = timeZone.trim();
+  const timeZoneError = trimmedTimeZone && !isValidTimeZone(trimmedTimeZone)
+    ? 'Use an IANA timezone such as Asia/Kolkata or America/New_York.'
+    : null;
+
+  const handleSave = async () => {
+    if (!user || timeZoneError) return;
+    setSaving(true);
+
+    try {
+      const result = await profileService.updateProfile(user.id, {
+        timezone: trimmedTimeZone || null,
+        day_rollover_hour: Number(rolloverHour),
+        rest_days: restDays.map(Number).sort()
+      });
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: "Streak settings saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.userCohort(user.id) });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error saving streak settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save streak settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Streak settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Streak Settings</DialogTitle>
+          <DialogDescription>
+            Choose how your days are counted and which days of the week you plan to rest.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="streak-timezone">Timezone</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="streak-timezone"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                placeholder={`Device default (${getDeviceTimeZone()})`}
+              />
+              <Button type="button" variant="outline" onClick={() => setTimeZone(getDeviceTimeZone())}>
+                Use current
+              </Button>
+            </div>
+            {timeZoneError && <p className="text-sm text-destructive">{timeZoneError}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>New day starts at</Label>
+            <Select value={rolloverHour} onValueChange={setRolloverHour}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: STREAK_DEFAULTS.MAX_ROLLOVER_HOUR + 1 }, (_, hour) => (
+                  <SelectItem key={hour} value={String(hour)}>
+                    {hour === 0 ? 'Midnight' : formatRolloverHour(hour)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Practice before this hour counts towards the previous day.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Rest days</Label>
+            <ToggleGroup type="multiple" variant="outline" size="sm" value={restDays} onValueChange={setRestDays} className="justify-start flex-wrap">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">
+              Missing a planned rest day never breaks your streak or spends a freeze.
+            </p>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || Boolean(timeZoneError)}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
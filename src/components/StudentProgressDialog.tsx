@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ProgressStats } from '@/components/ProgressStats';
+import { ProgressCharts } from '@/components/ProgressCharts';
+import { ProgressExportMenu } from '@/components/ProgressExportMenu';
+import { useToast } from '@/hooks/use-toast';
+import { useSheets, useQuestions } from '@/hooks/use-tracker-queries';
+import { progressService } from '@/services/supabase';
+import { getStreakSettings } from '@/utils/streaks';
+import type { Profile, UserProgress } from '@/types';
+
+interface StudentProgressDialogProps {
+  profile: Profile | null;
+  cohortName?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Read-only view of a student's dashboard for admins
+export function StudentProgressDialog({ profile, cohortName, onOpenChange }: StudentProgressDialogProps) {
+  const { toast } = useToast();
+  const sheetsQuery = useSheets();
+  // The full question list is only needed once a student is being viewed
+  const questionsQuery = useQuestions(profile !== null);
+  const questions = questionsQuery.data ?? [];
+  const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const fetchProgress = async () => {
+      setLoading(true);
+      try {
+        const result = await progressService.getUserProgress(profile.user_id);
+        if (result.error) throw result.error;
+        setUserProgress(result.data || []);
+      } catch (error) {
+        console.error('Error fetching student progress:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load this student's progress.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProgress();
+  }, [profile, toast]);
+
+  // Days are counted in the student's zone, not the viewing admin's
+  const streakSettings = getStreakSettings(profile);
+  const isLoading = loading || questionsQuery.isLoading;
+
+  return (
+    <Dialog open={profile !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="flex-row items-start justify-between gap-4 space-y-0 pr-8">
+          <div className="space-y-1.5">
+            <DialogTitle>{profile?.name}</DialogTitle>
+            <DialogDescription>
+              {profile?.email}{cohortName && ` - ${cohortName}`}
+            </DialogDescription>
+          </div>
+          {!isLoading && (
+            <ProgressExportMenu
+              profile={profile}
+              sheets={sheetsQuery.data ?? []}
+              questions={questions}
+              userProgress={userProgress}
+            />
+          )}
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <ProgressStats questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
+            <ProgressCharts questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CalendarDays, CheckCircle, Circle, X } from 'lucide-react';
+import { QuestionDetails } from '@/components/QuestionDetails';
+import { StudyPlanDialog } from '@/components/StudyPlanDialog';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys, useProgressCacheUpdater, useStudyPlanProgress } from '@/hooks/use-tracker-queries';
+import { studyPlanService } from '@/services/supabase';
+import { getDifficultyBadgeVariant, getProgressIndex, getQuestionsByIds, isQuestionCompleted } from '@/utils';
+import { formatDayKey } from '@/utils/streaks';
+import type { Question, Sheet, UserProgress } from '@/types';
+
+interface StudyPlanCardProps {
+  sheets: Sheet[];
+  questions: Question[];
+  userProgress: UserProgress[];
+  userId: string;
+}
+
+export function StudyPlanCard({ sheets, questions, userProgress, userId }: StudyPlanCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const handleProgressUpdate = useProgressCacheUpdater(userId);
+  const { plan, status, estimates, streakSettings, todayKey, loading } = useStudyPlanProgress(userId, questions, userProgress);
+
+  const progressIndex = getProgressIndex(userProgress);
+  const todayQuestions = status?.today ? getQuestionsByIds(status.today.question_ids, questions) : [];
+  const nextDay = plan?.schedule.find(d => d.day > todayKey);
+  const percentage = status && status.totalCount > 0 ? Math.round((status.completedCount / status.totalCount) * 100) : 0;
+
+  const handleRemove = async () => {
+    if (!confirm('Remove your study plan? Your progress on its questions is kept.')) return;
+
+    try {
+      const result = await studyPlanService.archivePlan(plan.id);
+      if (result.error) throw result.error;
+      queryClient.setQueryData(queryKeys.studyPlan(userId), null);
+    } catch (error) {
+      console.error('Error removing study plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove study plan.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center text-lg">
+              <CalendarDays className="h-5 w-5 mr-2" />
+              Study Plan
+            </CardTitle>
+            <CardDescription>
+              {plan
+                ? `Target ${formatDayKey(plan.target_date, { month: 'short', day: 'numeric', year: 'numeric' })} · ${plan.minutes_per_day} min a day`
+                : 'Pick sheets and a target date to get a day-by-day schedule.'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <StudyPlanDialog
+              key={plan?.id ?? 'new'}
+              userId={userId}
+              sheets={sheets}
+              questions={questions}
+              userProgress={userProgress}
+              estimates={estimates}
+              streakSettings={streakSettings}
+              todayKey={todayKey}
+              plan={plan}
+            />
+            {plan && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleRemove} aria-label="Remove study plan">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      {(loading || plan) && (
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Overall</span>
+                  <span>{status.completedCount}/{status.totalCount} questions</span>
+                </div>
+                <Progress value={percentage} className="h-2" />
+              </div>
+
+              {status.overflowDays > 0 && (
+                <p className="text-xs text-orange-500">
+                  At {plan.minutes_per_day} minutes a day, {status.overflowDays} study day{status.overflowDays === 1 ? '' : 's'} now fall after the target date. Consider a later date or more time each day.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Today</h4>
+                  {status.today && <span className="text-xs text-muted-foreground">about {status.today.minutes} min</span>}
+                </div>
+                {todayQuestions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-2">
+                    {status.completedCount === status.totalCount
+                      ? 'Every question in this plan is solved.'
+                      : nextDay
+                        ? `Nothing planned today. Next up ${formatDayKey(nextDay.day, { weekday: 'short', month: 'short', day: 'numeric' })}.`
+                        : 'Nothing planned today.'}
+                  </p>
+                ) : (
+                  todayQuestions.map(question => {
+                    const done = isQuestionCompleted(progressIndex, question.id);
+                    return (
+                      <div key={question.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          {done
+                            ? <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />
+                            : <Circle className="h-4 w-4 text-muted-foreground shrink-0" />}
+                          <QuestionDetails
+                            question={question}
+                            progress={progressIndex.get(question.id)}
+                            userId={userId}
+                            onProgressUpdate={handleProgressUpdate}
+                          >
+                            <button className={`font-medium text-left truncate hover:text-primary transition-colors ${done ? 'line-through text-muted-foreground' : ''}`}>
+                              {question.title}
+                            </button>
+                          </QuestionDetails>
+                        </div>
+                        <Badge variant={getDifficultyBadgeVariant(question.difficulty)} className="text-xs shrink-0">
+                          {question.difficulty}
+                        </Badge>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
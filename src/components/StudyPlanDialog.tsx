@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CalendarPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/hooks/use-tracker-queries';
+import { studyPlanService } from '@/services/supabase';
+import { buildStudySchedule, getRemainingPlanQuestions } from '@/utils/studyPlan';
+import { addDaysToKey, formatDayKey } from '@/utils/streaks';
+import { STUDY_PLAN } from '@/constants';
+import type { DifficultyMinutes, Question, Sheet, StreakSettings, StudyPlan, StudyPlanFormData, UserProgress } from '@/types';
+
+interface StudyPlanDialogProps {
+  userId: string;
+  sheets: Sheet[];
+  questions: Question[];
+  userProgress: UserProgress[];
+  estimates: DifficultyMinutes;
+  streakSettings: StreakSettings;
+  todayKey: string;
+  plan: StudyPlan | null;
+}
+
+const getInitialForm = (plan: StudyPlan | null, todayKey: string): StudyPlanFormData => ({
+  sheet_ids: plan?.sheet_ids ?? [],
+  target_date: plan?.target_date ?? addDaysToKey(todayKey, 30),
+  hours_per_day: plan ? plan.minutes_per_day / 60 : STUDY_PLAN.DEFAULT_HOURS_PER_DAY
+});
+
+export function StudyPlanDialog({ userId, sheets, questions, userProgress, estimates, streakSettings, todayKey, plan }: StudyPlanDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<StudyPlanFormData>(() => getInitialForm(plan, todayKey));
+  const [saving, setSaving] = useState(false);
+
+  const targetDay = form.target_date < todayKey ? todayKey : form.target_date;
+  const schedule = useMemo(
+    () => buildStudySchedule(getRemainingPlanQuestions(form.sheet_ids, questions, userProgress), estimates, {
+      startDay: todayKey,
+      targetDay,
+      restDays: streakSettings.restDays,
+      minutesPerDay: Math.round(form.hours_per_day * 60)
+    }),
+    [form.sheet_ids, form.hours_per_day, questions, userProgress, estimates, todayKey, targetDay, streakSettings.restDays]
+  );
+  const questionCount = schedule.days.reduce((sum, day) => sum + day.question_ids.length, 0);
+  const totalMinutes = schedule.days.reduce((sum, day) => sum + day.minutes, 0);
+  const lastDay = schedule.days[schedule.days.length - 1];
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setForm(getInitialForm(plan, todayKey));
+  };
+
+  const toggleSheet = (sheetId: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      sheet_ids: checked ? [...prev.sheet_ids, sheetId] : prev.sheet_ids.filter(id => id !== sheetId)
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const result = await studyPlanService.createPlan({ ...form, target_date: targetDay }, schedule.days, todayKey);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: "Study plan created.",
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.studyPlan(userId) });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error creating study plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create study plan.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant={plan ? 'outline' : 'default'}>
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          {plan ? 'New Plan' : 'Create Plan'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Study Plan</DialogTitle>
+          <DialogDescription>
+            Unsolved questions are spread over the days until your target within your daily hours, skipping rest days, using your median solve times.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Sheets, in the order to work through them</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {sheets.map(sheet => (
+                <label key={sheet.id} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={form.sheet_ids.includes(sheet.id)}
+                    onCheckedChange={(checked) => toggleSheet(sheet.id, Boolean(checked))}
+                  />
+                  <span>{sheet.title}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="planTargetDate">Target date</Label>
+              <Input
+                id="planTargetDate"
+                type="date"
+                min={todayKey}
+                value={form.target_date}
+                onChange={(e) => setForm({ ...form, target_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="planHoursPerDay">Hours per day</Label>
+              <Input
+                id="planHoursPerDay"
+                type="number"
+                min={0.25}
+                max={STUDY_PLAN.MAX_HOURS_PER_DAY}
+                step={0.25}
+                value={form.hours_per_day}
+                onChange={(e) => setForm({ ...form, hours_per_day: parseFloat(e.target.value) || STUDY_PLAN.DEFAULT_HOURS_PER_DAY })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="rounded-lg border p-3 text-sm space-y-1">
+            <p>
+              {questionCount} question{questionCount === 1 ? '' : 's'} over {schedule.days.length} day{schedule.days.length === 1 ? '' : 's'}, about {Math.ceil(totalMinutes / 60)} hours in all.
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Estimates: Easy {estimates.Easy} min, Medium {estimates.Medium} min, Hard {estimates.Hard} min.
+            </p>
+            {schedule.overflowDays > 0 && (
+              <p className="text-xs text-orange-500">
+                At {form.hours_per_day} hour{form.hours_per_day === 1 ? '' : 's'} a day this runs {schedule.overflowDays} study day{schedule.overflowDays === 1 ? '' : 's'} past your target, finishing {formatDayKey(lastDay.day, { month: 'short', day: 'numeric' })}. Pick a later target date or more hours.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || form.sheet_ids.length === 0 || questionCount === 0}>
+              {saving ? 'Saving...' : 'Save Plan'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  Legend
+} from 'recharts';
+import { Users, TrendingUp, AlertTriangle, Filter, Grid3X3, Target } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { adminAnalyticsService } from '@/services/supabase';
+import { calculateCompletionRate, formatTime, getDifficultyBadgeVariant } from '@/utils';
+import { ADMIN_ANALYTICS } from '@/constants';
+import type { ActivityBucket, ActivityPoint, QuestionSolveStats, CohortFunnel, TopicWeakness } from '@/types';
+
+const formatPeriod = (period: string) => {
+  return new Date(`${period}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Red for weak topics through green for strong ones
+const getHeatmapColor = (solveRate: number) => {
+  return `hsl(${Math.round(solveRate * 1.2)}, 70%, 45%)`;
+};
+
+export function SystemAnalytics() {
+  const { toast } = useToast();
+  const [bucket, setBucket] = useState<ActivityBucket>('day');
+  const [dailyActivity, setDailyActivity] = useState<ActivityPoint[]>([]);
+  const [weeklyActivity, setWeeklyActivity] = useState<ActivityPoint[]>([]);
+  const [questionStats, setQuestionStats] = useState<QuestionSolveStats[]>([]);
+  const [funnels, setFunnels] = useState<CohortFunnel[]>([]);
+  const [topicWeakness, setTopicWeakness] = useState<TopicWeakness[]>([]);
+  const [funnelSheetId, setFunnelSheetId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [dailyResult, weeklyResult, questionsResult, funnelsResult, weaknessResult] = await Promise.all([
+        adminAnalyticsService.getActivity('day', ADMIN_ANALYTICS.DAILY_PERIODS),
+        adminAnalyticsService.getActivity('week', ADMIN_ANALYTICS.WEEKLY_PERIODS),
+        adminAnalyticsService.getQuestionStats(),
+        adminAnalyticsService.getCohortFunnels(),
+        adminAnalyticsService.getTopicWeakness()
+      ]);
+
+      if (dailyResult.error) throw dailyResult.error;
+      if (weeklyResult.error) throw weeklyResult.error;
+      if (questionsResult.error) throw questionsResult.error;
+      if (funnelsResult.error) throw funnelsResult.error;
+      if (weaknessResult.error) throw weaknessResult.error;
+
+      setDailyActivity(dailyResult.data || []);
+      setWeeklyActivity(weeklyResult.data || []);
+      setQuestionStats(questionsResult.data || []);
+      setFunnels(funnelsResult.data || []);
+      setTopicWeakness(weaknessResult.data || []);
+      setFunnelSheetId(current => current || funnelsResult.data?.[0]?.sheet_id || '');
+    } catch (error) {
+      console.error('Error fetching system analytics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load system analytics. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[300px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading analytics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const activityData = (bucket === 'day' ? dailyActivity : weeklyActivity).map(point => ({
+    ...point,
+    label: formatPeriod(point.period_start)
+  }));
+  const latestDaily = dailyActivity[dailyActivity.length - 1];
+  const latestWeekly = weeklyActivity[weeklyActivity.length - 1];
+  const completionsThisMonth = dailyActivity.reduce((sum, point) => sum + point.completions, 0);
+
+  const hardestQuestions = questionStats
+    .filter(q => q.attempted > 0)
+    .map(q => ({ ...q, abandonmentRate: calculateCompletionRate(q.attempted, q.abandoned) }))
+    .sort((a, b) => b.abandonmentRate - a.abandonmentRate || b.abandoned - a.abandoned)
+    .slice(0, ADMIN_ANALYTICS.HARDEST_QUESTIONS_LIMIT);
+
+  const funnelSheets = [...new Map(funnels.map(f => [f.sheet_id, f.sheet_title])).entries()];
+  const funnelData = funnels.filter(f => f.sheet_id === funnelSheetId);
+
+  const heatmapCohorts = [...new Set(topicWeakness.map(t => t.cohort))];
+  const heatmapTopics = [...new Set(topicWeakness.map(t => t.topic))].sort();
+  const getWeakness = (cohort: string, topic: string) =>
+    topicWeakness.find(t => t.cohort === cohort && t.topic === topic);
+
+  return (
+    <div className="space-y-6">
+      {/* Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Daily Active Students</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{latestDaily?.active_students ?? 0}</div>
+            <p className="text-xs text-muted-foreground">Today</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Weekly Active Students</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{latestWeekly?.active_students ?? 0}</div>
+            <p className="text-xs text-muted-foreground">This week</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Completions</CardTitle>
+            <Target className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{completionsThisMonth}</div>
+            <p className="text-xs text-muted-foreground">Last {ADMIN_ANALYTICS.DAILY_PERIODS} days</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Activity */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <TrendingUp className="h-5 w-5 mr-2" />
+              Student Activity
+            </CardTitle>
+            <CardDescription>Active students and questions completed</CardDescription>
+          </div>
+          <Select value={bucket} onValueChange={(value) => setBucket(value as ActivityBucket)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={activityData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip formatter={(value: number) => [value, 'Active Students']} />
+              <Line
+                type="monotone"
+                dataKey="active_students"
+                stroke="#3b82f6"
+                strokeWidth={3}
+                dot={{ fill: '#3b82f6', strokeWidth: 2, r: 3 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={activityData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip formatter={(value: number) => [value, 'Completions']} />
+              <Bar dataKey="completions" fill="#22c55e" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Hardest Questions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              Hardest Questions
+            </CardTitle>
+            <CardDescription>Ranked by the share of students who abandoned them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {hardestQuestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No attempts recorded yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {hardestQuestions.map((q) => (
+                  <div key={q.question_id} className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{q.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {q.abandoned} of {q.attempted} students abandoned
+                      </p>
+                    </div>
+                    <Badge variant="destructive">{q.abandonmentRate}%</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Cohort Funnel */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center">
+                <Filter className="h-5 w-5 mr-2" />
+                Cohort Funnel
+              </CardTitle>
+              <CardDescription>Students who started, reached halfway and finished a sheet</CardDescription>
+            </div>
+            <Select value={funnelSheetId} onValueChange={setFunnelSheetId}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select a sheet" />
+              </SelectTrigger>
+              <SelectContent>
+                {funnelSheets.map(([sheetId, sheetTitle]) => (
+                  <SelectItem key={sheetId} value={sheetId}>
+                    {sheetTitle}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={funnelData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="cohort" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="students" fill="#e2e8f0" name="Students" />
+                <Bar dataKey="started" fill="#3b82f6" name="Started" />
+                <Bar dataKey="halfway" fill="#eab308" name="Halfway" />
+                <Bar dataKey="finished" fill="#22c55e" name="Finished" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Topic Weakness Heatmap */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Grid3X3 className="h-5 w-5 mr-2" />
+            Topic Weakness
+          </CardTitle>
+          <CardDescription>Solve rate of attempted questions by cohort and topic</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {heatmapCohorts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No attempts recorded yet.</p>
+          ) : (
+            <ScrollArea className="w-full">
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th className="p-2 text-left font-medium">Cohort</th>
+                    {heatmapTopics.map((topic) => (
+                      <th key={topic} className="p-2 font-medium whitespace-nowrap">{topic}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {heatmapCohorts.map((cohort) => (
+                    <tr key={cohort}>
+                      <td className="p-2 font-medium whitespace-nowrap">{cohort}</td>
+                      {heatmapTopics.map((topic) => {
+                        const weakness = getWeakness(cohort, topic);
+                        const solveRate = weakness ? calculateCompletionRate(weakness.attempted, weakness.solved) : null;
+
+                        return (
+                          <td key={topic} className="p-1">
+                            <div
+                              className="h-8 min-w-[48px] rounded flex items-center justify-center text-white font-medium"
+                              style={{ backgroundColor: solveRate === null ? 'hsl(var(--muted))' : getHeatmapColor(solveRate) }}
+                              title={weakness ? `${weakness.solved} of ${weakness.attempted} solved` : 'No attempts'}
+                            >
+                              {solveRate === null ? '-' : `${solveRate}%`}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-question Stats */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Question Solve Rates</CardTitle>
+          <CardDescription>Students who attempted each question, its solve rate and median practice time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-[400px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Difficulty</TableHead>
+                  <TableHead className="text-right">Attempted</TableHead>
+                  <TableHead className="text-right">Solve Rate</TableHead>
+                  <TableHead className="text-right">Median Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {questionStats.map((q) => (
+                  <TableRow key={q.question_id}>
+                    <TableCell>
+                      <div className="font-medium">{q.title}</div>
+                      <div className="text-xs text-muted-foreground">{q.topic}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getDifficultyBadgeVariant(q.difficulty)}>{q.difficulty}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{q.attempted}</TableCell>
+                    <TableCell className="text-right">{calculateCompletionRate(q.attempted, q.solved)}%</TableCell>
+                    <TableCell className="text-right">
+                      {q.median_seconds !== null ? formatTime(q.median_seconds) : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
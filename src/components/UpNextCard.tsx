@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Compass } from 'lucide-react';
+import { RecommendationList } from '@/components/RecommendationList';
+import { getRecommendations } from '@/utils/recommendations';
+import { RECOMMENDATIONS } from '@/constants';
+import type { Question, Sheet, UserProgress } from '@/types';
+
+interface UpNextCardProps {
+  sheets: Sheet[];
+  questions: Question[];
+  userProgress: UserProgress[];
+  userId: string;
+}
+
+export function UpNextCard({ sheets, questions, userProgress, userId }: UpNextCardProps) {
+  const recommendations = useMemo(
+    () => getRecommendations(sheets, questions, userProgress, { limit: RECOMMENDATIONS.UP_NEXT_LIMIT }),
+    [sheets, questions, userProgress]
+  );
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <Compass className="h-5 w-5 mr-2" />
+          Up Next
+        </CardTitle>
+        <CardDescription>
+          Revisions due come first, then your weakest topics, easiest unsolved difficulty first, in sheet order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <RecommendationList recommendations={recommendations} userProgress={userProgress} userId={userId} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Search, Eye, Edit, UserX, UserCheck, Flame, ChevronLeft, ChevronRight } from 'lucide-react';
+import { StudentProgressDialog } from '@/components/StudentProgressDialog';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { profileService, progressService, cohortService } from '@/services/supabase';
+import { summarizeUserProgress, formatDateForDisplay } from '@/utils';
+import { getDeviceTimeZone, getStreakSettings } from '@/utils/streaks';
+import { ADMIN_USERS_PAGE_SIZE, PERMISSIONS, ROLE_OPTIONS, USER_ROLES } from '@/constants';
+import type { Profile, Cohort, UserProgressSummary, UserRole } from '@/types';
+
+// Radix Select does not allow an empty string as an item value
+const ALL = 'all';
+const NO_COHORT = 'none';
+
+interface UserManagementProps {
+  totalQuestions: number;
+  currentUserId: string;
+}
+
+export function UserManagement({ totalQuestions, currentUserId }: UserManagementProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManageUsers = can(PERMISSIONS.MANAGE_USERS);
+  const canManageRoles = can(PERMISSIONS.MANAGE_ROLES);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, UserProgressSummary>>({});
+  const [totalCount, setTotalCount] = useState(0);
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState(ALL);
+  const [cohortFilter, setCohortFilter] = useState(ALL);
+  const [page, setPage] = useState(1);
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
+  const [editForm, setEditForm] = useState({ role: USER_ROLES.STUDENT as UserRole, cohort_id: NO_COHORT });
+  const [viewingProfile, setViewingProfile] = useState<Profile | null>(null);
+
+  const fetchCohorts = useCallback(async () => {
+    const result = await cohortService.getAllCohorts();
+    if (result.error) {
+      console.error('Error fetching cohorts:', result.error);
+      return;
+    }
+    setCohorts(result.data || []);
+  }, []);
+
+  const fetchProfiles = useCallback(async () => {
+    setLoading(true);
+    try {
+      const profilesResult = await profileService.getProfiles({
+        search: search.trim() || undefined,
+        role: roleFilter === ALL ? undefined : roleFilter as UserRole,
+        cohortId: cohortFilter === ALL ? undefined : cohortFilter,
+        page,
+        pageSize: ADMIN_USERS_PAGE_SIZE
+      });
+      if (profilesResult.error) throw profilesResult.error;
+
+      const pageProfiles = profilesResult.data || [];
+      const nextSummaries: Record<string, UserProgressSummary> = {};
+
+      if (pageProfiles.length > 0) {
+        const summaryResult = await progressService.getProgressSummaries(pageProfiles.map(p => p.user_id), getDeviceTimeZone());
+        if (summaryResult.error) throw summaryResult.error;
+
+        const rows = new Map((summaryResult.data || []).map(row => [row.user_id, row]));
+        pageProfiles.forEach(p => {
+          nextSummaries[p.user_id] = summarizeUserProgress(rows.get(p.user_id), totalQuestions, getStreakSettings(p));
+        });
+      }
+
+      setProfiles(pageProfiles);
+      setSummaries(nextSummaries);
+      setTotalCount(profilesResult.count || 0);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch users. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [search, roleFilter, cohortFilter, page, totalQuestions, toast]);
+
+  useEffect(() => {
+    fetchCohorts();
+  }, [fetchCohorts]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  // Any filter change starts again from the first page
+  const changeFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const updateUser = async (profile: Profile, updates: Partial<Profile>, message: string) => {
+    try {
+      const result = await profileService.updateProfile(profile.user_id, updates);
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: message,
+      });
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update user. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openEditDialog = (profile: Profile) => {
+    setEditingProfile(profile);
+    setEditForm({ role: profile.role, cohort_id: profile.cohort_id || NO_COHORT });
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingProfile) return;
+
+    const updates: Partial<Profile> = {
+      cohort_id: editForm.cohort_id === NO_COHORT ? null : editForm.cohort_id
+    };
+    if (canManageRoles) {
+      updates.role = editForm.role;
+    }
+
+    await updateUser(editingProfile, updates, `${editingProfile.name} has been updated.`);
+    setEditingProfile(null);
+  };
+
+  const toggleActive = async (profile: Profile) => {
+    const isActive = profile.is_active !== false;
+    if (isActive && !confirm(`Deactivate ${profile.name}? They will be signed out and unable to use the tracker.`)) {
+      return;
+    }
+
+    await updateUser(
+      profile,
+      { is_active: !isActive },
+      `${profile.name} has been ${isActive ? 'deactivated' : 'reactivated'}.`
+    );
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / ADMIN_USERS_PAGE_SIZE));
+  const cohortNames = new Map(cohorts.map(c => [c.id, c.name]));
+  const roleLabels = new Map<string, string>(ROLE_OPTIONS.map(option => [option.value, option.label]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>User Management</CardTitle>
+        <CardDescription>Manage user accounts and permissions</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or email..."
+              value={search}
+              onChange={(e) => changeFilter(setSearch)(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={roleFilter} onValueChange={changeFilter(setRoleFilter)}>
+            <SelectTrigger className="md:w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Roles</SelectItem>
+              {ROLE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={cohortFilter} onValueChange={changeFilter(setCohortFilter)}>
+            <SelectTrigger className="md:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Cohorts</SelectItem>
+              {cohorts.map((cohort) => (
+                <SelectItem key={cohort.id} value={cohort.id}>
+                  {cohort.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Cohort</TableHead>
+              <TableHead>Progress</TableHead>
+              <TableHead>Last Active</TableHead>
+              <TableHead>Streak</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  Loading users...
+                </TableCell>
+              </TableRow>
+            ) : profiles.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No users match these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              profiles.map((profile) => {
+                const summary = summaries[profile.user_id];
+                const isActive = profile.is_active !== false;
+                const isSelf = profile.user_id === currentUserId;
+
+                return (
+                  <TableRow key={profile.id} className={isActive ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <div className="font-medium">{profile.name}</div>
+                      <div className="text-xs text-muted-foreground">{profile.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={profile.role === USER_ROLES.STUDENT ? 'secondary' : 'default'}>
+                          {roleLabels.get(profile.role) ?? profile.role}
+                        </Badge>
+                        {!isActive && <Badge variant="destructive">Inactive</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{cohortNames.get(profile.cohort_id) || '-'}</TableCell>
+                    <TableCell>
+                      {summary ? `${summary.completed} / ${summary.total}` : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {summary?.lastActiveAt ? formatDateForDisplay(summary.lastActiveAt) : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-1">
+                        <Flame className="h-3 w-3 text-orange-500" />
+                        <span>{summary?.streak ?? 0}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-1">
+                        <Button size="sm" variant="outline" onClick={() => setViewingProfile(profile)} title="View progress">
+                          <Eye className="h-3 w-3" />
+                        </Button>
+                        {canManageUsers && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => openEditDialog(profile)} title="Edit role and cohort">
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => toggleActive(profile)}
+                              disabled={isSelf}
+                              title={isActive ? 'Deactivate' : 'Reactivate'}
+                            >
+                              {isActive ? <UserX className="h-3 w-3" /> : <UserCheck className="h-3 w-3" />}
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{totalCount} users</span>
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>Page {page} of {totalPages}</span>
+            <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={editingProfile !== null} onOpenChange={(open) => !open && setEditingProfile(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit User</DialogTitle>
+            <DialogDescription>{editingProfile?.email}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleEditSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="userRole">Role</Label>
+              <Select
+                value={editForm.role}
+                onValueChange={(value) => setEditForm({ ...editForm, role: value as UserRole })}
+                disabled={!canManageRoles || editingProfile?.user_id === currentUserId}
+              >
+                <SelectTrigger id="userRole">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="userCohort">Cohort</Label>
+              <Select
+                value={editForm.cohort_id}
+                onValueChange={(value) => setEditForm({ ...editForm, cohort_id: value })}
+              >
+                <SelectTrigger id="userCohort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COHORT}>No cohort</SelectItem>
+                  {cohorts.map((cohort) => (
+                    <SelectItem key={cohort.id} value={cohort.id}>
+                      {cohort.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setEditingProfile(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <StudentProgressDialog
+        profile={viewingProfile}
+        cohortName={cohortNames.get(viewingProfile?.cohort_id)}
+        onOpenChange={(open) => !open && setViewingProfile(null)}
+      />
+    </Card>
+  );
+}
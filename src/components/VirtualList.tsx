@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VIRTUAL_LIST } from '@/constants';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  gap?: number;
+  className?: string;
+}
+
+// Windowed rendering against the page scroll. Short lists render normally; longer ones
+// only mount the rows near the viewport and measure each row once it has rendered.
+export function VirtualList<T>({ items, getKey, renderItem, gap = 8, className }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const rowsRef = useRef(new Map<string, HTMLDivElement>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+  const virtualize = items.length > VIRTUAL_LIST.THRESHOLD;
+
+  // Track which part of the list is on screen, relative to the list's own top
+  useEffect(() => {
+    if (!virtualize) return;
+
+    const updateViewport = () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setViewport({ top: -rect.top, bottom: window.innerHeight - rect.top });
+    };
+
+    updateViewport();
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [virtualize]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const attachRow = useCallback((key: string, node: HTMLDivElement | null) => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const target = entry.target as HTMLDivElement;
+          const height = target.getBoundingClientRect().height;
+          // Rows report zero once unmounted; keep their last real height
+          if (!target.isConnected || height === 0) return;
+          if (heightsRef.current.get(target.dataset.key) !== height) {
+            heightsRef.current.set(target.dataset.key, height);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(version => version + 1);
+      });
+    }
+
+    const previous = rowsRef.current.get(key);
+    if (previous && previous !== node) {
+      observerRef.current.unobserve(previous);
+      rowsRef.current.delete(key);
+    }
+    if (node && previous !== node) {
+      rowsRef.current.set(key, node);
+      observerRef.current.observe(node);
+    }
+  }, []);
+
+  // One ref callback per row, so re-renders do not detach and re-observe every row
+  const rowRefsRef = useRef(new Map<string, (node: HTMLDivElement | null) => void>());
+  const getRowRef = (key: string) => {
+    let rowRef = rowRefsRef.current.get(key);
+    if (!rowRef) {
+      rowRef = node => {
+        attachRow(key, node);
+        if (!node) rowRefsRef.current.delete(key);
+      };
+      rowRefsRef.current.set(key, rowRef);
+    }
+    return rowRef;
+  };
+
+  if (!virtualize) {
+    return (
+      <div className={className}>
+        {items.map(item => (
+          <div key={getKey(item)} style={{ paddingBottom: gap }}>
+            {renderItem(item)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const visible: T[] = [];
+  let offset = 0;
+  let paddingTop = 0;
+  let visibleEnd = 0;
+  items.forEach(item => {
+    const height = heightsRef.current.get(getKey(item)) ?? VIRTUAL_LIST.ESTIMATED_ROW_HEIGHT;
+    const isNearViewport =
+      offset + height >= viewport.top - VIRTUAL_LIST.OVERSCAN_PX &&
+      offset <= viewport.bottom + VIRTUAL_LIST.OVERSCAN_PX;
+    if (isNearViewport) {
+      if (visible.length === 0) paddingTop = offset;
+      visible.push(item);
+      visibleEnd = offset + height;
+    }
+    offset += height;
+  });
+
+  return (
+    <div ref={containerRef} className={className} style={{ paddingTop, paddingBottom: offset - visibleEnd }}>
+      {visible.map(item => {
+        const key = getKey(item);
+        return (
+          <div key={key} data-key={key} ref={getRowRef(key)} style={{ paddingBottom: gap }}>
+            {renderItem(item)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 // Application constants and configuration
+import type { AchievementDefinition } from '@/types';
 
 export const DIFFICULTY_LEVELS = ['Easy', 'Medium', 'Hard'] as const;
 
@@ -38,14 +39,39 @@ export const FILTER_OPTIONS = {
 
 export const USER_ROLES = {
   ADMIN: 'admin',
-  STUDENT: 'student'
+  STUDENT: 'student',
+  MENTOR: 'mentor',
+  TEACHING_ASSISTANT: 'teaching_assistant',
+  CONTENT_EDITOR: 'content_editor'
 } as const;
 
-export const ADMIN_EMAILS = [
-  'gopikrishnackofficial@gmail.com',
-  'praveenchintuyt@gmail.com'
+export const ROLE_OPTIONS = [
+  { label: 'Student', value: 'student' },
+  { label: 'Admin', value: 'admin' },
+  { label: 'Mentor', value: 'mentor' },
+  { label: 'Teaching Assistant', value: 'teaching_assistant' },
+  { label: 'Content Editor', value: 'content_editor' }
 ] as const;
 
+// Permissions are granted to roles in the role_permissions table
+export const PERMISSIONS = {
+  MANAGE_CONTENT: 'manage_content',
+  MANAGE_USERS: 'manage_users',
+  MANAGE_ROLES: 'manage_roles',
+  MANAGE_COHORTS: 'manage_cohorts',
+  VIEW_STUDENT_PROGRESS: 'view_student_progress',
+  VIEW_ANALYTICS: 'view_analytics'
+} as const;
+
+export const PERMISSION_LABELS = {
+  manage_content: 'Manage sheets and questions',
+  manage_users: 'Manage users and enrollment',
+  manage_roles: 'Grant and revoke roles',
+  manage_cohorts: 'Manage cohorts and assignments',
+  view_student_progress: 'View student progress',
+  view_analytics: 'View platform analytics'
+} as const;
+
 // Real-time subscription channel names
 export const CHANNELS = {
   QUESTIONS: 'questions-changes',
@@ -59,4 +85,188 @@ export const CHANNELS = {
 export const TIME_FORMATS = {
   SECONDS_IN_MINUTE: 60,
   SECONDS_IN_HOUR: 3600
+} as const;
+
+// Spaced repetition (SM-2) configuration
+export const SPACED_REPETITION = {
+  DEFAULT_EASE_FACTOR: 2.5,
+  MIN_EASE_FACTOR: 1.3,
+  FIRST_INTERVAL_DAYS: 1,
+  SECOND_INTERVAL_DAYS: 6
+} as const;
+
+export const RECALL_GRADES = [
+  { label: 'Again', value: 'again', quality: 1 },
+  { label: 'Hard', value: 'hard', quality: 3 },
+  { label: 'Good', value: 'good', quality: 4 },
+  { label: 'Easy', value: 'easy', quality: 5 }
+] as const;
+
+// Bulk question import: form fields and the column names that map to them
+export const IMPORT_FIELDS = [
+  { field: 'title', label: 'Title', required: true, aliases: ['name', 'question', 'problem'] },
+  { field: 'topic', label: 'Topic', required: true, aliases: ['category'] },
+  { field: 'difficulty', label: 'Difficulty', required: true, aliases: ['level'] },
+  { field: 'tags', label: 'Tags', required: false, aliases: ['tag', 'labels'] },
+  { field: 'solve_url', label: 'Solve URL', required: false, aliases: ['url', 'link', 'problem url'] },
+  { field: 'order_index', label: 'Order Index', required: false, aliases: ['order', 'index', 'position'] }
+] as const;
+
+// Sheet package export format; bump the version when the shape changes
+export const SHEET_PACKAGE_FORMAT = 'mentiby-sheet';
+export const SHEET_PACKAGE_VERSION = 2;
+
+export const SESSION_OUTCOMES = [
+  { label: 'Solved', value: 'solved' },
+  { label: 'Attempted', value: 'attempted' },
+  { label: 'Gave up', value: 'gave_up' }
+] as const;
+
+// Practice timer persistence and idle detection
+export const PRACTICE_TIMER = {
+  STORAGE_KEY: 'mentiby-practice-timer',
+  IDLE_TIMEOUT_MS: 10 * 60 * 1000,
+  IDLE_CHECK_INTERVAL_MS: 30 * 1000
+} as const;
+
+
+export const ADMIN_USERS_PAGE_SIZE = 20;
+export const ROLE_AUDIT_LOG_LIMIT = 50;
+
+// Admin system analytics windows
+export const ADMIN_ANALYTICS = {
+  DAILY_PERIODS: 30,
+  WEEKLY_PERIODS: 12,
+  HARDEST_QUESTIONS_LIMIT: 10
+} as const;
+
+// Query parameter carrying the page to return to after signing in
+export const AUTH_REDIRECT_PARAM = 'redirect';
+
+// How long cached sheets, questions and progress are reused before refetching
+export const QUERY_STALE_TIME_MS = 5 * 60 * 1000;
+
+export const ADMIN_QUESTIONS_PAGE_SIZE = 25;
+
+// Long question lists only mount the rows near the viewport
+export const VIRTUAL_LIST = {
+  THRESHOLD: 40,
+  ESTIMATED_ROW_HEIGHT: 88,
+  OVERSCAN_PX: 600
+} as const;
+
+// Session storage keys that let the dashboard reopen where the student left it
+export const DASHBOARD_VIEW_STATE = {
+  OPEN_TOPICS_KEY: 'dashboard-open-topics',
+  SCROLL_KEY: 'dashboard-scroll'
+} as const;
+
+// Day boundaries used until a student picks their own
+export const STREAK_DEFAULTS = {
+  TIME_ZONE: 'UTC',
+  ROLLOVER_HOUR: 0,
+  MAX_ROLLOVER_HOUR: 6
+} as const;
+
+// Streak freezes are earned per run of active days and banked up to a limit
+export const STREAK_FREEZE = {
+  DAYS_PER_FREEZE: 7,
+  MAX_BANKED: 2
+} as const;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export const ACTIVITY_HEATMAP = {
+  WEEKS: 53,
+  TOOLTIP_QUESTION_LIMIT: 5
+} as const;
+
+export const GOAL_KIND_LABELS = {
+  daily_questions: 'Questions per day',
+  weekly_minutes: 'Minutes practiced per week',
+  topic_questions: 'Questions in a topic',
+  sheet_completion: 'Finish a sheet'
+} as const;
+
+export const GOALS = {
+  // Days of recent activity used to project when a goal will be reached
+  PACE_WINDOW_DAYS: 14,
+  // How far back closed periods are filled in when a goal's history is first recorded
+  BACKFILL_DAYS: 28,
+  HISTORY_LIMIT: 20
+} as const;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_hard',
+    title: 'Into the Deep End',
+    description: 'Solve your first Hard question',
+    criterion: { type: 'solved_difficulty', difficulty: 'Hard', count: 1 }
+  },
+  {
+    id: 'streak_30',
+    title: 'Unstoppable',
+    description: 'Reach a 30-day streak',
+    criterion: { type: 'streak_days', days: 30 }
+  },
+  {
+    id: 'topic_completed',
+    title: 'Topic Master',
+    description: 'Complete every question in a topic',
+    criterion: { type: 'topics_completed', count: 1 }
+  },
+  {
+    id: 'sheet_completed',
+    title: 'Sheet Finisher',
+    description: 'Complete every question in a sheet',
+    criterion: { type: 'sheets_completed', count: 1 }
+  },
+  {
+    id: 'ten_in_a_day',
+    title: 'On a Roll',
+    description: 'Solve 10 questions in a single day',
+    criterion: { type: 'solved_in_a_day', count: 10 }
+  },
+  {
+    id: 'revision_cleared',
+    title: 'Clean Slate',
+    description: 'Clear your revision queue',
+    criterion: { type: 'revision_queue_cleared' }
+  }
+];
+
+export const CUSTOM_LISTS = {
+  // Matches shown while searching for questions to add to a list
+  SEARCH_RESULT_LIMIT: 8
+} as const;
+
+export const MOCK_INTERVIEW = {
+  STORAGE_KEY: 'mentiby-mock-interview',
+  DEFAULT_MIX: { Easy: 1, Medium: 2, Hard: 0 },
+  MAX_PER_DIFFICULTY: 5,
+  // Used to suggest a time limit for the chosen mix
+  MINUTES_PER_QUESTION: { Easy: 15, Medium: 25, Hard: 40 },
+  // How much each self-assessment counts towards the score
+  ASSESSMENT_WEIGHTS: { solved: 1, attempted: 0.5, gave_up: 0 },
+  HISTORY_LIMIT: 10
+} as const;
+
+export const MOCK_ASSESSMENTS = [
+  { label: 'Solved', value: 'solved' },
+  { label: 'Partly solved', value: 'attempted' },
+  { label: "Couldn't solve", value: 'gave_up' }
+] as const;
+
+export const RECOMMENDATIONS = {
+  UP_NEXT_LIMIT: 5,
+  NEXT_DIALOG_LIMIT: 3,
+  // Topics below this completion are called out as weak
+  WEAK_TOPIC_PERCENTAGE: 50
+} as const;
+
+export const STUDY_PLAN = {
+  // Used for a difficulty until the student has solved something at it with the timer
+  DEFAULT_MINUTES: { Easy: 15, Medium: 30, Hard: 50 },
+  DEFAULT_HOURS_PER_DAY: 1,
+  MAX_HOURS_PER_DAY: 12
 } as const;
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 import { useAuth } from '@/hooks/use-auth';
+import { useSheets, useQuestions, useUserProgress, useStreakSettings, useStreakData, useProgressCacheUpdater, useRealtimeQuestions, useRealtimeProgress } from '@/hooks/use-tracker-queries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -11,95 +12,28 @@ import { ProgressStats } from '@/components/ProgressStats';
 import { SearchAndFilter } from '@/components/SearchAndFilter';
 import { ProgressCharts } from '@/components/ProgressCharts';
 import { AdvancedFeatures } from '@/components/AdvancedFeatures';
-import { sheetService, questionService, progressService, realtimeService } from '@/services/supabase';
-import { calculateTopicProgress, getUniqueTopics } from '@/utils';
-import type { Sheet, Question, UserProgress } from '@/types';
+import { calculateTopicProgress, getUniqueTopics, getProgressIndex } from '@/utils';
+import type { Question } from '@/types';
 
 const DashboardView = () => {
   const { user } = useAuth();
-  const [sheets, setSheets] = useState<Sheet[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
+  const sheetsQuery = useSheets();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const handleProgressUpdate = useProgressCacheUpdater(user?.id);
+  const streakSettings = useStreakSettings(user?.id);
   const [filteredQuestions, setFilteredQuestions] = useState<Question[]>([]);
-  const [loading, setLoading] = useState(true);
 
-  const fetchData = useCallback(async () => {
-    if (!user) return;
-
-    setLoading(true);
-    try {
-      const [sheetsResult, questionsResult, progressResult] = await Promise.all([
-        sheetService.getAllSheets(),
-        questionService.getAllQuestions(),
-        progressService.getUserProgress(user.id)
-      ]);
-
-      if (sheetsResult.error) throw sheetsResult.error;
-      if (questionsResult.error) throw questionsResult.error;
-      if (progressResult.error) throw progressResult.error;
-
-      setSheets(sheetsResult.data || []);
-      setQuestions(questionsResult.data || []);
-      setUserProgress(progressResult.data || []);
-      setFilteredQuestions(questionsResult.data || []);
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
-  useEffect(() => {
-    if (user) {
-      fetchData();
-    }
-  }, [user, fetchData]);
+  const sheets = sheetsQuery.data ?? [];
+  const questions = questionsQuery.data ?? [];
+  const userProgress = progressQuery.data ?? [];
+  const streakData = useStreakData(user?.id, userProgress);
+  const progressIndex = getProgressIndex(userProgress);
+  const loading = sheetsQuery.isLoading || questionsQuery.isLoading || progressQuery.isLoading;
 
   // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
-
-    console.log('Setting up real-time subscriptions for dashboard');
-
-    const questionsSubscription = realtimeService.subscribeToQuestions((payload) => {
-      console.log('Questions changed in dashboard:', payload);
-      fetchData();
-    });
-
-    const progressSubscription = realtimeService.subscribeToUserProgress((payload) => {
-      console.log('User progress changed in dashboard:', payload);
-      fetchData();
-    });
-
-    return () => {
-      console.log('Cleaning up dashboard subscriptions');
-      realtimeService.unsubscribe(questionsSubscription);
-      realtimeService.unsubscribe(progressSubscription);
-    };
-  }, [user, fetchData]);
-
-  const handleProgressUpdate = useCallback(async (questionId: string, updates: Partial<UserProgress>) => {
-    if (!user) return;
-
-    try {
-      const result = await progressService.updateProgress(user.id, questionId, updates);
-      if (result.error) throw result.error;
-
-      // Update local state
-      setUserProgress(prev => {
-        const existingIndex = prev.findIndex(p => p.question_id === questionId);
-        if (existingIndex >= 0) {
-          const updated = [...prev];
-          updated[existingIndex] = { ...updated[existingIndex], ...updates };
-          return updated;
-        } else {
-          return [...prev, result.data];
-        }
-      });
-    } catch (error) {
-      console.error('Error updating progress:', error);
-    }
-  }, [user]);
+  useRealtimeQuestions();
+  useRealtimeProgress(user?.id);
 
   if (loading) {
     return (
@@ -149,21 +83,21 @@ const DashboardView = () => {
       </div>
 
       {/* Progress Statistics */}
-      <ProgressStats questions={questions} userProgress={userProgress} />
+      <ProgressStats questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
 
       {/* Search and Filter */}
       <SearchAndFilter
         questions={questions}
         userProgress={userProgress}
-        onFilteredQuestionsChange={(filteredQuestions: Question[]) => setFilteredQuestions(filteredQuestions)}
+        onFilteredQuestionsChange={setFilteredQuestions}
         onSortChange={() => {}} // Will be handled by SearchAndFilter component
       />
 
       {/* Advanced Features */}
-      <AdvancedFeatures userProgress={userProgress} questions={questions} />
+      <AdvancedFeatures userProgress={userProgress} questions={questions} streakSettings={streakSettings} streakData={streakData} showStreakSettings />
 
       {/* Progress Charts */}
-      <ProgressCharts questions={questions} userProgress={userProgress} />
+      <ProgressCharts questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
 
       {/* Sheets and Questions */}
       <div className="space-y-6">
@@ -231,7 +165,7 @@ const DashboardView = () => {
                           <CollapsibleContent className="px-4 pb-4">
                             <div className="grid gap-3 pt-4">
                               {topicQuestions.map((question) => {
-                                const progress = userProgress.find(p => p.question_id === question.id);
+                                const progress = progressIndex.get(question.id);
                                 return (
                                   <QuestionItem
                                     key={question.id}
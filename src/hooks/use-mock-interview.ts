@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { finishMockInterview, startMockInterview, switchMockQuestion } from '@/utils/mockInterview';
+import { MOCK_INTERVIEW } from '@/constants';
+import type { MockInterviewConfig, MockInterviewState, SessionOutcome } from '@/types';
+
+const loadMock = (): MockInterviewState | null => {
+  try {
+    const stored = localStorage.getItem(MOCK_INTERVIEW.STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveMock = (mock: MockInterviewState | null) => {
+  if (mock) {
+    localStorage.setItem(MOCK_INTERVIEW.STORAGE_KEY, JSON.stringify(mock));
+  } else {
+    localStorage.removeItem(MOCK_INTERVIEW.STORAGE_KEY);
+  }
+};
+
+// The mock in progress, kept in local storage until it is recorded or discarded
+export function useMockInterview(userId: string | undefined) {
+  const [mock, setMock] = useState<MockInterviewState | null>(loadMock);
+  const [now, setNow] = useState(Date.now);
+
+  const updateMock = useCallback((next: MockInterviewState | null) => {
+    saveMock(next);
+    setMock(next);
+  }, []);
+
+  // Drop mocks left behind by another account
+  useEffect(() => {
+    if (mock && userId && mock.userId !== userId) {
+      updateMock(null);
+    }
+  }, [mock, userId, updateMock]);
+
+  // Tick the countdown while running and stop the mock once time is up
+  useEffect(() => {
+    if (!mock || mock.endedAt !== null) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= mock.deadline) {
+        updateMock(finishMockInterview(mock, current));
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [mock, updateMock]);
+
+  const start = useCallback((config: MockInterviewConfig, questionIds: string[]) => {
+    if (!userId) return;
+    updateMock(startMockInterview(userId, config, questionIds));
+  }, [userId, updateMock]);
+
+  const goTo = useCallback((index: number) => {
+    if (mock) updateMock(switchMockQuestion(mock, index));
+  }, [mock, updateMock]);
+
+  const finish = useCallback(() => {
+    if (mock) updateMock(finishMockInterview(mock));
+  }, [mock, updateMock]);
+
+  const assess = useCallback((index: number, outcome: SessionOutcome) => {
+    if (mock) updateMock({ ...mock, assessments: mock.assessments.map((a, i) => i === index ? outcome : a) });
+  }, [mock, updateMock]);
+
+  const discard = useCallback(() => updateMock(null), [updateMock]);
+
+  return { mock, now, start, goTo, finish, assess, discard };
+}
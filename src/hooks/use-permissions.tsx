@@ -0,0 +1,100 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { profileService, roleService } from '@/services/supabase';
+import { USER_ROLES } from '@/constants';
+import type { Permission, UserRole } from '@/types';
+
+interface PermissionsContextType {
+  role: UserRole;
+  permissions: Permission[];
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  canAny: (permissions: readonly Permission[]) => boolean;
+  refresh: () => Promise<void>;
+}
+
+const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export function PermissionsProvider({ children }: { children: React.ReactNode }) {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+  const [role, setRole] = useState<UserRole>(USER_ROLES.STUDENT);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setRole(USER_ROLES.STUDENT);
+      setPermissions([]);
+      setLoadedUserId(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [profileResult, permissionsResult] = await Promise.all([
+        profileService.getUserProfile(user.id),
+        roleService.getCurrentUserPermissions()
+      ]);
+
+      if (profileResult.data?.is_active === false) {
+        toast({
+          title: "Account deactivated",
+          description: "Your account has been deactivated. Please contact an administrator.",
+          variant: "destructive",
+        });
+        await signOut();
+        return;
+      }
+
+      if (permissionsResult.error) throw permissionsResult.error;
+
+      setRole(profileResult.data?.role ?? USER_ROLES.STUDENT);
+      setPermissions(permissionsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching permissions:', error);
+      setPermissions([]);
+    } finally {
+      setLoadedUserId(user.id);
+      setLoading(false);
+    }
+  }, [user, signOut, toast]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  const canAny = useCallback(
+    (required: readonly Permission[]) => required.some(permission => permissions.includes(permission)),
+    [permissions]
+  );
+
+  const value = {
+    role,
+    permissions,
+    // A freshly signed-in user has not been loaded yet, even before the effect runs
+    loading: loading || (user !== null && loadedUserId !== user.id),
+    can,
+    canAny,
+    refresh
+  };
+
+  return (
+    <PermissionsContext.Provider value={value}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,283 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { queryKeys } from '@/hooks/use-tracker-queries';
+import { useToast } from '@/hooks/use-toast';
+import { sessionService } from '@/services/supabase';
+import { PRACTICE_TIMER } from '@/constants';
+import type { PracticeTimerState, SessionOutcome } from '@/types';
+
+interface PracticeTimerContextType {
+  timer: PracticeTimerState | null;
+  isRunning: boolean;
+  getElapsedSeconds: () => number;
+  start: (questionId: string, questionTitle: string) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  stop: (outcome?: SessionOutcome) => Promise<number | null>;
+}
+
+const PracticeTimerContext = createContext<PracticeTimerContextType | undefined>(undefined);
+
+const loadTimer = (): PracticeTimerState | null => {
+  try {
+    const stored = localStorage.getItem(PRACTICE_TIMER.STORAGE_KEY);
+    if (!stored) return null;
+    // Timers saved before sessions had ids get one, so every later save updates the same row
+    const timer: PracticeTimerState = JSON.parse(stored);
+    if (!timer.sessionId) {
+      timer.sessionId = crypto.randomUUID();
+      localStorage.setItem(PRACTICE_TIMER.STORAGE_KEY, JSON.stringify(timer));
+    }
+    return timer;
+  } catch {
+    return null;
+  }
+};
+
+const saveTimer = (timer: PracticeTimerState | null) => {
+  if (timer) {
+    localStorage.setItem(PRACTICE_TIMER.STORAGE_KEY, JSON.stringify(timer));
+  } else {
+    localStorage.removeItem(PRACTICE_TIMER.STORAGE_KEY);
+  }
+};
+
+// Elapsed time is derived from wall-clock timestamps so reloads and background tabs lose nothing
+const getElapsedMs = (timer: PracticeTimerState, now: number = Date.now()): number => {
+  return timer.accumulatedMs + (timer.runningSince !== null ? now - timer.runningSince : 0);
+};
+
+// Whether two copies of the timer differ only in when the student was last active
+const isSameSegment = (a: PracticeTimerState, b: PracticeTimerState): boolean =>
+  a.sessionId === b.sessionId &&
+  a.questionId === b.questionId &&
+  a.sessionStartedAt === b.sessionStartedAt &&
+  a.accumulatedMs === b.accumulatedMs &&
+  a.runningSince === b.runningSince;
+
+// Freezes a running timer at the given moment
+const pauseAt = (timer: PracticeTimerState, at: number): PracticeTimerState => {
+  if (timer.runningSince === null) return timer;
+  return {
+    ...timer,
+    accumulatedMs: timer.accumulatedMs + Math.max(0, at - timer.runningSince),
+    runningSince: null
+  };
+};
+
+// Saves the session so far and returns the question's new total (seconds). The server only
+// adds seconds it has not seen for this session, so saving again later never double counts.
+const flushSession = async (
+  timer: PracticeTimerState,
+  elapsedMs: number,
+  outcome: SessionOutcome
+): Promise<number | null> => {
+  const duration = Math.floor(elapsedMs / 1000);
+  if (duration <= 0) return null;
+
+  const { data, error } = await sessionService.recordSession(
+    timer.sessionId,
+    timer.questionId,
+    timer.sessionStartedAt,
+    duration,
+    outcome
+  );
+  if (error) {
+    console.error('Error saving practice session:', error);
+    return null;
+  }
+
+  return data;
+};
+
+export function PracticeTimerProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [timer, setTimer] = useState<PracticeTimerState | null>(loadTimer);
+  const timerRef = useRef(timer);
+  const lastActivityRef = useRef(Date.now());
+
+  const updateTimer = useCallback((next: PracticeTimerState | null) => {
+    timerRef.current = next;
+    saveTimer(next);
+    setTimer(next);
+  }, []);
+
+  // Activity timestamps change every check, so they are stored without re-rendering consumers
+  const touchTimer = useCallback((lastActivityAt: number) => {
+    const current = timerRef.current;
+    if (!current || lastActivityAt <= current.lastActivityAt) return;
+    timerRef.current = { ...current, lastActivityAt };
+    saveTimer(timerRef.current);
+  }, []);
+
+  // Drop timers left behind by another account; pause ones abandoned while the app was closed.
+  // Time is saved whenever the page is hidden and on sign-out, so a foreign timer only holds
+  // what its owner's last save missed, and it cannot be written under this account.
+  useEffect(() => {
+    const current = timerRef.current;
+    if (!current || !user) return;
+
+    if (current.userId !== user.id) {
+      updateTimer(null);
+    } else if (current.runningSince !== null && Date.now() - current.lastActivityAt > PRACTICE_TIMER.IDLE_TIMEOUT_MS) {
+      updateTimer(pauseAt(current, current.lastActivityAt));
+    }
+  }, [user, updateTimer]);
+
+  // Idle detection: pause at the last interaction once the student has been away too long
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const events = ['mousemove', 'keydown', 'scroll', 'touchstart'];
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const interval = setInterval(() => {
+      const current = timerRef.current;
+      if (!current || current.runningSince === null) return;
+
+      // Activity in another tab counts too; it arrives through lastActivityAt
+      const lastActivity = Math.max(lastActivityRef.current, current.lastActivityAt, current.runningSince);
+      if (Date.now() - lastActivity > PRACTICE_TIMER.IDLE_TIMEOUT_MS) {
+        updateTimer(pauseAt(current, lastActivity));
+        toast({
+          title: "Timer paused",
+          description: `No activity detected while practicing "${current.questionTitle}".`,
+        });
+      } else {
+        touchTimer(lastActivity);
+      }
+    }, PRACTICE_TIMER.IDLE_CHECK_INTERVAL_MS);
+
+    // Save the time so far whenever the page is hidden or closed, in case the student never
+    // comes back; the timer keeps running and later saves only add the seconds since
+    const handleHide = () => {
+      touchTimer(lastActivityRef.current);
+      const current = timerRef.current;
+      if (current) flushSession(current, getElapsedMs(current), 'attempted');
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') handleHide();
+    };
+    window.addEventListener('pagehide', handleHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActive));
+      window.removeEventListener('pagehide', handleHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [updateTimer, touchTimer, toast]);
+
+  // Every tab shares the stored timer, so a stop or start in one is seen by the others
+  // and saves from any tab go to the same session
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== PRACTICE_TIMER.STORAGE_KEY) return;
+
+      const current = timerRef.current;
+      const next = loadTimer();
+      timerRef.current = next;
+      if (current && next && isSameSegment(current, next)) return;
+      setTimer(next);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const stop = useCallback(async (outcome: SessionOutcome = 'attempted') => {
+    const current = timerRef.current;
+    if (!current) return null;
+
+    updateTimer(null);
+    const totalTimeSpent = await flushSession(current, getElapsedMs(current), outcome);
+    queryClient.invalidateQueries({ queryKey: queryKeys.sessions(current.userId) });
+    return totalTimeSpent;
+  }, [updateTimer, queryClient]);
+
+  const start = useCallback(async (questionId: string, questionTitle: string) => {
+    if (!user) return;
+
+    // Only one question can be practiced at a time
+    if (timerRef.current && timerRef.current.questionId !== questionId) {
+      await stop();
+    }
+
+    const now = Date.now();
+    lastActivityRef.current = now;
+    updateTimer({
+      userId: user.id,
+      sessionId: crypto.randomUUID(),
+      questionId,
+      questionTitle,
+      sessionStartedAt: new Date(now).toISOString(),
+      accumulatedMs: 0,
+      runningSince: now,
+      lastActivityAt: now
+    });
+  }, [user, stop, updateTimer]);
+
+  const pause = useCallback(() => {
+    if (timerRef.current) {
+      updateTimer(pauseAt(timerRef.current, Date.now()));
+    }
+  }, [updateTimer]);
+
+  const resume = useCallback(() => {
+    const current = timerRef.current;
+    if (current && current.runningSince === null) {
+      const now = Date.now();
+      lastActivityRef.current = now;
+      updateTimer({ ...current, runningSince: now, lastActivityAt: now });
+    }
+  }, [updateTimer]);
+
+  const getElapsedSeconds = useCallback(() => {
+    return timerRef.current ? Math.floor(getElapsedMs(timerRef.current) / 1000) : 0;
+  }, []);
+
+  const value = {
+    timer,
+    isRunning: timer?.runningSince !== null && timer !== null,
+    getElapsedSeconds,
+    start,
+    pause,
+    resume,
+    stop
+  };
+
+  return (
+    <PracticeTimerContext.Provider value={value}>
+      {children}
+    </PracticeTimerContext.Provider>
+  );
+}
+
+export function usePracticeTimer() {
+  const context = useContext(PracticeTimerContext);
+  if (context === undefined) {
+    throw new Error('usePracticeTimer must be used within a PracticeTimerProvider');
+  }
+  return context;
+}
+
+// Re-renders the caller every second while it shows a running timer
+export function useElapsedSeconds(active: boolean) {
+  const { getElapsedSeconds, isRunning } = usePracticeTimer();
+  const [elapsed, setElapsed] = useState(getElapsedSeconds);
+
+  useEffect(() => {
+    setElapsed(getElapsedSeconds());
+    if (!active || !isRunning) return;
+
+    const interval = setInterval(() => setElapsed(getElapsedSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, [active, isRunning, getElapsedSeconds]);
+
+  return active ? elapsed : 0;
+}
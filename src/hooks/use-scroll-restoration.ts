@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+
+// Saves the window scroll offset when the page unmounts and restores it once the
+// page's data is ready, so returning to a long list lands where the user left it.
+export function useScrollRestoration(storageKey: string, ready: boolean) {
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    if (!ready || restoredRef.current) return;
+    restoredRef.current = true;
+
+    const saved = Number(sessionStorage.getItem(storageKey));
+    if (saved > 0) {
+      // Wait a frame so the restored content has been laid out
+      requestAnimationFrame(() => window.scrollTo(0, saved));
+    }
+  }, [storageKey, ready]);
+
+  useEffect(() => {
+    return () => {
+      sessionStorage.setItem(storageKey, String(window.scrollY));
+    };
+  }, [storageKey]);
+}
@@ -0,0 +1,670 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { keepPreviousData, useMutation, useQueries, useQuery, useQueryClient, type QueryClient, type UseQueryResult } from '@tanstack/react-query';
+import { sheetService, questionService, progressService, profileService, cohortService, sessionService, streakService, goalService, achievementService, customListService, mockInterviewService, studyPlanService, realtimeService } from '@/services/supabase';
+import { applyRealtimeChange, filterAssignedContent } from '@/utils';
+import { calculateStreakData, getDayKey, getStreakSettings } from '@/utils/streaks';
+import { buildGoalContext, evaluateGoal, getPendingGoalResults } from '@/utils/goals';
+import { getRecommendations } from '@/utils/recommendations';
+import { buildStudySchedule, getMinutesPerDifficulty, getRemainingPlanQuestions, getStudyPlanStatus, shouldReplan, toStudyPlan } from '@/utils/studyPlan';
+import { MOCK_INTERVIEW } from '@/constants';
+import type { Sheet, Question, UserProgress, PracticeSession, Profile, Cohort, CohortSheet, RealtimeChange, QuestionPageFilters, StreakSettings, StreakData, StreakFreeze, CohortDailyActivity, Goal, GoalResult, GoalProgress, UserAchievement, CustomList, SharedCustomList, MockInterview, MockInterviewResult, Recommendation, StudyPlan } from '@/types';
+
+// Shared cache keys so every page reads and invalidates the same entries
+export const queryKeys = {
+  sheets: ['sheets'] as const,
+  questions: ['questions'] as const,
+  questionPages: ['questions', 'page'] as const,
+  questionPage: (filters: QuestionPageFilters) => ['questions', 'page', filters] as const,
+  questionCounts: ['questions', 'counts'] as const,
+  sheetQuestionLists: ['questions', 'sheet'] as const,
+  sheetQuestions: (sheetId: string) => ['questions', 'sheet', sheetId] as const,
+  userProgress: (userId: string) => ['user-progress', userId] as const,
+  sessions: (userId: string) => ['practice-sessions', userId] as const,
+  userCohort: (userId: string) => ['user-cohort', userId] as const,
+  streakFreezes: (userId: string) => ['streak-freezes', userId] as const,
+  goals: (userId: string) => ['goals', userId] as const,
+  goalResults: (userId: string) => ['goal-results', userId] as const,
+  achievements: (userId: string) => ['achievements', userId] as const,
+  customLists: (userId: string) => ['custom-lists', userId] as const,
+  sharedCustomList: (shareToken: string) => ['custom-lists', 'shared', shareToken] as const,
+  mockInterviews: (userId: string) => ['mock-interviews', userId] as const,
+  studyPlan: (userId: string) => ['study-plan', userId] as const,
+  cohorts: ['cohorts'] as const,
+  cohortActivity: (cohortId: string, from: string, to: string, settings: StreakSettings) =>
+    ['cohorts', cohortId, 'activity', from, to, settings.timeZone, settings.rolloverHour] as const
+};
+
+interface UserCohort {
+  profile: Profile | null;
+  cohort: Cohort | null;
+  assignments: CohortSheet[];
+}
+
+interface ProgressUpdate {
+  questionId: string;
+  updates: Partial<UserProgress>;
+}
+
+// Merges updates into the cached row for a question, adding a placeholder row if needed
+const patchProgress = (
+  queryClient: QueryClient,
+  userId: string,
+  questionId: string,
+  updates: Partial<UserProgress>
+) => {
+  queryClient.setQueryData<UserProgress[]>(queryKeys.userProgress(userId), (prev = []) => {
+    const existingIndex = prev.findIndex(p => p.question_id === questionId);
+    if (existingIndex >= 0) {
+      const updated = [...prev];
+      updated[existingIndex] = { ...updated[existingIndex], ...updates };
+      return updated;
+    }
+    return [...prev, { user_id: userId, question_id: questionId, completed: false, marked_for_revision: false, ...updates } as UserProgress];
+  });
+};
+
+const isSameRecord = <T extends { id: string }>(row: T, record: Partial<T>) => row.id === record.id;
+
+// Optimistic placeholders have no id yet, so progress rows also match on question
+const isSameProgress = (row: UserProgress, record: Partial<UserProgress>) =>
+  (record.id !== undefined && row.id === record.id) ||
+  (record.question_id !== undefined && row.question_id === record.question_id);
+
+const byOrderIndex = (a: Question, b: Question) => a.order_index - b.order_index;
+const byNewestFirst = (a: Sheet, b: Sheet) => b.created_at.localeCompare(a.created_at);
+
+export function useSheets() {
+  return useQuery({
+    queryKey: queryKeys.sheets,
+    queryFn: async (): Promise<Sheet[]> => {
+      const { data, error } = await sheetService.getAllSheets();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+}
+
+export function useQuestions(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.questions,
+    queryFn: async (): Promise<Question[]> => {
+      const { data, error } = await questionService.getAllQuestions();
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Question count per sheet id, for admin views that do not need the questions themselves
+export function useSheetQuestionCounts() {
+  return useQuery({
+    queryKey: queryKeys.questionCounts,
+    queryFn: async (): Promise<Record<string, number>> => {
+      const { data, error } = await sheetService.getQuestionCounts();
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(sheet => [sheet.id, sheet.questions[0]?.count ?? 0]));
+    }
+  });
+}
+
+const sheetQuestionsQuery = (sheetId: string | undefined) => ({
+  queryKey: queryKeys.sheetQuestions(sheetId),
+  queryFn: async (): Promise<Question[]> => {
+    const { data, error } = await questionService.getQuestionsBySheet(sheetId);
+    if (error) throw error;
+    return data || [];
+  },
+  enabled: Boolean(sheetId)
+});
+
+// A single sheet's questions, loaded only once a sheet is picked
+export function useSheetQuestions(sheetId: string | undefined) {
+  return useQuery(sheetQuestionsQuery(sheetId));
+}
+
+// Defined once so the combined list only changes when one of the sheets does
+const combineSheetQuestions = (results: UseQueryResult<Question[]>[]) => ({
+  data: results.flatMap(result => result.data ?? []).sort(byOrderIndex),
+  isLoading: results.some(result => result.isLoading),
+  error: results.find(result => result.error)?.error ?? null
+});
+
+// The questions of the given sheets, sharing each sheet's cache with useSheetQuestions
+export function useQuestionsForSheets(sheetIds: string[]) {
+  return useQueries({
+    queries: sheetIds.map(sheetQuestionsQuery),
+    combine: combineSheetQuestions
+  });
+}
+
+// One server-filtered page of questions; the previous page stays visible while the next loads
+export function useQuestionsPage(filters: QuestionPageFilters) {
+  return useQuery({
+    queryKey: queryKeys.questionPage(filters),
+    queryFn: async () => {
+      const { data, error, count } = await questionService.getQuestionsPage(filters);
+      if (error) throw error;
+      return { questions: (data || []) as Question[], total: count || 0 };
+    },
+    placeholderData: keepPreviousData
+  });
+}
+
+export function useUserProgress(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.userProgress(userId),
+    queryFn: async (): Promise<UserProgress[]> => {
+      const { data, error } = await progressService.getUserProgress(userId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+export function usePracticeSessions(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sessions(userId),
+    queryFn: async (): Promise<PracticeSession[]> => {
+      const { data, error } = await sessionService.getUserSessions(userId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+// The user's profile together with their cohort and its sheet assignments
+export function useUserCohort(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.userCohort(userId),
+    queryFn: async (): Promise<UserCohort> => {
+      const profileResult = await profileService.getUserProfile(userId);
+      const cohortId = profileResult.data?.cohort_id;
+      if (!cohortId) {
+        return { profile: profileResult.data, cohort: null, assignments: [] };
+      }
+
+      const [cohortResult, assignmentsResult] = await Promise.all([
+        cohortService.getCohort(cohortId),
+        cohortService.getCohortSheets(cohortId)
+      ]);
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      return {
+        profile: profileResult.data,
+        cohort: cohortResult.data,
+        assignments: assignmentsResult.data || []
+      };
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+const EMPTY_ASSIGNMENTS: CohortSheet[] = [];
+
+// The sheets and questions a student works from: a cohort student's assigned sheets and
+// topics, everything otherwise. Questions are loaded per sheet, and only for those sheets.
+export function useAssignedContent(userId: string | undefined) {
+  const sheetsQuery = useSheets();
+  const cohortQuery = useUserCohort(userId);
+  const assignments = cohortQuery.data?.assignments ?? EMPTY_ASSIGNMENTS;
+
+  const sheetIds = useMemo(
+    () => cohortQuery.isLoading ? [] : filterAssignedContent(sheetsQuery.data ?? [], [], assignments).sheets.map(s => s.id),
+    [cohortQuery.isLoading, sheetsQuery.data, assignments]
+  );
+  const questionsQuery = useQuestionsForSheets(sheetIds);
+
+  const content = useMemo(
+    () => filterAssignedContent(sheetsQuery.data ?? [], questionsQuery.data, assignments),
+    [sheetsQuery.data, questionsQuery.data, assignments]
+  );
+
+  return {
+    ...content,
+    assignments,
+    loading: sheetsQuery.isLoading || cohortQuery.isLoading || questionsQuery.isLoading,
+    error: sheetsQuery.error || cohortQuery.error || questionsQuery.error
+  };
+}
+
+export function useCohorts(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.cohorts,
+    queryFn: async (): Promise<Cohort[]> => {
+      const { data, error } = await cohortService.getAllCohorts();
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Per-student daily averages for a cohort, bucketed the same way as the viewer's own days
+export function useCohortDailyActivity(cohortId: string | undefined, from: string, to: string, settings: StreakSettings) {
+  return useQuery({
+    queryKey: queryKeys.cohortActivity(cohortId, from, to, settings),
+    queryFn: async (): Promise<CohortDailyActivity[]> => {
+      const { data, error } = await cohortService.getDailyActivity(cohortId, from, to, settings);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(cohortId)
+  });
+}
+
+// Day bucketing for the user's streaks, from the timezone saved on their profile
+export function useStreakSettings(userId: string | undefined): StreakSettings {
+  const { data } = useUserCohort(userId);
+  const timezone = data?.profile?.timezone;
+  const rolloverHour = data?.profile?.day_rollover_hour;
+  const restDays = data?.profile?.rest_days?.join(',');
+
+  return useMemo(
+    () => getStreakSettings({
+      timezone,
+      day_rollover_hour: rolloverHour,
+      rest_days: restDays ? restDays.split(',').map(Number) : []
+    }),
+    [timezone, rolloverHour, restDays]
+  );
+}
+
+export function useStreakFreezes(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.streakFreezes(userId),
+    queryFn: async (): Promise<StreakFreeze[]> => {
+      const { data, error } = await streakService.getStreakFreezes(userId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+// The signed-in user's streak. Freezes spent on newly missed days are recorded on the
+// server once the profile and earlier freezes have loaded, so every device agrees.
+export function useStreakData(userId: string | undefined, userProgress: UserProgress[]): StreakData {
+  const queryClient = useQueryClient();
+  const cohortQuery = useUserCohort(userId);
+  const freezesQuery = useStreakFreezes(userId);
+  const streakSettings = useStreakSettings(userId);
+  const recordingRef = useRef('');
+
+  const streakData = useMemo(
+    () => calculateStreakData(userProgress, streakSettings, (freezesQuery.data || []).map(f => f.frozen_on)),
+    [userProgress, streakSettings, freezesQuery.data]
+  );
+
+  const ready = cohortQuery.isSuccess && freezesQuery.isSuccess;
+  const pendingDays = streakData.newFrozenDays.join(',');
+
+  useEffect(() => {
+    if (!userId || !ready || !pendingDays || recordingRef.current === pendingDays) return;
+    recordingRef.current = pendingDays;
+
+    streakService.recordStreakFreezes(pendingDays.split(','), streakSettings.timeZone).then(({ data, error }) => {
+      if (error) {
+        console.error('Error recording streak freezes:', error);
+        return;
+      }
+      queryClient.setQueryData<StreakFreeze[]>(queryKeys.streakFreezes(userId), (prev = []) => [...prev, ...(data || [])]);
+    });
+  }, [userId, ready, pendingDays, streakSettings.timeZone, queryClient]);
+
+  return streakData;
+}
+
+export function useGoals(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.goals(userId),
+    queryFn: async (): Promise<Goal[]> => {
+      const { data, error } = await goalService.getGoals(userId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+export function useGoalResults(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.goalResults(userId),
+    queryFn: async (): Promise<GoalResult[]> => {
+      const { data, error } = await goalService.getGoalResults(userId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+// Progress on the signed-in user's active goals. Periods that closed since the last
+// visit are recorded as hit or missed once everything they depend on has loaded.
+export function useGoalProgress(userId: string | undefined, questions: Question[], userProgress: UserProgress[]) {
+  const queryClient = useQueryClient();
+  const goalsQuery = useGoals(userId);
+  const resultsQuery = useGoalResults(userId);
+  const sessionsQuery = usePracticeSessions(userId);
+  const cohortQuery = useUserCohort(userId);
+  const streakSettings = useStreakSettings(userId);
+  const recordingRef = useRef('');
+
+  const context = useMemo(
+    () => buildGoalContext(questions, userProgress, sessionsQuery.data || [], streakSettings),
+    [questions, userProgress, sessionsQuery.data, streakSettings]
+  );
+  const activeGoals = useMemo(() => (goalsQuery.data || []).filter(g => g.is_active), [goalsQuery.data]);
+  const progress = useMemo<GoalProgress[]>(
+    () => activeGoals.map(goal => evaluateGoal(goal, context)),
+    [activeGoals, context]
+  );
+
+  const pending = useMemo(() => {
+    const recorded = new Map<string, Set<string>>();
+    (resultsQuery.data || []).forEach(r => {
+      if (!recorded.has(r.goal_id)) recorded.set(r.goal_id, new Set());
+      recorded.get(r.goal_id).add(r.period_start);
+    });
+    return activeGoals.flatMap(goal => getPendingGoalResults(goal, context, recorded.get(goal.id) ?? new Set()));
+  }, [activeGoals, context, resultsQuery.data]);
+
+  const ready = goalsQuery.isSuccess && resultsQuery.isSuccess && sessionsQuery.isSuccess && cohortQuery.isSuccess && questions.length > 0;
+  const pendingKey = pending.map(r => `${r.goal_id}:${r.period_start}`).join(',');
+
+  useEffect(() => {
+    if (!userId || !ready || !pendingKey || recordingRef.current === pendingKey) return;
+    recordingRef.current = pendingKey;
+
+    goalService.recordGoalResults(pending).then(({ data, error }) => {
+      if (error) {
+        console.error('Error recording goal results:', error);
+        return;
+      }
+      queryClient.setQueryData<GoalResult[]>(queryKeys.goalResults(userId), (prev = []) =>
+        [...(data || []), ...prev].sort((a, b) => b.period_end.localeCompare(a.period_end))
+      );
+    });
+  }, [userId, ready, pending, pendingKey, queryClient]);
+
+  return {
+    progress,
+    goals: goalsQuery.data || [],
+    results: resultsQuery.data || [],
+    loading: goalsQuery.isLoading || resultsQuery.isLoading
+  };
+}
+
+// Next questions for the student from the shared cache, within their assigned content
+export function useRecommendations(userId: string | undefined, limit: number, excludeId?: string) {
+  const content = useAssignedContent(userId);
+  const progressQuery = useUserProgress(userId);
+
+  const recommendations = useMemo((): Recommendation[] => {
+    if (content.loading || !progressQuery.data) return [];
+    return getRecommendations(content.sheets, content.questions, progressQuery.data, {
+      limit,
+      excludeIds: excludeId ? [excludeId] : []
+    });
+  }, [content.loading, content.sheets, content.questions, progressQuery.data, limit, excludeId]);
+
+  return {
+    recommendations,
+    userProgress: progressQuery.data ?? [],
+    loading: content.loading || progressQuery.isLoading
+  };
+}
+
+export function useStudyPlan(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.studyPlan(userId),
+    queryFn: async (): Promise<StudyPlan | null> => {
+      const { data, error } = await studyPlanService.getActivePlan(userId);
+      if (error) throw error;
+      return data ? toStudyPlan(data) : null;
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+// The signed-in user's active plan measured against today. The first visit on a day
+// after the student fell behind or got ahead re-spreads the unsolved questions from
+// today to the target date, using their current median times.
+export function useStudyPlanProgress(userId: string | undefined, questions: Question[], userProgress: UserProgress[]) {
+  const queryClient = useQueryClient();
+  const planQuery = useStudyPlan(userId);
+  const sessionsQuery = usePracticeSessions(userId);
+  const cohortQuery = useUserCohort(userId);
+  const streakSettings = useStreakSettings(userId);
+  const replanningRef = useRef('');
+
+  const plan = planQuery.data ?? null;
+  const todayKey = getDayKey(new Date(), streakSettings);
+  const estimates = useMemo(
+    () => getMinutesPerDifficulty(sessionsQuery.data || [], questions, userProgress),
+    [sessionsQuery.data, questions, userProgress]
+  );
+  const status = useMemo(
+    () => (plan ? getStudyPlanStatus(plan, questions, userProgress, todayKey) : null),
+    [plan, questions, userProgress, todayKey]
+  );
+
+  const ready = planQuery.isSuccess && sessionsQuery.isSuccess && cohortQuery.isSuccess && questions.length > 0;
+  const needsReplan = Boolean(plan && status && shouldReplan(plan, status, todayKey));
+
+  useEffect(() => {
+    if (!userId || !ready || !needsReplan) return;
+    const replanKey = `${plan.id}:${todayKey}`;
+    if (replanningRef.current === replanKey) return;
+    replanningRef.current = replanKey;
+
+    const schedule = buildStudySchedule(getRemainingPlanQuestions(plan.sheet_ids, questions, userProgress), estimates, {
+      startDay: todayKey,
+      targetDay: plan.target_date,
+      restDays: streakSettings.restDays,
+      minutesPerDay: plan.minutes_per_day
+    });
+    studyPlanService.updateSchedule(plan.id, schedule.days, todayKey).then(({ data, error }) => {
+      if (error) {
+        console.error('Error re-planning study plan:', error);
+        return;
+      }
+      queryClient.setQueryData(queryKeys.studyPlan(userId), toStudyPlan(data));
+    });
+  }, [userId, ready, needsReplan, plan, todayKey, questions, userProgress, estimates, streakSettings, queryClient]);
+
+  return {
+    plan,
+    status,
+    estimates,
+    streakSettings,
+    todayKey,
+    loading: planQuery.isLoading,
+    error: planQuery.error
+  };
+}
+
+export function useUserAchievements(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.achievements(userId),
+    queryFn: async (): Promise<UserAchievement[]> => {
+      const { data, error } = await achievementService.getUserAchievements(userId);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+export function useCustomLists(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.customLists(userId),
+    queryFn: async (): Promise<CustomList[]> => {
+      const listsResult = await customListService.getLists(userId);
+      if (listsResult.error) throw listsResult.error;
+      const lists = listsResult.data || [];
+      if (lists.length === 0) return [];
+
+      const itemsResult = await customListService.getListItems(lists.map(l => l.id));
+      if (itemsResult.error) throw itemsResult.error;
+      const items = itemsResult.data || [];
+
+      return lists.map(list => ({
+        ...list,
+        question_ids: items.filter(item => item.list_id === list.id).map(item => item.question_id)
+      }));
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+export function useSharedCustomList(shareToken: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sharedCustomList(shareToken),
+    queryFn: async (): Promise<SharedCustomList | null> => {
+      const { data, error } = await customListService.getSharedList(shareToken);
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: Boolean(shareToken)
+  });
+}
+
+export function useMockInterviews(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.mockInterviews(userId),
+    queryFn: async (): Promise<MockInterview[]> => {
+      const mocksResult = await mockInterviewService.getMockInterviews(userId, MOCK_INTERVIEW.HISTORY_LIMIT);
+      if (mocksResult.error) throw mocksResult.error;
+      const mocks = mocksResult.data || [];
+      if (mocks.length === 0) return [];
+
+      const questionsResult = await mockInterviewService.getMockInterviewQuestions(mocks.map(m => m.id));
+      if (questionsResult.error) throw questionsResult.error;
+      const questions = questionsResult.data || [];
+
+      return mocks.map(mock => ({
+        ...mock,
+        questions: questions.filter(q => q.mock_interview_id === mock.id)
+      }));
+    },
+    enabled: Boolean(userId)
+  });
+}
+
+// Saves a finished mock and folds each question into practice history: the time
+// counts as a practice session, solved questions are completed and the rest are
+// queued for revision. Nothing is saved unless all of it is.
+export function useRecordMockInterview(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (result: MockInterviewResult) => {
+      const { data, error } = await mockInterviewService.recordMockInterview(result);
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.mockInterviews(userId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.userProgress(userId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.sessions(userId) });
+    }
+  });
+}
+
+// Saves progress optimistically; the cached row is restored if the write fails
+export function useUpdateProgress(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ questionId, updates }: ProgressUpdate) => {
+      const { data, error } = await progressService.updateProgress(userId, questionId, updates);
+      if (error) throw error;
+      return data as UserProgress;
+    },
+    onMutate: async ({ questionId, updates }) => {
+      const queryKey = queryKeys.userProgress(userId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<UserProgress[]>(queryKey);
+      patchProgress(queryClient, userId, questionId, updates);
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.userProgress(userId), context?.previous);
+    },
+    onSuccess: (saved) => {
+      patchProgress(queryClient, userId, saved.question_id, saved);
+    }
+  });
+}
+
+// For changes already persisted elsewhere (timer totals, revision grades, hints)
+export function useProgressCacheUpdater(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useCallback((questionId: string, updates: Partial<UserProgress>) => {
+    if (!userId) return;
+    patchProgress(queryClient, userId, questionId, updates);
+  }, [queryClient, userId]);
+}
+
+// Realtime events are reduced into the shared cache one row at a time
+export function useRealtimeSheets(enabled = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = realtimeService.subscribeToSheets((change: RealtimeChange<Sheet>) => {
+      queryClient.setQueryData<Sheet[]>(queryKeys.sheets, (prev) =>
+        prev && applyRealtimeChange(prev, change, isSameRecord, byNewestFirst)
+      );
+    });
+
+    return () => {
+      realtimeService.unsubscribe(subscription);
+    };
+  }, [enabled, queryClient]);
+}
+
+export function useRealtimeQuestions(enabled = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = realtimeService.subscribeToQuestions((change: RealtimeChange<Question>) => {
+      queryClient.setQueryData<Question[]>(queryKeys.questions, (prev) =>
+        prev && applyRealtimeChange(prev, change, isSameRecord, byOrderIndex)
+      );
+      // Page boundaries and counts shift on insert and delete, so these views refetch instead
+      queryClient.invalidateQueries({ queryKey: queryKeys.questionPages });
+      queryClient.invalidateQueries({ queryKey: queryKeys.questionCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.sheetQuestionLists });
+    });
+
+    return () => {
+      realtimeService.unsubscribe(subscription);
+    };
+  }, [enabled, queryClient]);
+}
+
+export function useRealtimeProgress(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscription = realtimeService.subscribeToUserProgress(userId, (change) => {
+      queryClient.setQueryData<UserProgress[]>(queryKeys.userProgress(userId), (prev) =>
+        prev && applyRealtimeChange(prev, change, isSameProgress)
+      );
+    });
+
+    return () => {
+      realtimeService.unsubscribe(subscription);
+    };
+  }, [userId, queryClient]);
+}
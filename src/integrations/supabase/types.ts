@@ -14,43 +14,462 @@ export type Database = {
   }
   public: {
     Tables: {
+      cohort_mentors: {
+        Row: {
+          cohort_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          cohort_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          cohort_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_mentors_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohort_sheets: {
+        Row: {
+          cohort_id: string
+          created_at: string
+          due_date: string | null
+          id: string
+          sheet_id: string
+          topics: string[]
+          updated_at: string
+        }
+        Insert: {
+          cohort_id: string
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          sheet_id: string
+          topics?: string[]
+          updated_at?: string
+        }
+        Update: {
+          cohort_id?: string
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          sheet_id?: string
+          topics?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_sheets_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_sheets_sheet_id_fkey"
+            columns: ["sheet_id"]
+            isOneToOne: false
+            referencedRelation: "sheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohorts: {
+        Row: {
+          created_at: string
+          description: string | null
+          end_date: string | null
+          id: string
+          invite_code: string
+          name: string
+          start_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          invite_code?: string
+          name: string
+          start_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          invite_code?: string
+          name?: string
+          start_date?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      custom_list_questions: {
+        Row: {
+          created_at: string
+          id: string
+          list_id: string
+          position: number
+          question_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          list_id: string
+          position?: number
+          question_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          list_id?: string
+          position?: number
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_list_questions_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "custom_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_list_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_lists: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          share_token: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          share_token?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          share_token?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goal_results: {
+        Row: {
+          achieved: number
+          created_at: string
+          goal_id: string
+          id: string
+          met: boolean
+          period_end: string
+          period_start: string
+          target: number
+          user_id: string
+        }
+        Insert: {
+          achieved: number
+          created_at?: string
+          goal_id: string
+          id?: string
+          met: boolean
+          period_end: string
+          period_start: string
+          target: number
+          user_id: string
+        }
+        Update: {
+          achieved?: number
+          created_at?: string
+          goal_id?: string
+          id?: string
+          met?: boolean
+          period_end?: string
+          period_start?: string
+          target?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_results_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          created_at: string
+          due_date: string | null
+          id: string
+          is_active: boolean
+          kind: Database["public"]["Enums"]["goal_kind"]
+          sheet_id: string | null
+          target: number | null
+          topic: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          is_active?: boolean
+          kind: Database["public"]["Enums"]["goal_kind"]
+          sheet_id?: string | null
+          target?: number | null
+          topic?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: Database["public"]["Enums"]["goal_kind"]
+          sheet_id?: string | null
+          target?: number | null
+          topic?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_sheet_id_fkey"
+            columns: ["sheet_id"]
+            isOneToOne: false
+            referencedRelation: "sheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mock_interview_questions: {
+        Row: {
+          assessment: Database["public"]["Enums"]["session_outcome"]
+          created_at: string
+          id: string
+          mock_interview_id: string
+          position: number
+          question_id: string
+          time_spent_seconds: number
+        }
+        Insert: {
+          assessment: Database["public"]["Enums"]["session_outcome"]
+          created_at?: string
+          id?: string
+          mock_interview_id: string
+          position: number
+          question_id: string
+          time_spent_seconds?: number
+        }
+        Update: {
+          assessment?: Database["public"]["Enums"]["session_outcome"]
+          created_at?: string
+          id?: string
+          mock_interview_id?: string
+          position?: number
+          question_id?: string
+          time_spent_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mock_interview_questions_mock_interview_id_fkey"
+            columns: ["mock_interview_id"]
+            isOneToOne: false
+            referencedRelation: "mock_interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_interview_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mock_interviews: {
+        Row: {
+          created_at: string
+          ended_at: string
+          id: string
+          score: number
+          sheet_ids: string[]
+          started_at: string
+          time_limit_seconds: number
+          time_used_seconds: number
+          topics: string[]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at: string
+          id?: string
+          score: number
+          sheet_ids?: string[]
+          started_at: string
+          time_limit_seconds: number
+          time_used_seconds: number
+          topics?: string[]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string
+          id?: string
+          score?: number
+          sheet_ids?: string[]
+          started_at?: string
+          time_limit_seconds?: number
+          time_used_seconds?: number
+          topics?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      practice_sessions: {
+        Row: {
+          created_at: string
+          duration_seconds: number
+          ended_at: string
+          id: string
+          note: string | null
+          outcome: Database["public"]["Enums"]["session_outcome"]
+          question_id: string
+          started_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration_seconds: number
+          ended_at: string
+          id?: string
+          note?: string | null
+          outcome?: Database["public"]["Enums"]["session_outcome"]
+          question_id: string
+          started_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duration_seconds?: number
+          ended_at?: string
+          id?: string
+          note?: string | null
+          outcome?: Database["public"]["Enums"]["session_outcome"]
+          question_id?: string
+          started_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "practice_sessions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
-          cohort: string | null
+          cohort_id: string | null
           created_at: string
+          day_rollover_hour: number
           email: string
           id: string
+          is_active: boolean
           name: string
+          rest_days: number[]
           role: Database["public"]["Enums"]["user_role"]
+          timezone: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
-          cohort?: string | null
+          cohort_id?: string | null
           created_at?: string
+          day_rollover_hour?: number
           email: string
           id?: string
+          is_active?: boolean
           name: string
+          rest_days?: number[]
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
-          cohort?: string | null
+          cohort_id?: string | null
           created_at?: string
+          day_rollover_hour?: number
           email?: string
           id?: string
+          is_active?: boolean
           name?: string
+          rest_days?: number[]
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       questions: {
         Row: {
           created_at: string
+          description: string | null
           difficulty: Database["public"]["Enums"]["question_difficulty"]
+          editorial: string | null
+          editorial_unlock_hints: number | null
+          hints: string[]
           id: string
           order_index: number
           sheet_id: string
@@ -62,7 +481,11 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          description?: string | null
           difficulty: Database["public"]["Enums"]["question_difficulty"]
+          editorial?: string | null
+          editorial_unlock_hints?: number | null
+          hints?: string[]
           id?: string
           order_index?: number
           sheet_id: string
@@ -74,7 +497,11 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          description?: string | null
           difficulty?: Database["public"]["Enums"]["question_difficulty"]
+          editorial?: string | null
+          editorial_unlock_hints?: number | null
+          hints?: string[]
           id?: string
           order_index?: number
           sheet_id?: string
@@ -94,6 +521,48 @@ export type Database = {
           },
         ]
       }
+      role_audit_log: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          new_role: Database["public"]["Enums"]["user_role"]
+          old_role: Database["public"]["Enums"]["user_role"] | null
+          user_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_role: Database["public"]["Enums"]["user_role"]
+          old_role?: Database["public"]["Enums"]["user_role"] | null
+          user_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_role?: Database["public"]["Enums"]["user_role"]
+          old_role?: Database["public"]["Enums"]["user_role"] | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: []
+      }
       sheets: {
         Row: {
           created_at: string
@@ -121,15 +590,102 @@ export type Database = {
         }
         Relationships: []
       }
+      streak_freezes: {
+        Row: {
+          created_at: string
+          frozen_on: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          frozen_on: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          frozen_on?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      study_plans: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          minutes_per_day: number
+          planned_on: string
+          schedule: Json
+          sheet_ids: string[]
+          target_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          minutes_per_day: number
+          planned_on: string
+          schedule?: Json
+          sheet_ids: string[]
+          target_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          minutes_per_day?: number
+          planned_on?: string
+          schedule?: Json
+          sheet_ids?: string[]
+          target_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          id?: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_progress: {
         Row: {
           completed: boolean
           completed_at: string | null
           created_at: string
+          ease_factor: number
+          hints_revealed: number
           id: string
+          last_reviewed_at: string | null
           marked_for_revision: boolean
+          next_review_at: string | null
           note: string | null
           question_id: string
+          repetitions: number
+          review_interval: number
           time_spent: number | null
           updated_at: string
           user_id: string
@@ -138,10 +694,16 @@ export type Database = {
           completed?: boolean
           completed_at?: string | null
           created_at?: string
+          ease_factor?: number
+          hints_revealed?: number
           id?: string
+          last_reviewed_at?: string | null
           marked_for_revision?: boolean
+          next_review_at?: string | null
           note?: string | null
           question_id: string
+          repetitions?: number
+          review_interval?: number
           time_spent?: number | null
           updated_at?: string
           user_id: string
@@ -150,10 +712,16 @@ export type Database = {
           completed?: boolean
           completed_at?: string | null
           created_at?: string
+          ease_factor?: number
+          hints_revealed?: number
           id?: string
+          last_reviewed_at?: string | null
           marked_for_revision?: boolean
+          next_review_at?: string | null
           note?: string | null
           question_id?: string
+          repetitions?: number
+          review_interval?: number
           time_spent?: number | null
           updated_at?: string
           user_id?: string
@@ -170,21 +738,230 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      student_activity_days: {
+        Row: {
+          activity_date: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      admin_activity_timeseries: {
+        Args: { p_bucket?: string; p_periods?: number }
+        Returns: {
+          period_start: string
+          active_students: number
+          completions: number
+        }[]
+      }
+      admin_cohort_funnels: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          cohort: string
+          sheet_id: string
+          sheet_title: string
+          students: number
+          started: number
+          halfway: number
+          finished: number
+        }[]
+      }
+      admin_question_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          question_id: string
+          title: string
+          topic: string
+          difficulty: Database["public"]["Enums"]["question_difficulty"]
+          sheet_id: string
+          attempted: number
+          solved: number
+          abandoned: number
+          median_seconds: number | null
+        }[]
+      }
+      admin_topic_weakness: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          cohort: string
+          topic: string
+          attempted: number
+          solved: number
+        }[]
+      }
+      cohort_daily_activity: {
+        Args: {
+          p_cohort_id: string
+          p_from: string
+          p_to: string
+          p_time_zone?: string
+          p_rollover_hour?: number
+        }
+        Returns: {
+          activity_date: string
+          students: number
+          active_students: number
+          average_completions: number
+        }[]
+      }
+      create_study_plan: {
+        Args: {
+          p_sheet_ids: string[]
+          p_target_date: string
+          p_minutes_per_day: number
+          p_schedule: Json
+          p_planned_on: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          is_active: boolean
+          minutes_per_day: number
+          planned_on: string
+          schedule: Json
+          sheet_ids: string[]
+          target_date: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      current_user_cohort_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_current_user_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_question_content: {
+        Args: { p_question_id: string }
+        Returns: {
+          hints: string[]
+          hint_count: number
+          editorial: string | null
+          has_editorial: boolean
+        }[]
+      }
+      get_shared_custom_list: {
+        Args: { p_share_token: string }
+        Returns: {
+          name: string
+          description: string
+          owner_name: string
+          updated_at: string
+          question_ids: string[]
+        }[]
+      }
+      get_sheet_question_content: {
+        Args: { p_sheet_id: string }
+        Returns: {
+          question_id: string
+          hints: string[]
+          editorial: string | null
+        }[]
+      }
+      get_user_progress_summaries: {
+        Args: { p_user_ids: string[]; p_time_zone?: string }
+        Returns: {
+          user_id: string
+          completed: number
+          last_active_at: string | null
+          completion_days: string[]
+          freeze_days: string[]
+        }[]
+      }
+      has_permission: {
+        Args: {
+          p_permission: Database["public"]["Enums"]["app_permission"]
+        }
+        Returns: boolean
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      join_cohort: {
+        Args: { p_invite_code: string }
+        Returns: string
+      }
+      record_mock_interview: {
+        Args: {
+          p_started_at: string
+          p_ended_at: string
+          p_time_limit_seconds: number
+          p_time_used_seconds: number
+          p_score: number
+          p_sheet_ids: string[]
+          p_topics: string[]
+          p_questions: Json
+        }
+        Returns: {
+          created_at: string
+          ended_at: string
+          id: string
+          score: number
+          sheet_ids: string[]
+          started_at: string
+          time_limit_seconds: number
+          time_used_seconds: number
+          topics: string[]
+          user_id: string
+        }
+      }
+      record_practice_session: {
+        Args: {
+          p_session_id: string
+          p_question_id: string
+          p_started_at: string
+          p_duration_seconds: number
+          p_outcome?: Database["public"]["Enums"]["session_outcome"]
+        }
+        Returns: number
+      }
+      record_streak_freezes: {
+        Args: { p_days: string[]; p_time_zone?: string }
+        Returns: {
+          created_at: string
+          frozen_on: string
+          id: string
+          user_id: string
+        }[]
+      }
+      regenerate_cohort_invite_code: {
+        Args: { p_cohort_id: string }
+        Returns: string
+      }
+      reveal_next_hint: {
+        Args: { p_question_id: string }
+        Returns: number
+      }
     }
     Enums: {
+      app_permission:
+        | "manage_content"
+        | "manage_users"
+        | "manage_roles"
+        | "manage_cohorts"
+        | "view_student_progress"
+        | "view_analytics"
+      goal_kind:
+        | "daily_questions"
+        | "weekly_minutes"
+        | "topic_questions"
+        | "sheet_completion"
       question_difficulty: "Easy" | "Medium" | "Hard"
-      user_role: "student" | "admin"
+      session_outcome: "solved" | "attempted" | "gave_up"
+      user_role:
+        | "student"
+        | "admin"
+        | "mentor"
+        | "teaching_assistant"
+        | "content_editor"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -312,8 +1089,29 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_permission: [
+        "manage_content",
+        "manage_users",
+        "manage_roles",
+        "manage_cohorts",
+        "view_student_progress",
+        "view_analytics",
+      ],
+      goal_kind: [
+        "daily_questions",
+        "weekly_minutes",
+        "topic_questions",
+        "sheet_completion",
+      ],
       question_difficulty: ["Easy", "Medium", "Hard"],
-      user_role: ["student", "admin"],
+      session_outcome: ["solved", "attempted", "gave_up"],
+      user_role: [
+        "student",
+        "admin",
+        "mentor",
+        "teaching_assistant",
+        "content_editor",
+      ],
     },
   },
 } as const
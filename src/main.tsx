@@ -3,9 +3,18 @@ import { createRoot } from "react-dom/client";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ThemeProvider } from "next-themes";
 import App from "./App.tsx";
+import { QUERY_STALE_TIME_MS } from "./constants";
 import "./index.css";
 
-const queryClient = new QueryClient();
+// One cache for the whole app; realtime events and mutations keep it fresh
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: QUERY_STALE_TIME_MS,
+      refetchOnWindowFocus: false
+    }
+  }
+});
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
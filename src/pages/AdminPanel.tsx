@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import { queryKeys, useSheets, useSheetQuestionCounts, useQuestionsPage, useRealtimeSheets, useRealtimeQuestions } from '@/hooks/use-tracker-queries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,21 +21,34 @@ import {
   Target, 
   Users,
   BarChart3,
-  Settings
+  Settings,
+  Download,
+  GraduationCap,
+  ShieldCheck,
+  Search,
+  ChevronLeft,
+  ChevronRight
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { Link } from 'react-router-dom';
-import { sheetService, questionService, profileService, realtimeService } from '@/services/supabase';
+import { QuestionImportDialog } from '@/components/QuestionImportDialog';
+import { SheetPackageImportDialog } from '@/components/SheetPackageImportDialog';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { HintListEditor } from '@/components/HintListEditor';
+import { UserManagement } from '@/components/UserManagement';
+import { SystemAnalytics } from '@/components/SystemAnalytics';
+import { CohortManagement } from '@/components/CohortManagement';
+import { RoleManagement } from '@/components/RoleManagement';
+import { sheetService, questionService } from '@/services/supabase';
+import { PERMISSIONS, ROLE_OPTIONS, ADMIN_QUESTIONS_PAGE_SIZE } from '@/constants';
 import { formatArrayForInput, parseInputToArray } from '@/utils';
+import { buildSheetPackage, downloadJson, getSheetPackageFileName } from '@/utils/sheetPackage';
 import type { Sheet, Question, QuestionFormData, SheetFormData } from '@/types';
 
 const AdminPanel = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [sheets, setSheets] = useState<Sheet[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [userRole, setUserRole] = useState<string>('student');
+  const queryClient = useQueryClient();
+  const { role, can, canAny } = usePermissions();
   const [isSheetDialogOpen, setIsSheetDialogOpen] = useState(false);
   const [isQuestionDialogOpen, setIsQuestionDialogOpen] = useState(false);
   const [editingSheet, setEditingSheet] = useState<Sheet | null>(null);
@@ -52,83 +68,67 @@ const AdminPanel = () => {
     tags: '',
     difficulty: 'Easy' as 'Easy' | 'Medium' | 'Hard',
     solve_url: '',
-    order_index: 0
+    order_index: 0,
+    description: '',
+    hints: [],
+    editorial: '',
+    editorial_unlock_hints: null as number | null
   });
 
-  const fetchData = useCallback(async () => {
-    console.log('Fetching admin panel data...');
-    try {
-      const [sheetsResult, questionsResult] = await Promise.all([
-        sheetService.getAllSheets(),
-        questionService.getAllQuestions()
-      ]);
-
-      if (sheetsResult.error) throw sheetsResult.error;
-      if (questionsResult.error) throw questionsResult.error;
+  const sheetsQuery = useSheets();
+  const questionCountsQuery = useSheetQuestionCounts();
+  const sheets = sheetsQuery.data ?? [];
+  const questionCounts = questionCountsQuery.data ?? {};
+  const totalQuestions = Object.values(questionCounts).reduce((sum, count) => sum + count, 0);
+  const loading = sheetsQuery.isLoading || questionCountsQuery.isLoading;
+
+  // Refreshes the shared content cache, so student views pick up edits too
+  // The questions tab pages and filters on the server
+  const [questionSearch, setQuestionSearch] = useState('');
+  const [questionSheetFilter, setQuestionSheetFilter] = useState('all');
+  const [questionDifficultyFilter, setQuestionDifficultyFilter] = useState('all');
+  const [questionPage, setQuestionPage] = useState(1);
+  const questionsPageQuery = useQuestionsPage({
+    search: questionSearch.trim() || undefined,
+    sheetId: questionSheetFilter === 'all' ? undefined : questionSheetFilter,
+    difficulty: questionDifficultyFilter === 'all' ? undefined : questionDifficultyFilter as Question['difficulty'],
+    page: questionPage,
+    pageSize: ADMIN_QUESTIONS_PAGE_SIZE
+  });
+  const pagedQuestions = questionsPageQuery.data?.questions ?? [];
+  const questionCount = questionsPageQuery.data?.total ?? 0;
+  const questionPageCount = Math.max(1, Math.ceil(questionCount / ADMIN_QUESTIONS_PAGE_SIZE));
+  const sheetsById = new Map(sheets.map(sheet => [sheet.id, sheet]));
+
+  // Any filter change starts again from the first page
+  const changeQuestionFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setQuestionPage(1);
+  };
 
-      console.log('Fetched sheets:', sheetsResult.data?.length);
-      console.log('Fetched questions:', questionsResult.data?.length);
+  const refreshContent = useCallback(async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.sheets }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.questions })
+    ]);
+  }, [queryClient]);
 
-      setSheets(sheetsResult.data || []);
-      setQuestions(questionsResult.data || []);
-    } catch (error) {
+  useEffect(() => {
+    const error = sheetsQuery.error || questionCountsQuery.error;
+    if (error) {
       console.error('Error fetching data:', error);
       toast({
         title: "Error",
         description: "Failed to fetch data. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
-    }
-  }, [toast]);
-
-  const checkAdminAccess = useCallback(async () => {
-    if (user) {
-      const result = await profileService.getUserProfile(user.id);
-
-      if (result.data) {
-        setUserRole(result.data.role);
-        if (result.data.role !== 'admin') {
-          toast({
-            title: "Access Denied",
-            description: "You don't have admin privileges to access this panel.",
-            variant: "destructive",
-          });
-        }
-      }
-    }
-  }, [user, toast]);
-
-  useEffect(() => {
-    if (user) {
-      checkAdminAccess();
-      fetchData();
     }
-  }, [user, checkAdminAccess, fetchData]);
+  }, [sheetsQuery.error, questionCountsQuery.error, toast]);
 
   // Set up real-time subscriptions for admin panel
-  useEffect(() => {
-    if (!user || userRole !== 'admin') return;
-
-    console.log('Setting up real-time subscriptions for admin panel');
-
-    const questionsSubscription = realtimeService.subscribeToQuestions((payload) => {
-      console.log('Questions changed in admin panel:', payload);
-      fetchData(); // Refetch all data when questions change
-    });
-
-    const sheetsSubscription = realtimeService.subscribeToSheets((payload) => {
-      console.log('Sheets changed in admin panel:', payload);
-      fetchData(); // Refetch all data when sheets change
-    });
-
-    return () => {
-      console.log('Cleaning up admin panel subscriptions');
-      realtimeService.unsubscribe(questionsSubscription);
-      realtimeService.unsubscribe(sheetsSubscription);
-    };
-  }, [user, userRole, fetchData]);
+  const canManageContent = can(PERMISSIONS.MANAGE_CONTENT);
+  useRealtimeSheets(canManageContent);
+  useRealtimeQuestions(canManageContent);
 
   const handleSheetSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -155,7 +155,7 @@ const AdminPanel = () => {
       setSheetForm({ title: '', description: '', topics: '' });
       setEditingSheet(null);
       setIsSheetDialogOpen(false);
-      await fetchData(); // Ensure data is refreshed
+      await refreshContent();
     } catch (error) {
       console.error('Error saving sheet:', error);
       toast({
@@ -195,11 +195,15 @@ const AdminPanel = () => {
         tags: '',
         difficulty: 'Easy',
         solve_url: '',
-        order_index: 0
+        order_index: 0,
+        description: '',
+        hints: [],
+        editorial: '',
+        editorial_unlock_hints: null
       });
       setEditingQuestion(null);
       setIsQuestionDialogOpen(false);
-      await fetchData(); // Ensure data is refreshed
+      await refreshContent();
     } catch (error) {
       console.error('Error saving question:', error);
       toast({
@@ -223,7 +227,7 @@ const AdminPanel = () => {
         title: "Success",
         description: "Sheet deleted successfully.",
       });
-      fetchData();
+      refreshContent();
     } catch (error) {
       console.error('Error deleting sheet:', error);
       toast({
@@ -247,7 +251,7 @@ const AdminPanel = () => {
         title: "Success",
         description: "Question deleted successfully.",
       });
-      fetchData();
+      refreshContent();
     } catch (error) {
       console.error('Error deleting question:', error);
       toast({
@@ -258,6 +262,26 @@ const AdminPanel = () => {
     }
   };
 
+  const handleExportSheet = async (sheet: Sheet) => {
+    try {
+      const [questionsResult, contentResult] = await Promise.all([
+        questionService.getQuestionsBySheet(sheet.id),
+        questionService.getSheetQuestionContent(sheet.id)
+      ]);
+      if (questionsResult.error) throw questionsResult.error;
+      if (contentResult.error) throw contentResult.error;
+
+      downloadJson(getSheetPackageFileName(sheet), buildSheetPackage(sheet, questionsResult.data || [], contentResult.data || []));
+    } catch (error) {
+      console.error('Error exporting sheet:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export sheet. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const editSheet = (sheet: Sheet) => {
     setEditingSheet(sheet);
     setSheetForm({
@@ -268,7 +292,19 @@ const AdminPanel = () => {
     setIsSheetDialogOpen(true);
   };
 
-  const editQuestion = (question: Question) => {
+  // Hints and editorial are not part of the list query, so load them before opening the form
+  const editQuestion = async (question: Question) => {
+    const { data: content, error } = await questionService.getQuestionContent(question.id);
+    if (error) {
+      console.error('Error fetching question content:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load question content. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setEditingQuestion(question);
     setQuestionForm({
       sheet_id: question.sheet_id,
@@ -277,25 +313,24 @@ const AdminPanel = () => {
       tags: formatArrayForInput(question.tags),
       difficulty: question.difficulty,
       solve_url: question.solve_url || '',
-      order_index: question.order_index
+      order_index: question.order_index,
+      description: question.description || '',
+      hints: content?.hints ?? [],
+      editorial: content?.editorial || '',
+      editorial_unlock_hints: question.editorial_unlock_hints ?? null
     });
     setIsQuestionDialogOpen(true);
   };
 
-  // Show access denied if not admin
-  if (!loading && userRole !== 'admin') {
-    return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <div className="text-center">
-          <h2 className="text-2xl font-bold mb-4">Access Denied</h2>
-          <p className="text-muted-foreground mb-6">You don't have permission to access the admin panel.</p>
-          <Button asChild>
-            <Link to="/">Go to Dashboard</Link>
-          </Button>
-        </div>
-      </div>
-    );
-  }
+  const tabs = [
+    { value: 'sheets', label: 'Sheets', icon: BookOpen, visible: can(PERMISSIONS.MANAGE_CONTENT) },
+    { value: 'questions', label: 'Questions', icon: Target, visible: can(PERMISSIONS.MANAGE_CONTENT) },
+    { value: 'users', label: 'Users', icon: Users, visible: canAny([PERMISSIONS.MANAGE_USERS, PERMISSIONS.VIEW_STUDENT_PROGRESS]) },
+    { value: 'cohorts', label: 'Cohorts', icon: GraduationCap, visible: can(PERMISSIONS.MANAGE_COHORTS) },
+    { value: 'roles', label: 'Roles', icon: ShieldCheck, visible: can(PERMISSIONS.MANAGE_ROLES) },
+    { value: 'analytics', label: 'Analytics', icon: BarChart3, visible: can(PERMISSIONS.VIEW_ANALYTICS) }
+  ].filter(tab => tab.visible);
+  const roleLabel = ROLE_OPTIONS.find(option => option.value === role)?.label ?? role;
 
   if (loading) {
     return (
@@ -317,86 +352,82 @@ const AdminPanel = () => {
         </div>
         <Badge variant="outline" className="bg-primary/10">
           <Settings className="h-3 w-3 mr-1" />
-          Administrator
+          {roleLabel}
         </Badge>
       </div>
 
-      <Tabs defaultValue="sheets" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="sheets">
-            <BookOpen className="h-4 w-4 mr-2" />
-            Sheets
-          </TabsTrigger>
-          <TabsTrigger value="questions">
-            <Target className="h-4 w-4 mr-2" />
-            Questions
-          </TabsTrigger>
-          <TabsTrigger value="users">
-            <Users className="h-4 w-4 mr-2" />
-            Users
-          </TabsTrigger>
-          <TabsTrigger value="analytics">
-            <BarChart3 className="h-4 w-4 mr-2" />
-            Analytics
-          </TabsTrigger>
+      <Tabs defaultValue={tabs[0].value} className="space-y-6">
+        <TabsList
+          className="grid w-full"
+          style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}
+        >
+          {tabs.map(tab => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              <tab.icon className="h-4 w-4 mr-2" />
+              {tab.label}
+            </TabsTrigger>
+          ))}
         </TabsList>
 
         <TabsContent value="sheets" className="space-y-6">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold">Practice Sheets</h2>
-            <Dialog open={isSheetDialogOpen} onOpenChange={setIsSheetDialogOpen}>
-              <DialogTrigger asChild>
-                <Button onClick={() => {
-                  setEditingSheet(null);
-                  setSheetForm({ title: '', description: '', topics: '' });
-                }}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Sheet
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>{editingSheet ? 'Edit Sheet' : 'Create New Sheet'}</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleSheetSubmit} className="space-y-4">
-                  <div>
-                    <Label htmlFor="title">Title</Label>
-                    <Input
-                      id="title"
-                      value={sheetForm.title}
-                      onChange={(e) => setSheetForm({ ...sheetForm, title: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="description">Description</Label>
-                    <Textarea
-                      id="description"
-                      value={sheetForm.description}
-                      onChange={(e) => setSheetForm({ ...sheetForm, description: e.target.value })}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="topics">Topics (comma-separated)</Label>
-                    <Input
-                      id="topics"
-                      value={sheetForm.topics}
-                      onChange={(e) => setSheetForm({ ...sheetForm, topics: e.target.value })}
-                      placeholder="Arrays, Strings, Dynamic Programming"
-                      required
-                    />
-                  </div>
-                  <div className="flex justify-end space-x-2">
-                    <Button type="button" variant="outline" onClick={() => setIsSheetDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit">
-                      {editingSheet ? 'Update' : 'Create'}
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+            <div className="flex space-x-2">
+              <SheetPackageImportDialog sheets={sheets} onImported={refreshContent} />
+              <Dialog open={isSheetDialogOpen} onOpenChange={setIsSheetDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => {
+                    setEditingSheet(null);
+                    setSheetForm({ title: '', description: '', topics: '' });
+                  }}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Sheet
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>{editingSheet ? 'Edit Sheet' : 'Create New Sheet'}</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleSheetSubmit} className="space-y-4">
+                    <div>
+                      <Label htmlFor="title">Title</Label>
+                      <Input
+                        id="title"
+                        value={sheetForm.title}
+                        onChange={(e) => setSheetForm({ ...sheetForm, title: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="description">Description</Label>
+                      <Textarea
+                        id="description"
+                        value={sheetForm.description}
+                        onChange={(e) => setSheetForm({ ...sheetForm, description: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="topics">Topics (comma-separated)</Label>
+                      <Input
+                        id="topics"
+                        value={sheetForm.topics}
+                        onChange={(e) => setSheetForm({ ...sheetForm, topics: e.target.value })}
+                        placeholder="Arrays, Strings, Dynamic Programming"
+                        required
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setIsSheetDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">
+                        {editingSheet ? 'Update' : 'Create'}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           <div className="grid gap-4">
@@ -409,6 +440,9 @@ const AdminPanel = () => {
                       <CardDescription>{sheet.description}</CardDescription>
                     </div>
                     <div className="flex space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => handleExportSheet(sheet)}>
+                        <Download className="h-3 w-3" />
+                      </Button>
                       <Button size="sm" variant="outline" onClick={() => editSheet(sheet)}>
                         <Edit className="h-3 w-3" />
                       </Button>
@@ -431,7 +465,7 @@ const AdminPanel = () => {
                     ))}
                   </div>
                   <p className="text-sm text-muted-foreground mt-2">
-                    {questions.filter(q => q.sheet_id === sheet.id).length} questions
+                    {questionCounts[sheet.id] ?? 0} questions
                   </p>
                 </CardContent>
               </Card>
@@ -442,132 +476,209 @@ const AdminPanel = () => {
         <TabsContent value="questions" className="space-y-6">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold">Questions</h2>
-            <Dialog open={isQuestionDialogOpen} onOpenChange={setIsQuestionDialogOpen}>
-              <DialogTrigger asChild>
-                <Button onClick={() => {
-                  setEditingQuestion(null);
-                  setQuestionForm({
-                    sheet_id: '',
-                    title: '',
-                    topic: '',
-                    tags: '',
-                    difficulty: 'Easy',
-                    solve_url: '',
-                    order_index: 0
-                  });
-                }}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Question
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl">
-                <DialogHeader>
-                  <DialogTitle>{editingQuestion ? 'Edit Question' : 'Create New Question'}</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleQuestionSubmit} className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
+            <div className="flex space-x-2">
+              <QuestionImportDialog sheets={sheets} onImported={refreshContent} />
+              <Dialog open={isQuestionDialogOpen} onOpenChange={setIsQuestionDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => {
+                    setEditingQuestion(null);
+                    setQuestionForm({
+                      sheet_id: '',
+                      title: '',
+                      topic: '',
+                      tags: '',
+                      difficulty: 'Easy',
+                      solve_url: '',
+                      order_index: 0,
+                      description: '',
+                      hints: [],
+                      editorial: '',
+                      editorial_unlock_hints: null
+                    });
+                  }}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Question
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>{editingQuestion ? 'Edit Question' : 'Create New Question'}</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleQuestionSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="sheet">Sheet</Label>
+                        <Select
+                          value={questionForm.sheet_id}
+                          onValueChange={(value) => setQuestionForm({ ...questionForm, sheet_id: value })}
+                          required
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a sheet" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {sheets.map((sheet) => (
+                              <SelectItem key={sheet.id} value={sheet.id}>
+                                {sheet.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="difficulty">Difficulty</Label>
+                        <Select
+                          value={questionForm.difficulty}
+                          onValueChange={(value) => 
+                            setQuestionForm({ ...questionForm, difficulty: value as 'Easy' | 'Medium' | 'Hard' })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="Easy">Easy</SelectItem>
+                            <SelectItem value="Medium">Medium</SelectItem>
+                            <SelectItem value="Hard">Hard</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
                     <div>
-                      <Label htmlFor="sheet">Sheet</Label>
-                      <Select
-                        value={questionForm.sheet_id}
-                        onValueChange={(value) => setQuestionForm({ ...questionForm, sheet_id: value })}
+                      <Label htmlFor="questionTitle">Question Title</Label>
+                      <Input
+                        id="questionTitle"
+                        value={questionForm.title}
+                        onChange={(e) => setQuestionForm({ ...questionForm, title: e.target.value })}
                         required
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a sheet" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {sheets.map((sheet) => (
-                            <SelectItem key={sheet.id} value={sheet.id}>
-                              {sheet.title}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      />
                     </div>
-                    <div>
-                      <Label htmlFor="difficulty">Difficulty</Label>
-                      <Select
-                        value={questionForm.difficulty}
-                        onValueChange={(value) => 
-                          setQuestionForm({ ...questionForm, difficulty: value as 'Easy' | 'Medium' | 'Hard' })
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Easy">Easy</SelectItem>
-                          <SelectItem value="Medium">Medium</SelectItem>
-                          <SelectItem value="Hard">Hard</SelectItem>
-                        </SelectContent>
-                      </Select>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="topic">Topic</Label>
+                        <Input
+                          id="topic"
+                          value={questionForm.topic}
+                          onChange={(e) => setQuestionForm({ ...questionForm, topic: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="orderIndex">Order Index</Label>
+                        <Input
+                          id="orderIndex"
+                          type="number"
+                          value={questionForm.order_index}
+                          onChange={(e) => setQuestionForm({ ...questionForm, order_index: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
                     </div>
-                  </div>
-                  <div>
-                    <Label htmlFor="questionTitle">Question Title</Label>
-                    <Input
-                      id="questionTitle"
-                      value={questionForm.title}
-                      onChange={(e) => setQuestionForm({ ...questionForm, title: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="topic">Topic</Label>
+                      <Label htmlFor="tags">Tags (comma-separated)</Label>
                       <Input
-                        id="topic"
-                        value={questionForm.topic}
-                        onChange={(e) => setQuestionForm({ ...questionForm, topic: e.target.value })}
-                        required
+                        id="tags"
+                        value={questionForm.tags}
+                        onChange={(e) => setQuestionForm({ ...questionForm, tags: e.target.value })}
+                        placeholder="recursion, backtracking, optimization"
                       />
                     </div>
                     <div>
-                      <Label htmlFor="orderIndex">Order Index</Label>
+                      <Label htmlFor="solveUrl">Solve URL (optional)</Label>
                       <Input
-                        id="orderIndex"
-                        type="number"
-                        value={questionForm.order_index}
-                        onChange={(e) => setQuestionForm({ ...questionForm, order_index: parseInt(e.target.value) || 0 })}
+                        id="solveUrl"
+                        type="url"
+                        value={questionForm.solve_url}
+                        onChange={(e) => setQuestionForm({ ...questionForm, solve_url: e.target.value })}
+                        placeholder="https://leetcode.com/problems/..."
                       />
                     </div>
-                  </div>
-                  <div>
-                    <Label htmlFor="tags">Tags (comma-separated)</Label>
-                    <Input
-                      id="tags"
-                      value={questionForm.tags}
-                      onChange={(e) => setQuestionForm({ ...questionForm, tags: e.target.value })}
-                      placeholder="recursion, backtracking, optimization"
+                    <MarkdownEditor
+                      id="description"
+                      label="Problem Statement (markdown)"
+                      value={questionForm.description}
+                      onChange={(value) => setQuestionForm({ ...questionForm, description: value })}
+                      placeholder="Given an array of integers nums..."
                     />
-                  </div>
-                  <div>
-                    <Label htmlFor="solveUrl">Solve URL (optional)</Label>
-                    <Input
-                      id="solveUrl"
-                      type="url"
-                      value={questionForm.solve_url}
-                      onChange={(e) => setQuestionForm({ ...questionForm, solve_url: e.target.value })}
-                      placeholder="https://leetcode.com/problems/..."
+                    <HintListEditor
+                      id="hints"
+                      label="Hints (markdown, revealed in order)"
+                      value={questionForm.hints}
+                      onChange={(hints) => setQuestionForm({ ...questionForm, hints })}
+                      placeholder="Can you do it in a single pass?"
                     />
-                  </div>
-                  <div className="flex justify-end space-x-2">
-                    <Button type="button" variant="outline" onClick={() => setIsQuestionDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit">
-                      {editingQuestion ? 'Update' : 'Create'}
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <MarkdownEditor
+                      id="editorial"
+                      label="Editorial (markdown)"
+                      value={questionForm.editorial}
+                      onChange={(value) => setQuestionForm({ ...questionForm, editorial: value })}
+                      placeholder="## Approach"
+                    />
+                    <div>
+                      <Label htmlFor="editorialUnlockHints">Unlock editorial after N hints (blank = after completion only)</Label>
+                      <Input
+                        id="editorialUnlockHints"
+                        type="number"
+                        min={0}
+                        value={questionForm.editorial_unlock_hints ?? ''}
+                        onChange={(e) => setQuestionForm({
+                          ...questionForm,
+                          editorial_unlock_hints: e.target.value === '' ? null : parseInt(e.target.value) || 0
+                        })}
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setIsQuestionDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">
+                        {editingQuestion ? 'Update' : 'Create'}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by title or topic..."
+                value={questionSearch}
+                onChange={(e) => changeQuestionFilter(setQuestionSearch)(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={questionSheetFilter} onValueChange={changeQuestionFilter(setQuestionSheetFilter)}>
+              <SelectTrigger className="md:w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Sheets</SelectItem>
+                {sheets.map((sheet) => (
+                  <SelectItem key={sheet.id} value={sheet.id}>
+                    {sheet.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={questionDifficultyFilter} onValueChange={changeQuestionFilter(setQuestionDifficultyFilter)}>
+              <SelectTrigger className="md:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Difficulties</SelectItem>
+                <SelectItem value="Easy">Easy</SelectItem>
+                <SelectItem value="Medium">Medium</SelectItem>
+                <SelectItem value="Hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
           <div className="space-y-4">
-            {questions.map((question) => {
-              const sheet = sheets.find(s => s.id === question.sheet_id);
+            {pagedQuestions.map((question) => {
+              const sheet = sheetsById.get(question.sheet_id);
               return (
                 <Card key={question.id}>
                   <CardContent className="pt-6">
@@ -610,30 +721,35 @@ const AdminPanel = () => {
               );
             })}
           </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{questionCount} questions</span>
+            <div className="flex items-center space-x-2">
+              <Button size="sm" variant="outline" onClick={() => setQuestionPage(questionPage - 1)} disabled={questionPage <= 1}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>Page {questionPage} of {questionPageCount}</span>
+              <Button size="sm" variant="outline" onClick={() => setQuestionPage(questionPage + 1)} disabled={questionPage >= questionPageCount}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
         </TabsContent>
 
         <TabsContent value="users">
-          <Card>
-            <CardHeader>
-              <CardTitle>User Management</CardTitle>
-              <CardDescription>Manage user accounts and permissions</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-muted-foreground">User management features coming soon...</p>
-            </CardContent>
-          </Card>
+          <UserManagement totalQuestions={totalQuestions} currentUserId={user.id} />
+        </TabsContent>
+
+        <TabsContent value="cohorts">
+          <CohortManagement sheets={sheets} />
+        </TabsContent>
+
+        <TabsContent value="roles">
+          <RoleManagement />
         </TabsContent>
 
         <TabsContent value="analytics">
-          <Card>
-            <CardHeader>
-              <CardTitle>System Analytics</CardTitle>
-              <CardDescription>View platform usage and performance metrics</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-muted-foreground">Analytics dashboard coming soon...</p>
-            </CardContent>
-          </Card>
+          <SystemAnalytics />
         </TabsContent>
       </Tabs>
     </div>
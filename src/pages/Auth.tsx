@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,13 +7,16 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
+import { getSafeRedirectPath } from '@/utils';
+import { AUTH_REDIRECT_PARAM } from '@/constants';
 
 const Auth = () => {
   const { user, signIn, signUp } = useAuth();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(false);
 
   if (user) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={getSafeRedirectPath(searchParams.get(AUTH_REDIRECT_PARAM))} replace />;
   }
 
   const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -0,0 +1,302 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys, useQuestions, useUserProgress, useCustomLists, useProgressCacheUpdater } from '@/hooks/use-tracker-queries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowDown, ArrowLeft, ArrowUp, Copy, Edit, Plus, Search, Trash2, X } from 'lucide-react';
+import { QuestionItem } from '@/components/QuestionItem';
+import { CustomListDialog } from '@/components/CustomListDialog';
+import { customListService } from '@/services/supabase';
+import { calculateQuestionSetProgress, getProgressIndex, getQuestionsByIds, searchQuestions } from '@/utils';
+import { CUSTOM_LISTS } from '@/constants';
+import type { CustomList } from '@/types';
+
+const getShareLink = (shareToken: string) => `${window.location.origin}/lists/shared/${shareToken}`;
+
+const CustomListDetail = () => {
+  const { listId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const listsQuery = useCustomLists(user?.id);
+  const handleProgressUpdate = useProgressCacheUpdater(user?.id);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const questions = questionsQuery.data ?? [];
+  const userProgress = progressQuery.data ?? [];
+  const list = listsQuery.data?.find(l => l.id === listId);
+  const loading = questionsQuery.isLoading || progressQuery.isLoading || listsQuery.isLoading;
+
+  useEffect(() => {
+    const error = questionsQuery.error || progressQuery.error || listsQuery.error;
+    if (error) {
+      console.error('Error fetching list:', error);
+    }
+  }, [questionsQuery.error, progressQuery.error, listsQuery.error]);
+
+  const updateCachedList = (updates: Partial<CustomList>) => {
+    queryClient.setQueryData<CustomList[]>(queryKeys.customLists(user.id), (prev) =>
+      prev?.map(l => l.id === listId ? { ...l, ...updates } : l)
+    );
+  };
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your list...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!list) {
+    return (
+      <div className="container max-w-3xl mx-auto px-4 py-12 text-center space-y-4">
+        <h1 className="text-2xl font-bold">List not found</h1>
+        <p className="text-muted-foreground">It may have been deleted.</p>
+        <Button asChild variant="outline">
+          <Link to="/lists">Back to my lists</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const listQuestions = getQuestionsByIds(list.question_ids, questions);
+  const progress = calculateQuestionSetProgress(listQuestions, userProgress);
+  const progressIndex = getProgressIndex(userProgress);
+  const searchResults = searchTerm.trim()
+    ? searchQuestions(questions, searchTerm)
+        .filter(q => !list.question_ids.includes(q.id))
+        .slice(0, CUSTOM_LISTS.SEARCH_RESULT_LIMIT)
+    : [];
+
+  const handleAddQuestion = async (questionId: string) => {
+    try {
+      const result = await customListService.addQuestion(list.id, questionId, list.question_ids.length);
+      if (result.error) throw result.error;
+      updateCachedList({ question_ids: [...list.question_ids, questionId] });
+    } catch (error) {
+      showError('Failed to add question to the list.', error);
+    }
+  };
+
+  const handleRemoveQuestion = async (questionId: string) => {
+    try {
+      const result = await customListService.removeQuestion(list.id, questionId);
+      if (result.error) throw result.error;
+      updateCachedList({ question_ids: list.question_ids.filter(id => id !== questionId) });
+    } catch (error) {
+      showError('Failed to remove question from the list.', error);
+    }
+  };
+
+  // Moves a question one place up or down, saving the whole order
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const reordered = listQuestions.map(q => q.id);
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    updateCachedList({ question_ids: reordered });
+
+    const result = await customListService.reorderQuestions(list.id, reordered);
+    if (result.error) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customLists(user.id) });
+      showError('Failed to save the new order.', result.error);
+    }
+  };
+
+  const handleShareChange = async (shared: boolean) => {
+    try {
+      const { data, error } = await customListService.setShared(list.id, shared);
+      if (error) throw error;
+      updateCachedList({ share_token: data.share_token });
+    } catch (error) {
+      showError('Failed to update sharing.', error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(getShareLink(list.share_token));
+    toast({
+      title: "Copied",
+      description: "Share link copied to clipboard.",
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${list.name}? Anyone with its share link will lose access.`)) {
+      return;
+    }
+
+    try {
+      const result = await customListService.deleteList(list.id);
+      if (result.error) throw result.error;
+      queryClient.invalidateQueries({ queryKey: queryKeys.customLists(user.id) });
+      navigate('/lists');
+    } catch (error) {
+      showError('Failed to delete the list.', error);
+    }
+  };
+
+  return (
+    <div className="container max-w-5xl mx-auto space-y-8 px-4 py-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link to="/lists">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          My lists
+        </Link>
+      </Button>
+
+      {/* List Summary */}
+      <Card className="border-0 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle className="text-2xl">{list.name}</CardTitle>
+              {list.description && <CardDescription className="whitespace-pre-line">{list.description}</CardDescription>}
+            </div>
+            <div className="flex space-x-2 shrink-0">
+              <CustomListDialog userId={user.id} list={list}>
+                <Button size="sm" variant="outline" aria-label="Edit list">
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </CustomListDialog>
+              <Button size="sm" variant="outline" onClick={handleDelete} aria-label="Delete list">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="pt-4 space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{progress.completed} of {progress.total} completed</span>
+              <span className="font-semibold text-primary">{progress.percentage}%</span>
+            </div>
+            <Progress value={progress.percentage} className="h-2" />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Switch id="shareList" checked={Boolean(list.share_token)} onCheckedChange={handleShareChange} />
+            <Label htmlFor="shareList">Share a read-only link with classmates</Label>
+          </div>
+          {list.share_token && (
+            <div className="flex space-x-2">
+              <Input readOnly value={getShareLink(list.share_token)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={handleCopyLink} aria-label="Copy share link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Questions */}
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Search any sheet to add questions..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        {searchTerm.trim() && (
+          <Card>
+            <CardContent className="p-2">
+              {searchResults.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-3">No matching questions to add.</p>
+              ) : (
+                searchResults.map(question => (
+                  <div key={question.id} className="flex items-center justify-between rounded-md px-3 py-2 hover:bg-muted/50">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{question.title}</p>
+                      <p className="text-xs text-muted-foreground">{question.topic} · {question.difficulty}</p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => handleAddQuestion(question.id)} aria-label="Add to list">
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* List Questions */}
+      {listQuestions.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          This list is empty. Search above, or use the list button on any question.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {listQuestions.map((question, index) => (
+            <div key={question.id} className="flex items-start gap-2">
+              <div className="flex flex-col pt-2">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  disabled={index === 0}
+                  onClick={() => handleMove(index, -1)}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  disabled={index === listQuestions.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="flex-1 min-w-0">
+                <QuestionItem
+                  question={question}
+                  progress={progressIndex.get(question.id)}
+                  userId={user.id}
+                  onProgressUpdate={handleProgressUpdate}
+                />
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 mt-2"
+                onClick={() => handleRemoveQuestion(question.id)}
+                aria-label="Remove from list"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomListDetail;
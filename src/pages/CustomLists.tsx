@@ -0,0 +1,108 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import { useQuestions, useUserProgress, useCustomLists } from '@/hooks/use-tracker-queries';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ListChecks, Plus, Share2 } from 'lucide-react';
+import { CustomListDialog } from '@/components/CustomListDialog';
+import { calculateQuestionSetProgress, getQuestionsByIds } from '@/utils';
+
+const CustomLists = () => {
+  const { user } = useAuth();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const listsQuery = useCustomLists(user?.id);
+
+  const questions = questionsQuery.data ?? [];
+  const userProgress = progressQuery.data ?? [];
+  const lists = listsQuery.data ?? [];
+  const loading = questionsQuery.isLoading || progressQuery.isLoading || listsQuery.isLoading;
+
+  useEffect(() => {
+    const error = questionsQuery.error || progressQuery.error || listsQuery.error;
+    if (error) {
+      console.error('Error fetching lists:', error);
+    }
+  }, [questionsQuery.error, progressQuery.error, listsQuery.error]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your lists...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-7xl mx-auto space-y-8 px-4 py-6">
+      {/* Hero Section */}
+      <div className="text-center space-y-4 py-8">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
+          My Lists
+        </h1>
+        <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+          Collect questions from any sheet into your own lists, and share them with classmates
+        </p>
+        <CustomListDialog userId={user.id}>
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            New List
+          </Button>
+        </CustomListDialog>
+      </div>
+
+      {lists.length === 0 ? (
+        <Card className="border-0 bg-card/50 backdrop-blur-sm">
+          <CardHeader className="text-center py-12">
+            <ListChecks className="h-10 w-10 mx-auto text-muted-foreground" />
+            <CardTitle className="text-lg">No lists yet</CardTitle>
+            <CardDescription>
+              Create a list, then add questions to it from the list button on any question.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {lists.map(list => {
+            const progress = calculateQuestionSetProgress(getQuestionsByIds(list.question_ids, questions), userProgress);
+            return (
+              <Link key={list.id} to={`/lists/${list.id}`}>
+                <Card className="group h-full hover:shadow-lg transition-all duration-300 border-0 bg-card/50 backdrop-blur-sm">
+                  <CardHeader className="space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-lg group-hover:text-primary transition-colors">{list.name}</CardTitle>
+                      {list.share_token && (
+                        <Badge variant="outline" className="shrink-0">
+                          <Share2 className="h-3 w-3 mr-1" />
+                          Shared
+                        </Badge>
+                      )}
+                    </div>
+                    {list.description && (
+                      <CardDescription className="line-clamp-2">{list.description}</CardDescription>
+                    )}
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{progress.completed} of {progress.total} completed</span>
+                        <span className="font-semibold text-primary">{progress.percentage}%</span>
+                      </div>
+                      <Progress value={progress.percentage} className="h-2" />
+                    </div>
+                  </CardHeader>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomLists;
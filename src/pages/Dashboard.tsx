@@ -1,133 +1,95 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import { queryKeys, useAssignedContent, useUserProgress, useUserCohort, useStreakSettings, useStreakData, useProgressCacheUpdater, useRealtimeQuestions, useRealtimeProgress } from '@/hooks/use-tracker-queries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { ChevronRight, BookOpen, Target } from 'lucide-react';
+import { ChevronRight, BookOpen, Target, CalendarClock, GraduationCap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { QuestionItem } from '@/components/QuestionItem';
+import { VirtualList } from '@/components/VirtualList';
 import { ProgressStats } from '@/components/ProgressStats';
 import { SearchAndFilter } from '@/components/SearchAndFilter';
 import { ProgressCharts } from '@/components/ProgressCharts';
 import { AdvancedFeatures } from '@/components/AdvancedFeatures';
-import { sheetService, questionService, progressService, realtimeService } from '@/services/supabase';
-import { calculateTopicProgress, getUniqueTopics } from '@/utils';
-import type { Sheet, Question, UserProgress } from '@/types';
+import { JoinCohortCard } from '@/components/JoinCohortCard';
+import { GoalsCard } from '@/components/GoalsCard';
+import { UpNextCard } from '@/components/UpNextCard';
+import { StudyPlanCard } from '@/components/StudyPlanCard';
+import { computeProgressAggregates, getProgressIndex, getSheetDeadline, formatDeadlineCountdown, formatDateForDisplay } from '@/utils';
+import { USER_ROLES, DASHBOARD_VIEW_STATE } from '@/constants';
+import type { Question, UserProgress } from '@/types';
+
+// Stable fallbacks so memoized values do not change while queries load
+const EMPTY_PROGRESS: UserProgress[] = [];
+
+const loadOpenTopics = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(DASHBOARD_VIEW_STATE.OPEN_TOPICS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
 
 const Dashboard = () => {
   const { user } = useAuth();
-  const [sheets, setSheets] = useState<Sheet[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
+  const queryClient = useQueryClient();
+  const content = useAssignedContent(user?.id);
+  const progressQuery = useUserProgress(user?.id);
+  const cohortQuery = useUserCohort(user?.id);
+  const handleProgressUpdate = useProgressCacheUpdater(user?.id);
+  const streakSettings = useStreakSettings(user?.id);
   const [filteredQuestions, setFilteredQuestions] = useState<Question[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [openTopics, setOpenTopics] = useState<string[]>(loadOpenTopics);
 
-  const fetchData = useCallback(async () => {
-    if (!user) return;
+  // Students in a cohort only see the sheets and topics assigned to it
+  const { sheets, questions, assignments } = content;
+  const userProgress = progressQuery.data ?? EMPTY_PROGRESS;
+  const streakData = useStreakData(user?.id, userProgress);
+  const profile = cohortQuery.data?.profile ?? null;
+  const cohort = cohortQuery.data?.cohort ?? null;
+  const loading = content.loading || progressQuery.isLoading;
 
-    setLoading(true);
-    try {
-      const [sheetsResult, questionsResult, progressResult] = await Promise.all([
-        sheetService.getAllSheets(),
-        questionService.getAllQuestions(),
-        progressService.getUserProgress(user.id)
-      ]);
+  // Expanded topics and the scroll offset survive navigating away and back
+  useScrollRestoration(DASHBOARD_VIEW_STATE.SCROLL_KEY, !loading);
 
-      if (sheetsResult.error) throw sheetsResult.error;
-      if (questionsResult.error) throw questionsResult.error;
-      if (progressResult.error) throw progressResult.error;
+  useEffect(() => {
+    sessionStorage.setItem(DASHBOARD_VIEW_STATE.OPEN_TOPICS_KEY, JSON.stringify(openTopics));
+  }, [openTopics]);
 
-      setSheets(sheetsResult.data || []);
-      setQuestions(questionsResult.data || []);
-      setUserProgress(progressResult.data || []);
-      setFilteredQuestions(questionsResult.data || []);
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+  const toggleTopic = (topicKey: string, open: boolean) => {
+    setOpenTopics(prev => open ? [...prev, topicKey] : prev.filter(key => key !== topicKey));
+  };
 
   useEffect(() => {
-    if (user) {
-      fetchData();
+    const error = content.error || progressQuery.error;
+    if (error) {
+      console.error('Error fetching dashboard data:', error);
     }
-  }, [user, fetchData]);
-
-  // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
-
-    console.log('Setting up real-time subscriptions for dashboard');
-
-    const questionsSubscription = realtimeService.subscribeToQuestions((payload) => {
-      console.log('Questions changed in dashboard:', payload);
-      fetchData();
-    });
-
-    const progressSubscription = realtimeService.subscribeToUserProgress((payload) => {
-      console.log('User progress changed in dashboard:', payload);  
-      fetchData();
-    });
-
-    return () => {
-      console.log('Cleaning up dashboard subscriptions');
-      realtimeService.unsubscribe(questionsSubscription);
-      realtimeService.unsubscribe(progressSubscription);
-    };
-  }, [user, fetchData]);
+  }, [content.error, progressQuery.error]);
 
-  const handleProgressUpdate = useCallback(async (questionId: string, updates: Partial<UserProgress>) => {
-    if (!user) return;
+  // Realtime changes update single rows in the shared cache
+  useRealtimeQuestions();
+  useRealtimeProgress(user?.id);
 
-    try {
-      const result = await progressService.updateProgress(user.id, questionId, updates);
-      if (result.error) throw result.error;
-
-      // Update local state
-      setUserProgress(prev => {
-        const existingIndex = prev.findIndex(p => p.question_id === questionId);
-        if (existingIndex >= 0) {
-          const updated = [...prev];
-          updated[existingIndex] = { ...updated[existingIndex], ...updates };
-          return updated;
-        } else {
-          return [...prev, result.data];
-        }
-      });
-    } catch (error) {
-      console.error('Error updating progress:', error);
-    }
-  }, [user]);
-
-  const handleFilteredQuestionsChange = (filtered: Question[]) => {
-    setFilteredQuestions(filtered);
+  const handleCohortJoined = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.userCohort(user.id) });
   };
 
   const handleSortChange = (sortBy: string, sortOrder: 'asc' | 'desc') => {
     // Sorting is handled in SearchAndFilter component
   };
 
-  const getSheetProgress = (sheetId: string) => {
-    const sheetQuestions = filteredQuestions.filter(q => q.sheet_id === sheetId);
-    const completedQuestions = sheetQuestions.filter(q => 
-      userProgress.some(p => p.question_id === q.id && p.completed)
-    );
-    return {
-      total: sheetQuestions.length,
-      completed: completedQuestions.length,
-      percentage: sheetQuestions.length > 0 ? Math.round((completedQuestions.length / sheetQuestions.length) * 100) : 0
-    };
-  };
-
-  const getTopicProgress = (sheetId: string, topic: string) => {
-    return calculateTopicProgress(
-      filteredQuestions.filter(q => q.sheet_id === sheetId),
-      userProgress,
-      topic
-    );
-  };
+  // Sheet and topic progress for the filtered view, computed in a single pass
+  const aggregates = useMemo(
+    () => computeProgressAggregates(filteredQuestions, userProgress),
+    [filteredQuestions, userProgress]
+  );
+  const progressIndex = getProgressIndex(userProgress);
+  const emptyProgress = { total: 0, completed: 0, percentage: 0 };
 
   if (loading) {
     return (
@@ -153,16 +115,37 @@ const Dashboard = () => {
           </p>
         </div>
 
+        {/* Cohort */}
+        {profile?.role === USER_ROLES.STUDENT && !cohort && (
+          <JoinCohortCard onJoined={handleCohortJoined} />
+        )}
+        {cohort && (
+          <div className="flex items-center justify-center space-x-2 text-sm text-muted-foreground">
+            <GraduationCap className="h-4 w-4" />
+            <span>{cohort.name}</span>
+            {assignments.length > 0 && <span>- {assignments.length} assigned sheets</span>}
+          </div>
+        )}
+
         {/* Stats Overview */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
-            <ProgressStats questions={questions} userProgress={userProgress} />
+            <ProgressStats questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
           </div>
           <div className="space-y-6">
-            <AdvancedFeatures questions={questions} userProgress={userProgress} />
+            <AdvancedFeatures questions={questions} userProgress={userProgress} streakSettings={streakSettings} streakData={streakData} showStreakSettings />
           </div>
         </div>
 
+        {/* Recommended Questions */}
+        {user && <UpNextCard sheets={sheets} questions={questions} userProgress={userProgress} userId={user.id} />}
+
+        {/* Study Plan */}
+        {user && <StudyPlanCard sheets={sheets} questions={questions} userProgress={userProgress} userId={user.id} />}
+
+        {/* Goals */}
+        <GoalsCard sheets={sheets} questions={questions} userProgress={userProgress} />
+
         {/* Practice Controls */}
         <div className="space-y-6">
           <div className="flex items-center space-x-2">
@@ -173,7 +156,7 @@ const Dashboard = () => {
             <SearchAndFilter 
               questions={questions}
               userProgress={userProgress}
-              onFilteredQuestionsChange={handleFilteredQuestionsChange}
+              onFilteredQuestionsChange={setFilteredQuestions}
               onSortChange={handleSortChange}
             />
           </div>
@@ -182,7 +165,9 @@ const Dashboard = () => {
         {/* Practice Sheets */}
         <div className="space-y-6">
           {sheets.map((sheet, index) => {
-            const progress = getSheetProgress(sheet.id);
+            const progress = aggregates.sheets[sheet.id] ?? emptyProgress;
+            const deadline = getSheetDeadline(assignments.find(a => a.sheet_id === sheet.id)?.due_date);
+            const isOverdue = deadline?.isOverdue && progress.completed < progress.total;
             return (
               <Card key={sheet.id} className="group hover:shadow-lg transition-all duration-300 border-0 bg-card/50 backdrop-blur-sm">
                 <CardHeader className="pb-4">
@@ -195,6 +180,18 @@ const Dashboard = () => {
                         <CardTitle className="text-xl group-hover:text-primary transition-colors">
                           {sheet.title}
                         </CardTitle>
+                        {deadline && (
+                          <Badge
+                            variant={isOverdue ? 'destructive' : 'outline'}
+                            className="text-xs"
+                            title={`Due ${formatDateForDisplay(deadline.dueDate)}`}
+                          >
+                            <CalendarClock className="h-3 w-3 mr-1" />
+                            {progress.completed >= progress.total && progress.total > 0
+                              ? 'Completed'
+                              : formatDeadlineCountdown(deadline)}
+                          </Badge>
+                        )}
                         <CardDescription className="text-sm leading-relaxed">
                           {sheet.description}
                         </CardDescription>
@@ -214,12 +211,16 @@ const Dashboard = () => {
                 <CardContent className="pt-0">
                   <div className="space-y-3">
                     {/* Show questions grouped by their actual topics instead of predefined sheet topics */}
-                    {[...new Set(filteredQuestions.filter(q => q.sheet_id === sheet.id).map(q => q.topic))].map((topic) => {
-                      const topicProgress = getTopicProgress(sheet.id, topic);
+                    {Object.values(aggregates.sheetTopics[sheet.id] ?? {}).map((topicProgress) => {
+                      const topic = topicProgress.topic;
                       const topicQuestions = filteredQuestions.filter(q => q.sheet_id === sheet.id && q.topic === topic);
                       
                       return (
-                        <Collapsible key={topic} defaultOpen={false} className="group data-[state=open]:bg-muted/30 rounded-lg transition-all">
+                        <Collapsible
+                          key={topic}
+                          open={openTopics.includes(`${sheet.id}:${topic}`)}
+                          onOpenChange={(open) => toggleTopic(`${sheet.id}:${topic}`, open)}
+                          className="group data-[state=open]:bg-muted/30 rounded-lg transition-all">
                           <CollapsibleTrigger className="w-full">
                             <Button 
                               variant="ghost" 
@@ -246,20 +247,19 @@ const Dashboard = () => {
                             </Button>
                           </CollapsibleTrigger>
                           <CollapsibleContent className="px-4 pb-2">
-                            <div className="space-y-2 mt-3 pl-12">
-                              {topicQuestions.map((question) => {
-                                const questionProgress = userProgress.find(p => p.question_id === question.id);
-                                return (
-                                  <QuestionItem
-                                    key={question.id}
-                                    question={question}
-                                    progress={questionProgress}
-                                    userId={user?.id || ''}
-                                    onProgressUpdate={handleProgressUpdate}
-                                  />
-                                );
-                              })}
-                            </div>
+                            <VirtualList
+                              className="mt-3 pl-12"
+                              items={topicQuestions}
+                              getKey={(question) => question.id}
+                              renderItem={(question) => (
+                                <QuestionItem
+                                  question={question}
+                                  progress={progressIndex.get(question.id)}
+                                  userId={user?.id || ''}
+                                  onProgressUpdate={handleProgressUpdate}
+                                />
+                              )}
+                            />
                           </CollapsibleContent>
                         </Collapsible>
                       );
@@ -0,0 +1,21 @@
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const Forbidden = () => {
+  return (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center">
+        <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h1 className="text-4xl font-bold mb-2">403</h1>
+        <h2 className="text-2xl font-bold mb-4">Access Denied</h2>
+        <p className="text-muted-foreground mb-6">You don't have permission to view this page.</p>
+        <Button asChild>
+          <Link to="/">Go to Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -0,0 +1,261 @@
+import { useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { usePracticeTimer } from '@/hooks/use-practice-timer';
+import { useMockInterview } from '@/hooks/use-mock-interview';
+import { useSheets, useQuestions, useUserProgress, useUserCohort, useRecordMockInterview } from '@/hooks/use-tracker-queries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Clock, ExternalLink, Flag } from 'lucide-react';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { MockInterviewSetup } from '@/components/MockInterviewSetup';
+import { buildMockInterviewResult, getMockScore, getQuestionSpentMs, getRemainingMs } from '@/utils/mockInterview';
+import { filterAssignedContent, formatTime, getDifficultyBadgeVariant } from '@/utils';
+import { MOCK_ASSESSMENTS } from '@/constants';
+import type { CohortSheet, MockInterviewConfig } from '@/types';
+
+const EMPTY_ASSIGNMENTS: CohortSheet[] = [];
+const LOW_TIME_MS = 5 * 60 * 1000;
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60).toString().padStart(2, '0');
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const MockInterview = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { timer, stop } = usePracticeTimer();
+  const { mock, now, start, goTo, finish, assess, discard } = useMockInterview(user?.id);
+  const sheetsQuery = useSheets();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const cohortQuery = useUserCohort(user?.id);
+  const recordMutation = useRecordMockInterview(user?.id);
+
+  const assignments = cohortQuery.data?.assignments ?? EMPTY_ASSIGNMENTS;
+  const loading = sheetsQuery.isLoading || questionsQuery.isLoading || progressQuery.isLoading || cohortQuery.isLoading;
+
+  // Mocks draw from the same sheets and topics the dashboard shows
+  const { sheets, questions } = useMemo(
+    () => filterAssignedContent(sheetsQuery.data ?? [], questionsQuery.data ?? [], assignments),
+    [sheetsQuery.data, questionsQuery.data, assignments]
+  );
+  const questionsById = useMemo(() => new Map((questionsQuery.data ?? []).map(q => [q.id, q])), [questionsQuery.data]);
+
+  useEffect(() => {
+    const error = sheetsQuery.error || questionsQuery.error || progressQuery.error || cohortQuery.error;
+    if (error) {
+      console.error('Error fetching mock interview data:', error);
+    }
+  }, [sheetsQuery.error, questionsQuery.error, progressQuery.error, cohortQuery.error]);
+
+  const handleStart = async (config: MockInterviewConfig, questionIds: string[]) => {
+    // The mock keeps its own per-question time, so a running practice timer is saved first
+    if (timer) await stop();
+    start(config, questionIds);
+  };
+
+  const handleFinish = () => {
+    if (!confirm('Finish the mock now? You will not be able to return to the questions.')) {
+      return;
+    }
+    finish();
+  };
+
+  const handleDiscard = () => {
+    if (!confirm('Discard this mock? Nothing from it will be saved.')) {
+      return;
+    }
+    discard();
+  };
+
+  const handleSave = async () => {
+    const result = buildMockInterviewResult(mock);
+    try {
+      await recordMutation.mutateAsync(result);
+      toast({
+        title: "Mock interview saved",
+        description: `You scored ${result.score}%.`,
+      });
+      discard();
+      navigate('/analytics');
+    } catch (error) {
+      console.error('Error saving mock interview:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the mock interview. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading mock interview...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!mock) {
+    return (
+      <div className="container max-w-4xl mx-auto space-y-8 px-4 py-6">
+        {/* Hero Section */}
+        <div className="text-center space-y-4 py-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
+            Mock Interview
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Work through a timed set of questions under interview conditions, then score yourself
+          </p>
+        </div>
+        <MockInterviewSetup
+          sheets={sheets}
+          questions={questions}
+          userProgress={progressQuery.data ?? []}
+          onStart={handleStart}
+        />
+      </div>
+    );
+  }
+
+  const remainingMs = getRemainingMs(mock, now);
+
+  if (mock.endedAt === null) {
+    const question = questionsById.get(mock.questionIds[mock.currentIndex]);
+
+    return (
+      <div className="container max-w-4xl mx-auto space-y-6 px-4 py-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Clock className={`h-6 w-6 ${remainingMs < LOW_TIME_MS ? 'text-red-600' : 'text-primary'}`} />
+            <span className={`text-3xl font-mono font-bold ${remainingMs < LOW_TIME_MS ? 'text-red-600' : ''}`}>
+              {formatCountdown(remainingMs)}
+            </span>
+          </div>
+          <Button variant="outline" onClick={handleFinish}>
+            <Flag className="h-4 w-4 mr-2" />
+            Finish
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {mock.questionIds.map((id, index) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={index === mock.currentIndex ? 'default' : 'outline'}
+              onClick={() => goTo(index)}
+            >
+              {index + 1}
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-2">
+                <CardDescription>Question {mock.currentIndex + 1} of {mock.questionIds.length}</CardDescription>
+                <CardTitle className="text-2xl">{question?.title ?? 'Question removed'}</CardTitle>
+                {question && (
+                  <Badge variant={getDifficultyBadgeVariant(question.difficulty)}>{question.difficulty}</Badge>
+                )}
+              </div>
+              <span className="text-sm text-muted-foreground shrink-0">
+                {formatTime(Math.floor(getQuestionSpentMs(mock, mock.currentIndex, now) / 1000))} on this question
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {question?.description ? (
+              <MarkdownContent content={question.description} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No description; open the problem to read it.</p>
+            )}
+            {question?.solve_url && (
+              <Button variant="outline" asChild>
+                <a href={question.solve_url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open problem
+                </a>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const allAssessed = mock.assessments.every(a => a !== null);
+
+  return (
+    <div className="container max-w-4xl mx-auto space-y-6 px-4 py-6">
+      <div className="text-center space-y-2 py-4">
+        <h1 className="text-3xl font-bold">How did it go?</h1>
+        <p className="text-muted-foreground">
+          {remainingMs === 0 ? 'Time is up. ' : ''}
+          Used {formatTime(Math.floor((mock.endedAt - mock.startedAt) / 1000))} of {mock.config.timeLimitMinutes} minutes.
+          Rate each question honestly; solved ones are marked complete and the rest go to your revision queue.
+        </p>
+        {allAssessed && (
+          <div className="text-4xl font-bold text-primary pt-2">{getMockScore(mock.assessments)}%</div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {mock.questionIds.map((id, index) => {
+          const question = questionsById.get(id);
+          return (
+            <Card key={id} className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{index + 1}. {question?.title ?? 'Question removed'}</p>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                    {question && (
+                      <Badge variant={getDifficultyBadgeVariant(question.difficulty)} className="text-xs">
+                        {question.difficulty}
+                      </Badge>
+                    )}
+                    <span>{formatTime(Math.floor(mock.spentMs[index] / 1000))}</span>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {MOCK_ASSESSMENTS.map(option => (
+                    <Button
+                      key={option.value}
+                      size="sm"
+                      variant={mock.assessments[index] === option.value ? 'default' : 'outline'}
+                      onClick={() => assess(index, option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={handleDiscard} disabled={recordMutation.isPending}>
+          Discard
+        </Button>
+        <Button onClick={handleSave} disabled={!allAssessed || recordMutation.isPending}>
+          {recordMutation.isPending ? 'Saving...' : 'Save Results'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MockInterview;
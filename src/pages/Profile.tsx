@@ -0,0 +1,139 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useUserCohort, useUserProgress, useUserAchievements, useStreakData } from '@/hooks/use-tracker-queries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Award, BookmarkCheck, CheckCircle, Flame, GraduationCap, Layers, Lock, Mountain, Trophy, Zap, type LucideIcon } from 'lucide-react';
+import { formatDateForDisplay } from '@/utils';
+import { ACHIEVEMENTS, ROLE_OPTIONS } from '@/constants';
+import type { AchievementCriterion } from '@/types';
+
+const CRITERION_ICONS: Record<AchievementCriterion['type'], LucideIcon> = {
+  solved_difficulty: Mountain,
+  streak_days: Flame,
+  topics_completed: Trophy,
+  sheets_completed: Layers,
+  solved_in_a_day: Zap,
+  revision_queue_cleared: BookmarkCheck
+};
+
+const Profile = () => {
+  const { user } = useAuth();
+  const cohortQuery = useUserCohort(user?.id);
+  const progressQuery = useUserProgress(user?.id);
+  const achievementsQuery = useUserAchievements(user?.id);
+
+  const userProgress = progressQuery.data ?? [];
+  const streakData = useStreakData(user?.id, userProgress);
+  const profile = cohortQuery.data?.profile ?? null;
+  const cohort = cohortQuery.data?.cohort ?? null;
+  const unlockedAt = new Map((achievementsQuery.data ?? []).map(a => [a.achievement_id, a.unlocked_at]));
+  const unlockedCount = ACHIEVEMENTS.filter(a => unlockedAt.has(a.id)).length;
+  const loading = cohortQuery.isLoading || progressQuery.isLoading || achievementsQuery.isLoading;
+
+  useEffect(() => {
+    const error = cohortQuery.error || progressQuery.error || achievementsQuery.error;
+    if (error) {
+      console.error('Error fetching profile data:', error);
+    }
+  }, [cohortQuery.error, progressQuery.error, achievementsQuery.error]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-5xl mx-auto space-y-8 px-4 py-6">
+      {/* Profile Summary */}
+      <Card className="border-0 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle className="text-2xl">{profile?.name || user?.email}</CardTitle>
+              <CardDescription>{profile?.email}</CardDescription>
+              <div className="flex items-center gap-2 pt-1">
+                {profile && (
+                  <Badge variant="secondary">
+                    {ROLE_OPTIONS.find(option => option.value === profile.role)?.label ?? profile.role}
+                  </Badge>
+                )}
+                {cohort && (
+                  <span className="flex items-center text-sm text-muted-foreground">
+                    <GraduationCap className="h-4 w-4 mr-1" />
+                    {cohort.name}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-6 text-center">
+              <div>
+                <div className="text-2xl font-bold">{userProgress.filter(p => p.completed).length}</div>
+                <p className="text-xs text-muted-foreground flex items-center justify-center">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Solved
+                </p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-orange-500">{streakData.currentStreak}</div>
+                <p className="text-xs text-muted-foreground">Current streak</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{streakData.longestStreak}</div>
+                <p className="text-xs text-muted-foreground">Longest streak</p>
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {/* Achievements */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Award className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Achievements</h2>
+          </div>
+          <span className="text-sm text-muted-foreground">
+            {unlockedCount} of {ACHIEVEMENTS.length} unlocked
+          </span>
+        </div>
+        <Progress value={(unlockedCount / ACHIEVEMENTS.length) * 100} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {ACHIEVEMENTS.map(achievement => {
+            const earnedAt = unlockedAt.get(achievement.id);
+            const Icon = earnedAt ? CRITERION_ICONS[achievement.criterion.type] : Lock;
+
+            return (
+              <Card key={achievement.id} className={earnedAt ? 'border-primary/40' : 'opacity-60'}>
+                <CardContent className="flex items-start space-x-4 p-4">
+                  <div className={`h-10 w-10 shrink-0 rounded-full flex items-center justify-center ${
+                    earnedAt ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
+                  }`}>
+                    <Icon className="h-5 w-5" />
+                  </div>
+                  <div className="space-y-1">
+                    <p className="font-medium">{achievement.title}</p>
+                    <p className="text-sm text-muted-foreground">{achievement.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {earnedAt ? `Unlocked ${formatDateForDisplay(earnedAt)}` : 'Locked'}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
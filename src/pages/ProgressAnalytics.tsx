@@ -1,44 +1,35 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useEffect } from 'react';
 import { useAuth } from '@/hooks/use-auth';
+import { useSheets, useQuestions, useUserProgress, usePracticeSessions, useUserCohort, useStreakSettings, useStreakData } from '@/hooks/use-tracker-queries';
 import { ProgressCharts } from '@/components/ProgressCharts';
 import { ProgressStats } from '@/components/ProgressStats';
 import { AdvancedFeatures } from '@/components/AdvancedFeatures';
-import { questionService, progressService } from '@/services/supabase';
-import type { Question, UserProgress } from '@/types';
+import { ActivityHeatmap } from '@/components/ActivityHeatmap';
+import { MockInterviewHistory } from '@/components/MockInterviewHistory';
+import { ProgressExportMenu } from '@/components/ProgressExportMenu';
 
 const ProgressAnalytics = () => {
   const { user } = useAuth();
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
-  const [loading, setLoading] = useState(true);
+  const sheetsQuery = useSheets();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const sessionsQuery = usePracticeSessions(user?.id);
+  const cohortQuery = useUserCohort(user?.id);
+  const streakSettings = useStreakSettings(user?.id);
 
-  const fetchData = useCallback(async () => {
-    if (!user) return;
-
-    setLoading(true);
-    try {
-      const [questionsResult, progressResult] = await Promise.all([
-        questionService.getAllQuestions(),
-        progressService.getUserProgress(user.id)
-      ]);
-
-      if (questionsResult.error) throw questionsResult.error;
-      if (progressResult.error) throw progressResult.error;
-
-      setQuestions(questionsResult.data || []);
-      setUserProgress(progressResult.data || []);
-    } catch (error) {
-      console.error('Error fetching progress analytics data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+  const sheets = sheetsQuery.data ?? [];
+  const questions = questionsQuery.data ?? [];
+  const userProgress = progressQuery.data ?? [];
+  const streakData = useStreakData(user?.id, userProgress);
+  const sessions = sessionsQuery.data ?? [];
+  const loading = sheetsQuery.isLoading || questionsQuery.isLoading || progressQuery.isLoading || sessionsQuery.isLoading;
 
   useEffect(() => {
-    if (user) {
-      fetchData();
+    const error = sheetsQuery.error || questionsQuery.error || progressQuery.error || sessionsQuery.error;
+    if (error) {
+      console.error('Error fetching progress analytics data:', error);
     }
-  }, [user, fetchData]);
+  }, [sheetsQuery.error, questionsQuery.error, progressQuery.error, sessionsQuery.error]);
 
   if (loading) {
     return (
@@ -62,18 +53,31 @@ const ProgressAnalytics = () => {
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
             Deep insights into your learning journey with comprehensive data visualization and performance metrics
           </p>
+          <ProgressExportMenu
+            profile={cohortQuery.data?.profile ?? null}
+            sheets={sheets}
+            questions={questions}
+            userProgress={userProgress}
+            showReport
+          />
         </div>
 
         {/* Overview Stats */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
-            <ProgressStats questions={questions} userProgress={userProgress} />
+            <ProgressStats questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
           </div>
           <div>
-            <AdvancedFeatures questions={questions} userProgress={userProgress} />
+            <AdvancedFeatures questions={questions} userProgress={userProgress} streakSettings={streakSettings} streakData={streakData} showStreakSettings />
           </div>
         </div>
 
+        {/* Daily Consistency */}
+        <ActivityHeatmap questions={questions} userProgress={userProgress} sessions={sessions} streakSettings={streakSettings} />
+
+        {/* Mock Interviews */}
+        <MockInterviewHistory userId={user.id} />
+
         {/* Detailed Analytics */}
         <div className="space-y-6">
           <div className="text-center space-y-2">
@@ -86,7 +90,7 @@ const ProgressAnalytics = () => {
           </div>
           
           <div className="bg-gradient-to-br from-card/80 to-card/40 backdrop-blur-sm border rounded-2xl p-6">
-            <ProgressCharts questions={questions} userProgress={userProgress} />
+            <ProgressCharts questions={questions} userProgress={userProgress} sessions={sessions} streakSettings={streakSettings} />
         </div>
       </div>
     </div>
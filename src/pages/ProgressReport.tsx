@@ -0,0 +1,130 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import { useSheets, useQuestions, useUserProgress, usePracticeSessions, useUserCohort, useStreakSettings, useStreakData } from '@/hooks/use-tracker-queries';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { ProgressStats } from '@/components/ProgressStats';
+import { ProgressCharts } from '@/components/ProgressCharts';
+import { calculateQuestionSetProgress, formatDateForDisplay, formatTime } from '@/utils';
+
+// Printable summary of the signed-in student's progress; "Save as PDF" in the print dialog makes the PDF
+const ProgressReport = () => {
+  const { user } = useAuth();
+  const sheetsQuery = useSheets();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const sessionsQuery = usePracticeSessions(user?.id);
+  const cohortQuery = useUserCohort(user?.id);
+  const streakSettings = useStreakSettings(user?.id);
+
+  const sheets = sheetsQuery.data ?? [];
+  const questions = questionsQuery.data ?? [];
+  const userProgress = progressQuery.data ?? [];
+  const sessions = sessionsQuery.data ?? [];
+  const streakData = useStreakData(user?.id, userProgress);
+  const profile = cohortQuery.data?.profile ?? null;
+  const cohort = cohortQuery.data?.cohort ?? null;
+  const solvedCount = userProgress.filter(p => p.completed).length;
+  const totalTimeSpent = userProgress.reduce((sum, p) => sum + (p.time_spent || 0), 0);
+  const loading = sheetsQuery.isLoading || questionsQuery.isLoading || progressQuery.isLoading || sessionsQuery.isLoading || cohortQuery.isLoading;
+
+  useEffect(() => {
+    const error = sheetsQuery.error || questionsQuery.error || progressQuery.error || sessionsQuery.error || cohortQuery.error;
+    if (error) {
+      console.error('Error fetching progress report data:', error);
+    }
+  }, [sheetsQuery.error, questionsQuery.error, progressQuery.error, sessionsQuery.error, cohortQuery.error]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-5xl mx-auto space-y-8 px-4 py-6 print:max-w-none print:p-0">
+      <div className="flex items-center justify-between print:hidden">
+        <Button asChild variant="outline" size="sm">
+          <Link to="/analytics">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to analytics
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print or save as PDF
+        </Button>
+      </div>
+
+      {/* Report Header */}
+      <div className="space-y-1 border-b pb-6">
+        <h1 className="text-3xl font-bold">Progress Report</h1>
+        <p className="text-lg">{profile?.name || user?.email}</p>
+        <p className="text-sm text-muted-foreground">
+          {profile?.email}{cohort && ` · ${cohort.name}`} · Generated {formatDateForDisplay(new Date().toISOString())}
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+        <div className="rounded-lg border p-4">
+          <div className="text-2xl font-bold">{solvedCount}/{questions.length}</div>
+          <p className="text-xs text-muted-foreground">Questions solved</p>
+        </div>
+        <div className="rounded-lg border p-4">
+          <div className="text-2xl font-bold">{formatTime(totalTimeSpent)}</div>
+          <p className="text-xs text-muted-foreground">Time practised</p>
+        </div>
+        <div className="rounded-lg border p-4">
+          <div className="text-2xl font-bold">{streakData.currentStreak}</div>
+          <p className="text-xs text-muted-foreground">Current streak (days)</p>
+        </div>
+        <div className="rounded-lg border p-4">
+          <div className="text-2xl font-bold">{streakData.longestStreak}</div>
+          <p className="text-xs text-muted-foreground">Longest streak (days)</p>
+        </div>
+      </div>
+
+      {/* Sheets */}
+      <Card className="break-inside-avoid">
+        <CardHeader>
+          <CardTitle className="text-lg">Sheets</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {sheets.map(sheet => {
+            const sheetProgress = calculateQuestionSetProgress(questions.filter(q => q.sheet_id === sheet.id), userProgress);
+            return (
+              <div key={sheet.id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{sheet.title}</span>
+                  <span className="text-muted-foreground">
+                    {sheetProgress.completed}/{sheetProgress.total} · {sheetProgress.percentage}%
+                  </span>
+                </div>
+                <Progress value={sheetProgress.percentage} className="h-2" />
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Stats */}
+      <div className="break-inside-avoid">
+        <ProgressStats questions={questions} userProgress={userProgress} streakSettings={streakSettings} />
+      </div>
+
+      {/* Charts */}
+      <ProgressCharts questions={questions} userProgress={userProgress} sessions={sessions} streakSettings={streakSettings} />
+    </div>
+  );
+};
+
+export default ProgressReport;
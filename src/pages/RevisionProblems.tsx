@@ -1,91 +1,58 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useEffect } from 'react';
 import { useAuth } from '@/hooks/use-auth';
+import { useSheets, useQuestions, useUserProgress, useProgressCacheUpdater } from '@/hooks/use-tracker-queries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { BookmarkCheck, Clock, AlertCircle } from 'lucide-react';
+import { BookmarkCheck, Clock, AlertCircle, CalendarClock } from 'lucide-react';
 import { QuestionItem } from '@/components/QuestionItem';
-import { sheetService, questionService, progressService } from '@/services/supabase';
-import { getDifficultyColor, calculateCompletionRate } from '@/utils';
-import type { Sheet, Question, UserProgress } from '@/types';
+import { getDifficultyColor, calculateCompletionRate, getProgressIndex, isMarkedForRevision } from '@/utils';
+import { groupByRevisionQueue } from '@/utils/spacedRepetition';
+import type { Question, RevisionQueue } from '@/types';
+
+const QUEUE_SECTIONS: { queue: RevisionQueue; title: string; description: string; accent: string }[] = [
+  { queue: 'overdue', title: 'Overdue', description: 'Reviews you missed - tackle these first', accent: 'text-red-600' },
+  { queue: 'due', title: 'Due Today', description: 'Scheduled for review today', accent: 'text-orange-600' },
+  { queue: 'upcoming', title: 'Upcoming', description: 'Scheduled for a later day', accent: 'text-muted-foreground' }
+];
 
 const RevisionProblems = () => {
   const { user } = useAuth();
-  const [sheets, setSheets] = useState<Sheet[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [userProgress, setUserProgress] = useState<UserProgress[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  const fetchData = useCallback(async () => {
-    if (!user) return;
-
-    setLoading(true);
-    try {
-      const [sheetsResult, questionsResult, progressResult] = await Promise.all([
-        sheetService.getAllSheets(),
-        questionService.getAllQuestions(),
-        progressService.getRevisionQuestions(user.id)
-      ]);
+  const sheetsQuery = useSheets();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const handleProgressUpdate = useProgressCacheUpdater(user?.id);
 
-      if (sheetsResult.error) throw sheetsResult.error;
-      if (questionsResult.error) throw questionsResult.error;
-      if (progressResult.error) throw progressResult.error;
-
-      setSheets(sheetsResult.data || []);
-      setQuestions(questionsResult.data || []);
-      setUserProgress(progressResult.data || []);
-    } catch (error) {
-      console.error('Error fetching revision data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+  const sheets = sheetsQuery.data ?? [];
+  const questions = questionsQuery.data ?? [];
+  const loading = sheetsQuery.isLoading || questionsQuery.isLoading || progressQuery.isLoading;
+  // Shares the dashboard's progress cache; only rows marked for revision matter here
+  const userProgress = (progressQuery.data ?? []).filter(p => p.marked_for_revision);
 
   useEffect(() => {
-    if (user) {
-      fetchData();
-    }
-  }, [user, fetchData]);
-
-  const handleProgressUpdate = useCallback(async (questionId: string, updates: Partial<UserProgress>) => {
-    if (!user) return;
-
-    try {
-      const result = await progressService.updateProgress(user.id, questionId, updates);
-      if (result.error) throw result.error;
-
-      // Update local state
-      setUserProgress(prev => {
-        const existingIndex = prev.findIndex(p => p.question_id === questionId);
-        if (existingIndex >= 0) {
-          const updated = [...prev];
-          updated[existingIndex] = { ...updated[existingIndex], ...updates };
-          return updated;
-        } else {
-          return [...prev, result.data];
-        }
-      });
-    } catch (error) {
-      console.error('Error updating progress:', error);
+    const error = sheetsQuery.error || questionsQuery.error || progressQuery.error;
+    if (error) {
+      console.error('Error fetching revision data:', error);
     }
-  }, [user]);
+  }, [sheetsQuery.error, questionsQuery.error, progressQuery.error]);
 
   // Get questions marked for revision
-  const revisionQuestions = questions.filter(q => 
-    userProgress.some(p => p.question_id === q.id && p.marked_for_revision)
-  );
-
-  // Group revision questions by sheet
-  const revisionBySheet = sheets.map(sheet => ({
-    ...sheet,
-    questions: revisionQuestions.filter(q => q.sheet_id === sheet.id)
-  })).filter(sheet => sheet.questions.length > 0);
+  const progressIndex = getProgressIndex(userProgress);
+  const revisionQuestions = questions.filter(q => isMarkedForRevision(progressIndex, q.id));
+
+  // Split revision questions into review queues, ordered by review date
+  const queues = groupByRevisionQueue(userProgress);
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+  const sheetsById = new Map(sheets.map(s => [s.id, s]));
+  const queueQuestions = (queue: RevisionQueue) =>
+    queues[queue]
+      .map(p => questionsById.get(p.question_id))
+      .filter((q): q is Question => Boolean(q));
 
   // Get statistics
   const totalRevisionProblems = revisionQuestions.length;
-  const completedRevisionProblems = revisionQuestions.filter(q => {
-    const progress = userProgress.find(p => p.question_id === q.id);
-    return progress?.completed;
-  }).length;
+  const overdueCount = queueQuestions('overdue').length;
+  const dueTodayCount = queueQuestions('due').length;
+  const upcomingCount = queueQuestions('upcoming').length;
 
   const difficultyBreakdown = {
     Easy: revisionQuestions.filter(q => q.difficulty === 'Easy').length,
@@ -137,43 +104,39 @@ const RevisionProblems = () => {
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Completed</CardTitle>
-              <Clock className="h-4 w-4 text-muted-foreground" />
+              <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+              <AlertCircle className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-green-600">{completedRevisionProblems}</div>
+              <div className="text-2xl font-bold text-red-600">{overdueCount}</div>
               <p className="text-xs text-muted-foreground">
-                out of {totalRevisionProblems} revision problems
+                reviews past their due date
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Remaining</CardTitle>
-              <AlertCircle className="h-4 w-4 text-muted-foreground" />
+              <CardTitle className="text-sm font-medium">Due Today</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-orange-600">
-                {totalRevisionProblems - completedRevisionProblems}
-              </div>
+              <div className="text-2xl font-bold text-orange-600">{dueTodayCount}</div>
               <p className="text-xs text-muted-foreground">
-                problems still need attention
+                reviews scheduled for today
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Progress</CardTitle>
-              <BookmarkCheck className="h-4 w-4 text-muted-foreground" />
+              <CardTitle className="text-sm font-medium">Upcoming</CardTitle>
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">
-                {totalRevisionProblems > 0 ? Math.round((completedRevisionProblems / totalRevisionProblems) * 100) : 0}%
-              </div>
+              <div className="text-2xl font-bold">{upcomingCount}</div>
               <p className="text-xs text-muted-foreground">
-                revision completion rate
+                reviews scheduled for later
               </p>
             </CardContent>
           </Card>
@@ -217,52 +180,61 @@ const RevisionProblems = () => {
           <div className="space-y-6">
             <div className="flex items-center space-x-2">
               <div className="h-1 w-8 bg-primary rounded-full"></div>
-              <h2 className="text-xl font-semibold">Revision Problems by Sheet</h2>
+              <h2 className="text-xl font-semibold">Review Queues</h2>
             </div>
             
-            {revisionBySheet.map((sheet) => (
-              <Card key={sheet.id} className="group hover:shadow-lg transition-all duration-300 border-0 bg-card/50 backdrop-blur-sm">
-                <CardHeader className="pb-4">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-start space-x-4">
-                      <div className="h-12 w-12 rounded-xl bg-orange-100 flex items-center justify-center group-hover:bg-orange-200 transition-colors">
-                        <BookmarkCheck className="h-6 w-6 text-orange-600" />
+            {QUEUE_SECTIONS.map(({ queue, title, description, accent }) => {
+              const sectionQuestions = queueQuestions(queue);
+              if (sectionQuestions.length === 0) return null;
+
+              return (
+                <Card key={queue} className="group hover:shadow-lg transition-all duration-300 border-0 bg-card/50 backdrop-blur-sm">
+                  <CardHeader className="pb-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-4">
+                        <div className="h-12 w-12 rounded-xl bg-orange-100 flex items-center justify-center group-hover:bg-orange-200 transition-colors">
+                          <BookmarkCheck className="h-6 w-6 text-orange-600" />
+                        </div>
+                        <div className="space-y-1">
+                          <CardTitle className="text-xl group-hover:text-primary transition-colors">
+                            {title}
+                          </CardTitle>
+                          <CardDescription className="text-sm leading-relaxed">
+                            {description}
+                          </CardDescription>
+                        </div>
                       </div>
-                      <div className="space-y-1">
-                        <CardTitle className="text-xl group-hover:text-primary transition-colors">
-                          {sheet.title}
-                        </CardTitle>
-                        <CardDescription className="text-sm leading-relaxed">
-                          {sheet.description}
-                        </CardDescription>
+                      <div className="text-right space-y-2">
+                        <div className={`text-lg font-bold ${accent}`}>{sectionQuestions.length}</div>
+                        <div className="text-xs text-muted-foreground bg-muted/50 px-3 py-1 rounded-full">
+                          problems to review
+                        </div>
                       </div>
                     </div>
-                    <div className="text-right space-y-2">
-                      <div className="text-lg font-bold text-orange-600">{sheet.questions.length}</div>
-                      <div className="text-xs text-muted-foreground bg-muted/50 px-3 py-1 rounded-full">
-                        problems to review
-                      </div>
+                  </CardHeader>
+                  <CardContent className="pt-0">
+                    <div className="space-y-2">
+                      {sectionQuestions.map((question) => {
+                        const questionProgress = progressIndex.get(question.id);
+                        return (
+                          <div key={question.id} className="space-y-1">
+                            <p className="text-xs text-muted-foreground">
+                              {sheetsById.get(question.sheet_id)?.title}
+                            </p>
+                            <QuestionItem
+                              question={question}
+                              progress={questionProgress}
+                              userId={user?.id || ''}
+                              onProgressUpdate={handleProgressUpdate}
+                            />
+                          </div>
+                        );
+                      })}
                     </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="pt-0">
-                  <div className="space-y-2">
-                    {sheet.questions.map((question) => {
-                      const questionProgress = userProgress.find(p => p.question_id === question.id);
-                      return (
-                        <QuestionItem
-                          key={question.id}
-                          question={question}
-                          progress={questionProgress}
-                          userId={user?.id || ''}
-                          onProgressUpdate={handleProgressUpdate}
-                        />
-                      );
-                    })}
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import { useQuestions, useUserProgress, useSharedCustomList, useProgressCacheUpdater } from '@/hooks/use-tracker-queries';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Share2 } from 'lucide-react';
+import { QuestionItem } from '@/components/QuestionItem';
+import { calculateQuestionSetProgress, formatDateForDisplay, getProgressIndex, getQuestionsByIds } from '@/utils';
+
+// Read-only view of someone else's list; progress shown is the viewer's own
+const SharedCustomList = () => {
+  const { shareToken } = useParams();
+  const { user } = useAuth();
+  const questionsQuery = useQuestions();
+  const progressQuery = useUserProgress(user?.id);
+  const sharedListQuery = useSharedCustomList(shareToken);
+  const handleProgressUpdate = useProgressCacheUpdater(user?.id);
+
+  const questions = questionsQuery.data ?? [];
+  const userProgress = progressQuery.data ?? [];
+  const list = sharedListQuery.data;
+  const loading = questionsQuery.isLoading || progressQuery.isLoading || sharedListQuery.isLoading;
+
+  useEffect(() => {
+    const error = questionsQuery.error || progressQuery.error || sharedListQuery.error;
+    if (error) {
+      console.error('Error fetching shared list:', error);
+    }
+  }, [questionsQuery.error, progressQuery.error, sharedListQuery.error]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading shared list...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!list) {
+    return (
+      <div className="container max-w-3xl mx-auto px-4 py-12 text-center space-y-4">
+        <h1 className="text-2xl font-bold">List not available</h1>
+        <p className="text-muted-foreground">The link is invalid, or its owner stopped sharing it.</p>
+        <Button asChild variant="outline">
+          <Link to="/">Back to dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const listQuestions = getQuestionsByIds(list.question_ids, questions);
+  const progress = calculateQuestionSetProgress(listQuestions, userProgress);
+  const progressIndex = getProgressIndex(userProgress);
+
+  return (
+    <div className="container max-w-5xl mx-auto space-y-8 px-4 py-6">
+      {/* List Summary */}
+      <Card className="border-0 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-center text-xs text-muted-foreground">
+            <Share2 className="h-3 w-3 mr-1" />
+            Shared by {list.owner_name || 'a classmate'} · updated {formatDateForDisplay(list.updated_at)}
+          </div>
+          <CardTitle className="text-2xl">{list.name}</CardTitle>
+          {list.description && <CardDescription className="whitespace-pre-line">{list.description}</CardDescription>}
+          <div className="pt-4 space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>You have completed {progress.completed} of {progress.total}</span>
+              <span className="font-semibold text-primary">{progress.percentage}%</span>
+            </div>
+            <Progress value={progress.percentage} className="h-2" />
+          </div>
+        </CardHeader>
+      </Card>
+
+      {/* List Questions */}
+      {listQuestions.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">This list is empty.</p>
+      ) : (
+        <div className="space-y-3">
+          {listQuestions.map(question => (
+            <QuestionItem
+              key={question.id}
+              question={question}
+              progress={progressIndex.get(question.id)}
+              userId={user.id}
+              onProgressUpdate={handleProgressUpdate}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedCustomList;
@@ -1,6 +1,10 @@
 // Centralized API service layer for all Supabase operations
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import type { Sheet, Question, UserProgress, Profile, QuestionFormData, SheetFormData } from '@/types';
+import type { Json, TablesUpdate } from '@/integrations/supabase/types';
+import { scheduleReview } from '@/utils/spacedRepetition';
+import { normalizeHints } from '@/utils';
+import type { Sheet, Question, UserProgress, Profile, UserRole, QuestionFormData, SheetFormData, RecallGrade, PracticeSession, SessionOutcome, UserProfileFilters, ActivityBucket, CohortFormData, CohortSheetFormData, RealtimeChange, QuestionPageFilters, StreakSettings, GoalFormData, GoalResult, CustomListFormData, MockInterviewResult, StudyPlanDay, StudyPlanFormData } from '@/types';
 
 // ============= AUTHENTICATION SERVICES =============
 export const authService = {
@@ -42,6 +46,67 @@ export const profileService = {
       .from('profiles')
       .update(updates)
       .eq('user_id', userId);
+  },
+
+  async getProfiles(filters: UserProfileFilters) {
+    const from = (filters.page - 1) * filters.pageSize;
+    let query = supabase
+      .from('profiles')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(from, from + filters.pageSize - 1);
+
+    if (filters.search) {
+      const search = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(`name.ilike.%${search}%,email.ilike.%${search}%`);
+    }
+    if (filters.role) query = query.eq('role', filters.role);
+    if (filters.cohortId) query = query.eq('cohort_id', filters.cohortId);
+
+    return await query;
+  },
+
+  async getProfilesByRoles(roles: UserRole[]) {
+    return await supabase
+      .from('profiles')
+      .select('*')
+      .in('role', roles)
+      .order('name');
+  },
+
+  async getProfilesByUserIds(userIds: string[]) {
+    return await supabase
+      .from('profiles')
+      .select('*')
+      .in('user_id', userIds);
+  }
+};
+
+// ============= ROLE & PERMISSION SERVICES =============
+export const roleService = {
+  async getCurrentUserPermissions() {
+    return await supabase.rpc('get_current_user_permissions');
+  },
+
+  async getRolePermissions() {
+    return await supabase
+      .from('role_permissions')
+      .select('*');
+  },
+
+  async setUserRole(userId: string, role: UserRole) {
+    return await supabase
+      .from('profiles')
+      .update({ role })
+      .eq('user_id', userId);
+  },
+
+  async getAuditLog(limit: number) {
+    return await supabase
+      .from('role_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
   }
 };
 
@@ -54,6 +119,13 @@ export const sheetService = {
       .order('created_at', { ascending: false });
   },
 
+  // Counted by the database rather than by loading every question
+  async getQuestionCounts() {
+    return await supabase
+      .from('sheets')
+      .select('id, questions(count)');
+  },
+
   async getSheet(id: string) {
     return await supabase
       .from('sheets')
@@ -98,18 +170,40 @@ export const sheetService = {
 };
 
 // ============= QUESTION SERVICES =============
+// Hints and editorials are not readable directly; they come from the content RPCs below
+const QUESTION_COLUMNS = 'id, sheet_id, title, topic, tags, difficulty, solve_url, order_index, description, editorial_unlock_hints, created_at, updated_at';
+
 export const questionService = {
   async getAllQuestions() {
     return await supabase
       .from('questions')
-      .select('*')
+      .select(QUESTION_COLUMNS)
       .order('order_index');
   },
 
+  async getQuestionsPage(filters: QuestionPageFilters) {
+    const from = (filters.page - 1) * filters.pageSize;
+    let query = supabase
+      .from('questions')
+      .select(QUESTION_COLUMNS, { count: 'exact' })
+      .order('sheet_id')
+      .order('order_index')
+      .range(from, from + filters.pageSize - 1);
+
+    if (filters.search) {
+      const search = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(`title.ilike.%${search}%,topic.ilike.%${search}%`);
+    }
+    if (filters.sheetId) query = query.eq('sheet_id', filters.sheetId);
+    if (filters.difficulty) query = query.eq('difficulty', filters.difficulty);
+
+    return await query;
+  },
+
   async getQuestionsBySheet(sheetId: string) {
     return await supabase
       .from('questions')
-      .select('*')
+      .select(QUESTION_COLUMNS)
       .eq('sheet_id', sheetId)
       .order('order_index');
   },
@@ -117,11 +211,22 @@ export const questionService = {
   async getQuestion(id: string) {
     return await supabase
       .from('questions')
-      .select('*')
+      .select(QUESTION_COLUMNS)
       .eq('id', id)
       .single();
   },
 
+  // Revealed hints and, once unlocked, the editorial for the signed-in user
+  async getQuestionContent(id: string) {
+    return await supabase
+      .rpc('get_question_content', { p_question_id: id })
+      .maybeSingle();
+  },
+
+  async getSheetQuestionContent(sheetId: string) {
+    return await supabase.rpc('get_sheet_question_content', { p_sheet_id: sheetId });
+  },
+
   async createQuestion(questionData: QuestionFormData) {
     const tags = questionData.tags.split(',').map(t => t.trim()).filter(Boolean);
     
@@ -134,12 +239,35 @@ export const questionService = {
         tags,
         difficulty: questionData.difficulty,
         solve_url: questionData.solve_url || null,
-        order_index: questionData.order_index
+        order_index: questionData.order_index,
+        description: questionData.description || null,
+        hints: normalizeHints(questionData.hints ?? []),
+        editorial: questionData.editorial || null,
+        editorial_unlock_hints: questionData.editorial_unlock_hints ?? null
       }])
-      .select()
+      .select(QUESTION_COLUMNS)
       .single();
   },
 
+  async createQuestions(questionsData: QuestionFormData[]) {
+    return await supabase
+      .from('questions')
+      .insert(questionsData.map(questionData => ({
+        sheet_id: questionData.sheet_id,
+        title: questionData.title,
+        topic: questionData.topic,
+        tags: questionData.tags.split(',').map(t => t.trim()).filter(Boolean),
+        difficulty: questionData.difficulty,
+        solve_url: questionData.solve_url || null,
+        order_index: questionData.order_index,
+        description: questionData.description || null,
+        hints: normalizeHints(questionData.hints ?? []),
+        editorial: questionData.editorial || null,
+        editorial_unlock_hints: questionData.editorial_unlock_hints ?? null
+      })))
+      .select(QUESTION_COLUMNS);
+  },
+
   async updateQuestion(id: string, questionData: QuestionFormData) {
     const tags = questionData.tags.split(',').map(t => t.trim()).filter(Boolean);
     
@@ -152,7 +280,11 @@ export const questionService = {
         tags,
         difficulty: questionData.difficulty,
         solve_url: questionData.solve_url || null,
-        order_index: questionData.order_index
+        order_index: questionData.order_index,
+        description: questionData.description || null,
+        hints: normalizeHints(questionData.hints ?? []),
+        editorial: questionData.editorial || null,
+        editorial_unlock_hints: questionData.editorial_unlock_hints ?? null
       })
       .eq('id', id);
   },
@@ -165,6 +297,128 @@ export const questionService = {
   }
 };
 
+// ============= COHORT SERVICES =============
+export const cohortService = {
+  async getAllCohorts() {
+    return await supabase
+      .from('cohorts')
+      .select('*')
+      .order('start_date', { ascending: false, nullsFirst: false });
+  },
+
+  async getCohort(id: string) {
+    return await supabase
+      .from('cohorts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+  },
+
+  async createCohort(cohortData: CohortFormData) {
+    return await supabase
+      .from('cohorts')
+      .insert([{
+        name: cohortData.name,
+        description: cohortData.description || null,
+        start_date: cohortData.start_date || null,
+        end_date: cohortData.end_date || null
+      }])
+      .select()
+      .single();
+  },
+
+  async updateCohort(id: string, cohortData: CohortFormData) {
+    return await supabase
+      .from('cohorts')
+      .update({
+        name: cohortData.name,
+        description: cohortData.description || null,
+        start_date: cohortData.start_date || null,
+        end_date: cohortData.end_date || null
+      })
+      .eq('id', id);
+  },
+
+  async deleteCohort(id: string) {
+    return await supabase
+      .from('cohorts')
+      .delete()
+      .eq('id', id);
+  },
+
+  async getEnrollments() {
+    return await supabase
+      .from('profiles')
+      .select('cohort_id')
+      .not('cohort_id', 'is', null);
+  },
+
+  async regenerateInviteCode(id: string) {
+    return await supabase.rpc('regenerate_cohort_invite_code', { p_cohort_id: id });
+  },
+
+  async joinCohort(inviteCode: string) {
+    return await supabase.rpc('join_cohort', { p_invite_code: inviteCode });
+  },
+
+  async getMentors(cohortId?: string) {
+    let query = supabase.from('cohort_mentors').select('*');
+    if (cohortId) query = query.eq('cohort_id', cohortId);
+    return await query;
+  },
+
+  async setMentors(cohortId: string, mentorIds: string[]) {
+    const { error } = await supabase
+      .from('cohort_mentors')
+      .delete()
+      .eq('cohort_id', cohortId);
+    if (error || mentorIds.length === 0) return { data: null, error };
+
+    return await supabase
+      .from('cohort_mentors')
+      .insert(mentorIds.map(userId => ({ cohort_id: cohortId, user_id: userId })));
+  },
+
+  async getCohortSheets(cohortId?: string) {
+    let query = supabase
+      .from('cohort_sheets')
+      .select('*')
+      .order('due_date', { ascending: true, nullsFirst: false });
+    if (cohortId) query = query.eq('cohort_id', cohortId);
+    return await query;
+  },
+
+  async assignSheet(cohortId: string, assignment: CohortSheetFormData) {
+    return await supabase
+      .from('cohort_sheets')
+      .upsert({
+        cohort_id: cohortId,
+        sheet_id: assignment.sheet_id,
+        topics: assignment.topics,
+        due_date: assignment.due_date ? new Date(`${assignment.due_date}T23:59:59`).toISOString() : null
+      }, {
+        onConflict: 'cohort_id,sheet_id'
+      });
+  },
+
+  async unassignSheet(id: string) {
+    return await supabase
+      .from('cohort_sheets')
+      .delete()
+      .eq('id', id);
+  },
+
+  async getDailyActivity(cohortId: string, from: string, to: string, settings: StreakSettings) {
+    return await supabase.rpc('cohort_daily_activity', {
+      p_cohort_id: cohortId,
+      p_from: from,
+      p_to: to,
+      p_time_zone: settings.timeZone,
+      p_rollover_hour: settings.rolloverHour
+    });
+  }
+};
+
 // ============= USER PROGRESS SERVICES =============
 export const progressService = {
   async getUserProgress(userId: string) {
@@ -174,6 +428,15 @@ export const progressService = {
       .eq('user_id', userId);
   },
 
+  // One summary row per user, aggregated server-side; completion days are bucketed in
+  // each student's zone, or the given one when they have not saved a zone
+  async getProgressSummaries(userIds: string[], timeZone: string) {
+    return await supabase.rpc('get_user_progress_summaries', {
+      p_user_ids: userIds,
+      p_time_zone: timeZone
+    });
+  },
+
   async getQuestionProgress(userId: string, questionId: string) {
     return await supabase
       .from('user_progress')
@@ -228,7 +491,18 @@ export const progressService = {
 
   async markForRevision(userId: string, questionId: string, marked: boolean) {
     return await this.updateProgress(userId, questionId, {
-      marked_for_revision: marked
+      marked_for_revision: marked,
+      next_review_at: marked ? new Date().toISOString() : null
+    });
+  },
+
+  async gradeRevision(userId: string, questionId: string, grade: RecallGrade) {
+    const { data: existing, error } = await this.getQuestionProgress(userId, questionId);
+    if (error) return { data: null, error };
+
+    return await this.updateProgress(userId, questionId, {
+      marked_for_revision: true,
+      ...scheduleReview(existing ?? undefined, grade)
     });
   },
 
@@ -238,16 +512,337 @@ export const progressService = {
     });
   },
 
-  async updateTimeSpent(userId: string, questionId: string, timeSpent: number) {
-    return await this.updateProgress(userId, questionId, {
-      time_spent: timeSpent
+  // Returns how many hints are revealed now; the count is only ever raised on the server
+  async revealNextHint(questionId: string) {
+    return await supabase.rpc('reveal_next_hint', { p_question_id: questionId });
+  }
+};
+
+// ============= PRACTICE SESSION SERVICES =============
+export const sessionService = {
+  async getUserSessions(userId: string) {
+    return await supabase
+      .from('practice_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false });
+  },
+
+  async getQuestionSessions(userId: string, questionId: string) {
+    return await supabase
+      .from('practice_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('question_id', questionId)
+      .order('started_at', { ascending: false });
+  },
+
+  async createSession(session: Pick<PracticeSession, 'user_id' | 'question_id' | 'started_at' | 'ended_at' | 'duration_seconds' | 'outcome' | 'note'>) {
+    return await supabase
+      .from('practice_sessions')
+      .insert([session])
+      .select()
+      .single();
+  },
+
+  // Saves a timed session by id and adds any new seconds to the question total on the
+  // server; safe to call repeatedly as the session grows. Returns the new total.
+  async recordSession(id: string, questionId: string, startedAt: string, durationSeconds: number, outcome: SessionOutcome) {
+    return await supabase.rpc('record_practice_session', {
+      p_session_id: id,
+      p_question_id: questionId,
+      p_started_at: startedAt,
+      p_duration_seconds: durationSeconds,
+      p_outcome: outcome
     });
+  },
+
+  async updateSession(id: string, updates: Partial<Pick<PracticeSession, 'outcome' | 'note'>>) {
+    return await supabase
+      .from('practice_sessions')
+      .update(updates)
+      .eq('id', id);
+  }
+};
+
+// ============= STREAK SERVICES =============
+export const streakService = {
+  async getStreakFreezes(userId: string) {
+    return await supabase
+      .from('streak_freezes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('frozen_on', { ascending: true });
+  },
+
+  // The server only records days the student's streak has actually earned a freeze for
+  async recordStreakFreezes(days: string[], timeZone: string) {
+    return await supabase.rpc('record_streak_freezes', {
+      p_days: days,
+      p_time_zone: timeZone
+    });
+  }
+};
+
+// ============= GOAL SERVICES =============
+export const goalService = {
+  async getGoals(userId: string) {
+    return await supabase
+      .from('goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at');
+  },
+
+  async createGoal(userId: string, goalData: GoalFormData) {
+    return await supabase
+      .from('goals')
+      .insert([{
+        user_id: userId,
+        kind: goalData.kind,
+        target: goalData.kind === 'sheet_completion' ? null : goalData.target,
+        topic: goalData.kind === 'topic_questions' ? goalData.topic : null,
+        sheet_id: goalData.kind === 'sheet_completion' ? goalData.sheet_id : null,
+        due_date: goalData.due_date || null
+      }])
+      .select()
+      .single();
+  },
+
+  // Goals are archived rather than deleted so their history stays
+  async archiveGoal(id: string) {
+    return await supabase
+      .from('goals')
+      .update({ is_active: false })
+      .eq('id', id);
+  },
+
+  async getGoalResults(userId: string) {
+    return await supabase
+      .from('goal_results')
+      .select('*')
+      .eq('user_id', userId)
+      .order('period_end', { ascending: false });
+  },
+
+  async recordGoalResults(results: Omit<GoalResult, 'id' | 'created_at'>[]) {
+    return await supabase
+      .from('goal_results')
+      .upsert(results, { onConflict: 'goal_id,period_start', ignoreDuplicates: true })
+      .select();
+  }
+};
+
+// ============= ACHIEVEMENT SERVICES =============
+export const achievementService = {
+  async getUserAchievements(userId: string) {
+    return await supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: false });
+  },
+
+  async unlockAchievements(userId: string, achievementIds: string[]) {
+    return await supabase
+      .from('user_achievements')
+      .upsert(achievementIds.map(achievement_id => ({ user_id: userId, achievement_id })), {
+        onConflict: 'user_id,achievement_id',
+        ignoreDuplicates: true
+      })
+      .select();
+  }
+};
+
+// ============= CUSTOM LIST SERVICES =============
+export const customListService = {
+  async getLists(userId: string) {
+    return await supabase
+      .from('custom_lists')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at');
+  },
+
+  async getListItems(listIds: string[]) {
+    return await supabase
+      .from('custom_list_questions')
+      .select('*')
+      .in('list_id', listIds)
+      .order('position');
+  },
+
+  async createList(userId: string, listData: CustomListFormData) {
+    return await supabase
+      .from('custom_lists')
+      .insert([{
+        user_id: userId,
+        name: listData.name,
+        description: listData.description || null
+      }])
+      .select()
+      .single();
+  },
+
+  async updateList(id: string, listData: CustomListFormData) {
+    return await supabase
+      .from('custom_lists')
+      .update({
+        name: listData.name,
+        description: listData.description || null
+      })
+      .eq('id', id);
+  },
+
+  async deleteList(id: string) {
+    return await supabase
+      .from('custom_lists')
+      .delete()
+      .eq('id', id);
+  },
+
+  async addQuestion(listId: string, questionId: string, position: number) {
+    return await supabase
+      .from('custom_list_questions')
+      .insert([{ list_id: listId, question_id: questionId, position }]);
+  },
+
+  async removeQuestion(listId: string, questionId: string) {
+    return await supabase
+      .from('custom_list_questions')
+      .delete()
+      .eq('list_id', listId)
+      .eq('question_id', questionId);
+  },
+
+  // Rewrites every position so the stored order matches questionIds
+  async reorderQuestions(listId: string, questionIds: string[]) {
+    return await supabase
+      .from('custom_list_questions')
+      .upsert(questionIds.map((question_id, position) => ({ list_id: listId, question_id, position })), {
+        onConflict: 'list_id,question_id'
+      });
+  },
+
+  // A fresh token each time sharing is turned on, so old links stay revoked
+  async setShared(id: string, shared: boolean) {
+    return await supabase
+      .from('custom_lists')
+      .update({ share_token: shared ? crypto.randomUUID() : null })
+      .eq('id', id)
+      .select()
+      .single();
+  },
+
+  async getSharedList(shareToken: string) {
+    return await supabase.rpc('get_shared_custom_list', { p_share_token: shareToken });
+  }
+};
+
+// ============= MOCK INTERVIEW SERVICES =============
+export const mockInterviewService = {
+  async getMockInterviews(userId: string, limit: number) {
+    return await supabase
+      .from('mock_interviews')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+  },
+
+  async getMockInterviewQuestions(mockInterviewIds: string[]) {
+    return await supabase
+      .from('mock_interview_questions')
+      .select('*')
+      .in('mock_interview_id', mockInterviewIds)
+      .order('position');
+  },
+
+  // The mock, its questions, their practice sessions and progress are written in one transaction
+  async recordMockInterview(result: MockInterviewResult) {
+    return await supabase.rpc('record_mock_interview', {
+      p_started_at: result.startedAt,
+      p_ended_at: result.endedAt,
+      p_time_limit_seconds: result.timeLimitSeconds,
+      p_time_used_seconds: result.timeUsedSeconds,
+      p_score: result.score,
+      p_sheet_ids: result.sheetIds,
+      p_topics: result.topics,
+      p_questions: result.questions
+    });
+  }
+};
+
+// ============= STUDY PLAN SERVICES =============
+const toScheduleJson = (schedule: StudyPlanDay[]): Json =>
+  schedule.map(day => ({ day: day.day, question_ids: day.question_ids, minutes: day.minutes }));
+
+export const studyPlanService = {
+  async getActivePlan(userId: string) {
+    return await supabase
+      .from('study_plans')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .maybeSingle();
+  },
+
+  // Replaces the active plan; the previous one is archived in the same transaction
+  async createPlan(planData: StudyPlanFormData, schedule: StudyPlanDay[], plannedOn: string) {
+    return await supabase.rpc('create_study_plan', {
+      p_sheet_ids: planData.sheet_ids,
+      p_target_date: planData.target_date,
+      p_minutes_per_day: Math.round(planData.hours_per_day * 60),
+      p_schedule: toScheduleJson(schedule),
+      p_planned_on: plannedOn
+    });
+  },
+
+  async updateSchedule(id: string, schedule: StudyPlanDay[], plannedOn: string) {
+    const updates: TablesUpdate<'study_plans'> = { schedule: toScheduleJson(schedule), planned_on: plannedOn };
+
+    return await supabase
+      .from('study_plans')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+  },
+
+  async archivePlan(id: string) {
+    return await supabase
+      .from('study_plans')
+      .update({ is_active: false })
+      .eq('id', id);
+  }
+};
+
+// ============= ADMIN ANALYTICS SERVICES =============
+// Aggregated server-side; every function rejects non-admin callers
+export const adminAnalyticsService = {
+  async getActivity(bucket: ActivityBucket, periods: number) {
+    return await supabase.rpc('admin_activity_timeseries', {
+      p_bucket: bucket,
+      p_periods: periods
+    });
+  },
+
+  async getQuestionStats() {
+    return await supabase.rpc('admin_question_stats');
+  },
+
+  async getCohortFunnels() {
+    return await supabase.rpc('admin_cohort_funnels');
+  },
+
+  async getTopicWeakness() {
+    return await supabase.rpc('admin_topic_weakness');
   }
 };
 
 // ============= REAL-TIME SUBSCRIPTION SERVICES =============
 export const realtimeService = {
-  subscribeToQuestions(callback: (payload: any) => void) {
+  subscribeToQuestions(callback: (payload: RealtimeChange<Question>) => void) {
     return supabase
       .channel('questions-changes')
       .on(
@@ -262,7 +857,7 @@ export const realtimeService = {
       .subscribe();
   },
 
-  subscribeToSheets(callback: (payload: any) => void) {
+  subscribeToSheets(callback: (payload: RealtimeChange<Sheet>) => void) {
     return supabase
       .channel('sheets-changes')
       .on(
@@ -277,22 +872,24 @@ export const realtimeService = {
       .subscribe();
   },
 
-  subscribeToUserProgress(callback: (payload: any) => void) {
+  // Scoped to one user's rows so other students' activity is never streamed
+  subscribeToUserProgress(userId: string, callback: (payload: RealtimeChange<UserProgress>) => void) {
     return supabase
-      .channel('user-progress-changes')
+      .channel(`user-progress-changes-${userId}`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'user_progress'
+          table: 'user_progress',
+          filter: `user_id=eq.${userId}`
         },
         callback
       )
       .subscribe();
   },
 
-  unsubscribe(channel: any) {
+  unsubscribe(channel: RealtimeChannel) {
     return supabase.removeChannel(channel);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,116 @@
+// Generated question sets and the pre-index per-question scans, for checking and
+// timing the indexed progress utilities against them
+import type { DifficultyStats, ProgressAggregates, Question, TopicProgress, UserProgress } from '@/types';
+import { calculateCompletionRate } from '@/utils';
+
+const DIFFICULTIES: Question['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+const TOPICS = ['Arrays', 'Strings', 'Linked List', 'Trees', 'Graphs', 'Dynamic Programming', 'Greedy', 'Heaps'];
+
+// Small deterministic PRNG so every run sees the same fixture
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+export const buildProgressFixture = (questionCount: number, sheetCount = 3, seed = 42) => {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const questions: Question[] = Array.from({ length: questionCount }, (_, i) => ({
+    id: `q-${i}`,
+    sheet_id: `sheet-${i % sheetCount}`,
+    title: `Question ${String(Math.floor(random() * questionCount)).padStart(4, '0')}`,
+    topic: pick(TOPICS),
+    tags: [],
+    difficulty: pick(DIFFICULTIES),
+    order_index: i,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z'
+  }));
+
+  // Roughly two thirds of the questions have a row; progress order is shuffled
+  // against question order, as it is when rows come back by updated_at
+  const userProgress: UserProgress[] = questions
+    .filter(() => random() < 0.66)
+    .map(q => ({
+      id: `p-${q.id}`,
+      user_id: 'user-1',
+      question_id: q.id,
+      completed: random() < 0.6,
+      marked_for_revision: random() < 0.2,
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z'
+    }))
+    .sort(() => random() - 0.5);
+
+  return { questions, userProgress };
+};
+
+// ============= PER-QUESTION SCANS (before the progress index) =============
+const legacyIsCompleted = (userProgress: UserProgress[], questionId: string) =>
+  userProgress.some(p => p.question_id === questionId && p.completed);
+
+const legacyIsMarked = (userProgress: UserProgress[], questionId: string) =>
+  userProgress.some(p => p.question_id === questionId && p.marked_for_revision);
+
+export const legacyDifficultyStats = (questions: Question[], userProgress: UserProgress[]): DifficultyStats => {
+  const forDifficulty = (difficulty: Question['difficulty']) => ({
+    total: questions.filter(q => q.difficulty === difficulty).length,
+    completed: questions.filter(q => q.difficulty === difficulty && legacyIsCompleted(userProgress, q.id)).length
+  });
+  return { Easy: forDifficulty('Easy'), Medium: forDifficulty('Medium'), Hard: forDifficulty('Hard') };
+};
+
+export const legacyTopicProgress = (questions: Question[], userProgress: UserProgress[], topic: string): TopicProgress => {
+  const topicQuestions = questions.filter(q => q.topic === topic);
+  const completed = topicQuestions.filter(q => userProgress.find(p => p.question_id === q.id)?.completed).length;
+  return {
+    topic,
+    total: topicQuestions.length,
+    completed,
+    percentage: calculateCompletionRate(topicQuestions.length, completed)
+  };
+};
+
+export const legacyFilterByStatus = (questions: Question[], userProgress: UserProgress[], status: string): Question[] => {
+  switch (status) {
+    case 'completed':
+      return questions.filter(q => legacyIsCompleted(userProgress, q.id));
+    case 'pending':
+      return questions.filter(q => !legacyIsCompleted(userProgress, q.id));
+    case 'revision':
+      return questions.filter(q => legacyIsMarked(userProgress, q.id));
+    default:
+      return questions;
+  }
+};
+
+export const legacySortByCompletion = (questions: Question[], userProgress: UserProgress[], sortOrder: 'asc' | 'desc'): Question[] =>
+  [...questions].sort((a, b) => {
+    const comparison = Number(legacyIsCompleted(userProgress, a.id)) - Number(legacyIsCompleted(userProgress, b.id));
+    return sortOrder === 'desc' ? -comparison : comparison;
+  });
+
+// What the dashboard used to derive with one filter pass per sheet, topic and status
+export const legacyProgressAggregates = (questions: Question[], userProgress: UserProgress[]): ProgressAggregates => {
+  const topics = [...new Set(questions.map(q => q.topic))];
+  const sheetIds = [...new Set(questions.map(q => q.sheet_id))];
+  const byTopic = (set: Question[]) =>
+    Object.fromEntries([...new Set(set.map(q => q.topic))].map(topic => [topic, legacyTopicProgress(set, userProgress, topic)]));
+
+  return {
+    difficulty: legacyDifficultyStats(questions, userProgress),
+    topics: Object.fromEntries(topics.map(topic => [topic, legacyTopicProgress(questions, userProgress, topic)])),
+    sheets: Object.fromEntries(sheetIds.map(sheetId => {
+      const sheetQuestions = questions.filter(q => q.sheet_id === sheetId);
+      const completed = sheetQuestions.filter(q => legacyIsCompleted(userProgress, q.id)).length;
+      return [sheetId, { total: sheetQuestions.length, completed, percentage: calculateCompletionRate(sheetQuestions.length, completed) }];
+    })),
+    sheetTopics: Object.fromEntries(sheetIds.map(sheetId => [sheetId, byTopic(questions.filter(q => q.sheet_id === sheetId))])),
+    status: {
+      completed: legacyFilterByStatus(questions, userProgress, 'completed').length,
+      pending: legacyFilterByStatus(questions, userProgress, 'pending').length,
+      revision: legacyFilterByStatus(questions, userProgress, 'revision').length
+    }
+  };
+};
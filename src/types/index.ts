@@ -18,10 +18,27 @@ export interface Question {
   difficulty: 'Easy' | 'Medium' | 'Hard';
   solve_url?: string;
   order_index: number;
+  description?: string;
+  editorial_unlock_hints?: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// Hints and editorial as the server lets the current user see them
+export interface QuestionContent {
+  hints: string[];
+  hint_count: number;
+  editorial: string | null;
+  has_editorial: boolean;
+}
+
+// Full hints and editorial of one question, readable by content managers only
+export interface SheetQuestionContent {
+  question_id: string;
+  hints: string[];
+  editorial: string | null;
+}
+
 export interface UserProgress {
   id: string;
   user_id: string;
@@ -31,21 +48,143 @@ export interface UserProgress {
   note?: string;
   time_spent?: number;
   completed_at?: string;
+  ease_factor?: number;
+  review_interval?: number;
+  repetitions?: number;
+  next_review_at?: string;
+  last_reviewed_at?: string;
+  hints_revealed?: number;
   created_at: string;
   updated_at: string;
 }
 
+export type SessionOutcome = 'solved' | 'attempted' | 'gave_up';
+
+export interface PracticeSession {
+  id: string;
+  user_id: string;
+  question_id: string;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+  outcome: SessionOutcome;
+  note?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Persisted state of the single active practice timer
+export interface PracticeTimerState {
+  userId: string;
+  sessionId: string;
+  questionId: string;
+  questionTitle: string;
+  sessionStartedAt: string;
+  accumulatedMs: number;
+  runningSince: number | null;
+  lastActivityAt: number;
+}
+
+export type UserRole = 'student' | 'admin' | 'mentor' | 'teaching_assistant' | 'content_editor';
+
+export type Permission =
+  | 'manage_content'
+  | 'manage_users'
+  | 'manage_roles'
+  | 'manage_cohorts'
+  | 'view_student_progress'
+  | 'view_analytics';
+
 export interface Profile {
   id: string;
   user_id: string;
   name: string;
   email: string;
-  role: 'admin' | 'student';
-  cohort?: string;
+  role: UserRole;
+  cohort_id?: string;
+  is_active?: boolean;
+  timezone?: string | null;
+  day_rollover_hour?: number;
+  rest_days?: number[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Cohorts group students, their mentors and the sheets assigned to them
+export interface Cohort {
+  id: string;
+  name: string;
+  description?: string;
+  start_date?: string;
+  end_date?: string;
+  invite_code: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CohortSheet {
+  id: string;
+  cohort_id: string;
+  sheet_id: string;
+  // Empty when the whole sheet is assigned
+  topics: string[];
+  due_date?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface CohortMentor {
+  cohort_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface SheetDeadline {
+  dueDate: string;
+  daysLeft: number;
+  isOverdue: boolean;
+}
+
+export interface RolePermission {
+  role: UserRole;
+  permission: Permission;
+}
+
+export interface RoleAuditEntry {
+  id: string;
+  user_id: string;
+  old_role?: UserRole;
+  new_role: UserRole;
+  changed_by?: string;
+  created_at: string;
+}
+
+// Admin user management
+export interface UserProfileFilters {
+  search?: string;
+  role?: Profile['role'];
+  cohortId?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface UserProgressSummary {
+  completed: number;
+  total: number;
+  lastActiveAt: string | null;
+  streak: number;
+}
+
+// Row returned by the progress summary RPC
+export interface UserProgressSummaryRow {
+  user_id: string;
+  completed: number;
+  last_active_at: string | null;
+  completion_days: string[];
+  // Days a recorded streak freeze covered
+  freeze_days: string[];
+}
+
 // Progress-related types
 export interface DifficultyStats {
   Easy: {
@@ -66,6 +205,270 @@ export interface StreakData {
   currentStreak: number;
   longestStreak: number;
   lastActivityDate: string | null;
+  freezesAvailable: number;
+  daysUntilNextFreeze: number;
+  frozenDays: string[];
+  // Missed days covered by a freeze that has not been recorded on the server yet
+  newFrozenDays: string[];
+}
+
+// How calendar days are drawn for a student: an IANA zone, the hour a new day starts
+// and the weekdays (0 = Sunday) they plan to rest
+export interface StreakSettings {
+  timeZone: string;
+  rolloverHour: number;
+  restDays: number[];
+}
+
+export interface StreakFreeze {
+  id: string;
+  user_id: string;
+  frozen_on: string;
+  created_at: string;
+}
+
+// Goal types
+export type GoalKind = 'daily_questions' | 'weekly_minutes' | 'topic_questions' | 'sheet_completion';
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  kind: GoalKind;
+  target: number | null;
+  topic: string | null;
+  sheet_id: string | null;
+  due_date: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GoalResult {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  period_start: string;
+  period_end: string;
+  achieved: number;
+  target: number;
+  met: boolean;
+  created_at: string;
+}
+
+// Where a goal stands in its current period (the whole goal, for one-off goals)
+export interface GoalProgress {
+  goal: Goal;
+  current: number;
+  target: number;
+  percentage: number;
+  met: boolean;
+  periodStart: string;
+  periodEnd: string | null;
+  // From recent pace; null when there is no recent activity to project from
+  projectedDate: string | null;
+  onTrack: boolean | null;
+}
+
+// Achievement types. Definitions are data; each criterion type has one evaluator.
+export type AchievementCriterion =
+  | { type: 'solved_difficulty'; difficulty: Question['difficulty']; count: number }
+  | { type: 'streak_days'; days: number }
+  | { type: 'topics_completed'; count: number }
+  | { type: 'sheets_completed'; count: number }
+  | { type: 'solved_in_a_day'; count: number }
+  | { type: 'revision_queue_cleared' };
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  criterion: AchievementCriterion;
+}
+
+export interface UserAchievement {
+  id: string;
+  user_id: string;
+  achievement_id: string;
+  unlocked_at: string;
+}
+
+// Custom list types. question_ids are in the owner's order.
+export interface CustomList {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  share_token: string | null;
+  question_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomListItem {
+  id: string;
+  list_id: string;
+  question_id: string;
+  position: number;
+  created_at: string;
+}
+
+// What a classmate sees through a share link
+export interface SharedCustomList {
+  name: string;
+  description: string | null;
+  owner_name: string | null;
+  updated_at: string;
+  question_ids: string[];
+}
+
+// Mock interview types
+export type DifficultyMix = Record<Question['difficulty'], number>;
+
+export interface MockInterviewConfig {
+  sheetIds: string[];
+  // Empty means every topic in the chosen sheets
+  topics: string[];
+  mix: DifficultyMix;
+  timeLimitMinutes: number;
+}
+
+// Persisted state of the mock in progress. Times are epoch milliseconds so the
+// countdown survives reloads the same way the practice timer does.
+export interface MockInterviewState {
+  userId: string;
+  config: MockInterviewConfig;
+  questionIds: string[];
+  startedAt: number;
+  deadline: number;
+  currentIndex: number;
+  // Time on each question, not counting the stretch since activeSince
+  spentMs: number[];
+  // When each question was first opened and last left; null until it is opened
+  firstActiveAt: (number | null)[];
+  lastActiveAt: (number | null)[];
+  activeSince: number | null;
+  endedAt: number | null;
+  assessments: (SessionOutcome | null)[];
+}
+
+export interface MockInterviewQuestion {
+  id: string;
+  mock_interview_id: string;
+  question_id: string;
+  position: number;
+  time_spent_seconds: number;
+  assessment: SessionOutcome;
+  created_at: string;
+}
+
+export interface MockInterview {
+  id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string;
+  time_limit_seconds: number;
+  time_used_seconds: number;
+  score: number;
+  sheet_ids: string[];
+  topics: string[];
+  questions: MockInterviewQuestion[];
+  created_at: string;
+}
+
+// A finished mock, ready to be recorded
+export interface MockInterviewResult {
+  startedAt: string;
+  endedAt: string;
+  timeLimitSeconds: number;
+  timeUsedSeconds: number;
+  score: number;
+  sheetIds: string[];
+  topics: string[];
+  questions: MockInterviewResultQuestion[];
+}
+
+// A mock question with the stretch of the mock it was worked on, for its practice session
+export type MockInterviewResultQuestion = Pick<MockInterviewQuestion, 'question_id' | 'position' | 'time_spent_seconds' | 'assessment'> & {
+  started_at: string;
+  ended_at: string;
+};
+
+// Study plan types. Days are day keys in the student's streak settings.
+export interface StudyPlanDay {
+  day: string;
+  question_ids: string[];
+  minutes: number;
+}
+
+export interface StudySchedule {
+  days: StudyPlanDay[];
+  // Study days the schedule runs past the target date to stay within the daily budget
+  overflowDays: number;
+}
+
+export interface StudyPlan {
+  id: string;
+  user_id: string;
+  sheet_ids: string[];
+  target_date: string;
+  minutes_per_day: number;
+  schedule: StudyPlanDay[];
+  planned_on: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Estimated minutes to solve one question of each difficulty
+export type DifficultyMinutes = Record<Question['difficulty'], number>;
+
+export interface StudyPlanStatus {
+  today: StudyPlanDay | null;
+  // Planned for earlier days and still unsolved
+  behindIds: string[];
+  // Planned for later days and already solved
+  aheadIds: string[];
+  completedCount: number;
+  totalCount: number;
+  // Upcoming study days planned after the target date
+  overflowDays: number;
+}
+
+// A suggested next question and the reasons it ranked where it did
+export interface Recommendation {
+  question: Question;
+  reasons: string[];
+}
+
+export type ProgressExportStatus = 'Solved' | 'In progress' | 'Not started';
+
+// One question in a progress export, flattened for spreadsheets
+export interface ProgressExportRow {
+  sheet: string;
+  order_index: number;
+  title: string;
+  topic: string;
+  difficulty: Question['difficulty'];
+  status: ProgressExportStatus;
+  marked_for_revision: boolean;
+  note: string;
+  time_spent_seconds: number;
+  completed_at: string;
+}
+
+export interface ProgressExport {
+  exported_at: string;
+  student: {
+    name: string;
+    email: string;
+  };
+  summary: {
+    total: number;
+    solved: number;
+    marked_for_revision: number;
+    time_spent_seconds: number;
+  };
+  questions: ProgressExportRow[];
 }
 
 export interface ChartDataPoint {
@@ -75,6 +478,26 @@ export interface ChartDataPoint {
   color: string;
 }
 
+// Spaced repetition types
+export type RecallGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type RevisionQueue = 'overdue' | 'due' | 'upcoming';
+
+export interface ReviewSchedule {
+  ease_factor: number;
+  review_interval: number;
+  repetitions: number;
+  next_review_at: string;
+  last_reviewed_at: string;
+}
+
+export interface SessionTimeStats {
+  key: string;
+  sessions: number;
+  totalSeconds: number;
+  medianSeconds: number;
+}
+
 export interface TopicProgress {
   topic: string;
   total: number;
@@ -82,6 +505,92 @@ export interface TopicProgress {
   percentage: number;
 }
 
+// Progress rows keyed by question_id
+export type ProgressIndex = Map<string, UserProgress>;
+
+export interface SheetProgress {
+  total: number;
+  completed: number;
+  percentage: number;
+}
+
+export interface StatusCounts {
+  completed: number;
+  pending: number;
+  revision: number;
+}
+
+// Everything the dashboard and charts aggregate, computed in one pass over the questions
+export interface ProgressAggregates {
+  difficulty: DifficultyStats;
+  topics: Record<string, TopicProgress>;
+  sheets: Record<string, SheetProgress>;
+  sheetTopics: Record<string, Record<string, TopicProgress>>;
+  status: StatusCounts;
+}
+
+// Activity calendar types
+export interface ActivityDay {
+  dayKey: string;
+  solved: Question[];
+  sessions: number;
+  secondsPracticed: number;
+}
+
+export interface CohortDailyActivity {
+  activity_date: string;
+  students: number;
+  active_students: number;
+  average_completions: number;
+}
+
+// Admin system analytics types
+export type ActivityBucket = 'day' | 'week';
+
+export interface ActivityPoint {
+  period_start: string;
+  active_students: number;
+  completions: number;
+}
+
+export interface QuestionSolveStats {
+  question_id: string;
+  title: string;
+  topic: string;
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  sheet_id: string;
+  attempted: number;
+  solved: number;
+  abandoned: number;
+  median_seconds: number | null;
+}
+
+export interface CohortFunnel {
+  cohort: string;
+  sheet_id: string;
+  sheet_title: string;
+  students: number;
+  started: number;
+  halfway: number;
+  finished: number;
+}
+
+export interface TopicWeakness {
+  cohort: string;
+  topic: string;
+  attempted: number;
+  solved: number;
+}
+
+// Realtime change payloads, as delivered by Supabase postgres_changes
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RealtimeChange<T> {
+  eventType: RealtimeEvent;
+  new: Partial<T>;
+  old: Partial<T>;
+}
+
 // Form types
 export interface SheetFormData {
   title: string;
@@ -89,6 +598,39 @@ export interface SheetFormData {
   topics: string;
 }
 
+export interface GoalFormData {
+  kind: GoalKind;
+  target: number;
+  topic: string;
+  sheet_id: string;
+  due_date: string;
+}
+
+export interface CustomListFormData {
+  name: string;
+  description: string;
+}
+
+export interface StudyPlanFormData {
+  sheet_ids: string[];
+  target_date: string;
+  hours_per_day: number;
+}
+
+export interface CohortFormData {
+  name: string;
+  description: string;
+  start_date: string;
+  end_date: string;
+  mentor_ids: string[];
+}
+
+export interface CohortSheetFormData {
+  sheet_id: string;
+  topics: string[];
+  due_date: string;
+}
+
 export interface QuestionFormData {
   sheet_id: string;
   title: string;
@@ -97,9 +639,67 @@ export interface QuestionFormData {
   difficulty: 'Easy' | 'Medium' | 'Hard';
   solve_url: string;
   order_index: number;
+  description?: string;
+  hints?: string[];
+  editorial?: string;
+  editorial_unlock_hints?: number | null;
+}
+
+// Bulk import types
+export type ImportField = 'title' | 'topic' | 'tags' | 'difficulty' | 'solve_url' | 'order_index';
+
+export type ImportColumnMapping = Record<ImportField, string>;
+
+export type RawImportRow = Record<string, string>;
+
+export interface ImportRowResult {
+  rowNumber: number;
+  data: QuestionFormData;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+}
+
+export interface ImportSummary {
+  created: number;
+  skipped: number;
+}
+
+// Sheet package types
+export interface SheetPackageQuestion {
+  title: string;
+  topic: string;
+  tags: string[];
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  solve_url: string | null;
+  order_index: number;
+  // Added in version 2; version 1 packages are read with these empty
+  description: string | null;
+  hints: string[];
+  editorial: string | null;
+  editorial_unlock_hints: number | null;
+}
+
+export interface SheetPackage {
+  format: string;
+  version: number;
+  exported_at: string;
+  sheet: {
+    title: string;
+    description: string;
+    topics: string[];
+  };
+  questions: SheetPackageQuestion[];
 }
 
 // Filter and search types
+export interface QuestionPageFilters {
+  search?: string;
+  sheetId?: string;
+  difficulty?: Question['difficulty'];
+  page: number;
+  pageSize: number;
+}
+
 export interface FilterOptions {
   difficulty: string;
   topic: string;
@@ -113,16 +713,23 @@ export interface FilterOptions {
 export interface ProgressStatsProps {
   questions: Question[];
   userProgress: UserProgress[];
+  streakSettings?: StreakSettings;
 }
 
 export interface ProgressChartsProps {
   questions: Question[];
   userProgress: UserProgress[];
+  sessions?: PracticeSession[];
+  streakSettings?: StreakSettings;
 }
 
 export interface AdvancedFeaturesProps {
   userProgress: UserProgress[];
   questions: Question[];
+  streakSettings?: StreakSettings;
+  // Precomputed with the user's recorded freezes; derived from userProgress when omitted
+  streakData?: StreakData;
+  showStreakSettings?: boolean;
 }
 
 export interface QuestionItemProps {
@@ -135,6 +742,8 @@ export interface QuestionItemProps {
 export interface QuestionDetailsProps {
   question: Question;
   progress?: UserProgress;
+  userId?: string;
+  onProgressUpdate?: (questionId: string, updates: Partial<UserProgress>) => void;
   children: React.ReactNode;
 }
 
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { getEarnedAchievementIds } from './achievements';
+import { addDaysToKey, calculateStreakData } from './streaks';
+import { ACHIEVEMENTS } from '@/constants';
+import type { AchievementDefinition, Question, StreakSettings, UserProgress } from '@/types';
+
+const UTC: StreakSettings = { timeZone: 'UTC', rolloverHour: 0, restDays: [] };
+const NOW = new Date('2026-03-20T20:00:00.000Z');
+
+const question = (id: string, overrides: Partial<Question> = {}): Question => ({
+  id,
+  sheet_id: 'sheet-1',
+  title: id,
+  topic: 'Arrays',
+  tags: [],
+  difficulty: 'Easy',
+  order_index: 0,
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z',
+  ...overrides
+});
+
+const progress = (questionId: string, overrides: Partial<UserProgress> = {}): UserProgress => ({
+  id: `p-${questionId}`,
+  user_id: 'user-1',
+  question_id: questionId,
+  completed: true,
+  marked_for_revision: false,
+  completed_at: '2026-03-20T12:00:00.000Z',
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-20T12:00:00.000Z',
+  ...overrides
+});
+
+// One completion at noon UTC on each of the `count` days ending on the given day
+const solvedOnDays = (count: number, lastDay: string): UserProgress[] =>
+  Array.from({ length: count }, (_, i) =>
+    progress(`streak-${i}`, { completed_at: `${addDaysToKey(lastDay, -i)}T12:00:00.000Z` })
+  );
+
+const earned = (questions: Question[], userProgress: UserProgress[], definitions: AchievementDefinition[] = ACHIEVEMENTS) =>
+  getEarnedAchievementIds(definitions, {
+    questions,
+    userProgress,
+    streakData: calculateStreakData(userProgress, UTC, [], NOW),
+    settings: UTC,
+    now: NOW
+  });
+
+const definition = (criterion: AchievementDefinition['criterion']): AchievementDefinition[] => [
+  { id: 'test', title: 'Test', description: 'Test', criterion }
+];
+
+describe('getEarnedAchievementIds', () => {
+  it('earns nothing without progress', () => {
+    expect(earned([question('q-1')], [])).toEqual([]);
+  });
+
+  it('counts solved questions of the required difficulty only', () => {
+    const questions = [question('hard-1', { difficulty: 'Hard' }), question('hard-2', { difficulty: 'Hard' }), question('easy-1')];
+    const twoHard = definition({ type: 'solved_difficulty', difficulty: 'Hard', count: 2 });
+
+    expect(earned(questions, [progress('easy-1')], twoHard)).toEqual([]);
+    expect(earned(questions, [progress('hard-1')], twoHard)).toEqual([]);
+    expect(earned(questions, [progress('hard-1'), progress('hard-2')], twoHard)).toEqual(['test']);
+    expect(earned(questions, [progress('hard-1')])).toContain('first_hard');
+  });
+
+  it('unlocks streak achievements from the longest streak', () => {
+    const questions = Array.from({ length: 30 }, (_, i) => question(`streak-${i}`));
+
+    expect(earned(questions, solvedOnDays(29, '2026-03-20'))).not.toContain('streak_30');
+    expect(earned(questions, solvedOnDays(30, '2026-03-20'))).toContain('streak_30');
+  });
+
+  it('keeps a streak achievement once the streak has ended', () => {
+    const questions = Array.from({ length: 3 }, (_, i) => question(`streak-${i}`));
+    const threeDays = definition({ type: 'streak_days', days: 3 });
+    const endedRun = solvedOnDays(3, '2026-03-10');
+
+    expect(calculateStreakData(endedRun, UTC, [], NOW).currentStreak).toBe(0);
+    expect(earned(questions, endedRun, threeDays)).toEqual(['test']);
+  });
+
+  it('needs every question of a topic or sheet solved', () => {
+    const questions = [
+      question('a-1'),
+      question('a-2'),
+      question('b-1', { topic: 'Graphs', sheet_id: 'sheet-2' })
+    ];
+
+    expect(earned(questions, [progress('a-1')])).toEqual([]);
+    expect(earned(questions, [progress('b-1')])).toEqual(['topic_completed', 'sheet_completed']);
+    expect(earned(questions, [progress('a-1'), progress('a-2'), progress('b-1')], definition({ type: 'topics_completed', count: 2 })))
+      .toEqual(['test']);
+    expect(earned(questions, [progress('a-1'), progress('a-2')], definition({ type: 'sheets_completed', count: 2 })))
+      .toEqual([]);
+  });
+
+  it('counts questions solved on the same day in the student zone', () => {
+    const questions = Array.from({ length: 10 }, (_, i) => question(`q-${i}`, { sheet_id: `sheet-${i}`, topic: `Topic ${i}` }));
+    const onRoll = ACHIEVEMENTS.filter(a => a.id === 'ten_in_a_day');
+    const sameDay = questions.map(q => progress(q.id));
+    const splitDays = questions.map((q, i) => progress(q.id, { completed_at: i === 0 ? '2026-03-19T12:00:00.000Z' : '2026-03-20T12:00:00.000Z' }));
+
+    expect(earned(questions, sameDay, onRoll)).toEqual(['ten_in_a_day']);
+    expect(earned(questions, splitDays, onRoll)).toEqual([]);
+  });
+
+  it('clears the revision queue only after a review today with nothing left due', () => {
+    const questions = [question('q-1'), question('q-2')];
+    const cleared = ACHIEVEMENTS.filter(a => a.id === 'revision_cleared');
+    const reviewedToday = progress('q-1', {
+      marked_for_revision: true,
+      last_reviewed_at: '2026-03-20T10:00:00.000Z',
+      next_review_at: '2026-03-25T10:00:00.000Z'
+    });
+
+    expect(earned(questions, [reviewedToday], cleared)).toEqual(['revision_cleared']);
+    expect(earned(questions, [{ ...reviewedToday, last_reviewed_at: '2026-03-18T10:00:00.000Z' }], cleared)).toEqual([]);
+    expect(earned(questions, [reviewedToday, progress('q-2', { marked_for_revision: true, next_review_at: '2026-03-10T10:00:00.000Z' })], cleared))
+      .toEqual([]);
+  });
+});
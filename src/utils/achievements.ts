@@ -0,0 +1,65 @@
+// Evaluates the declarative achievement definitions against a user's progress
+import type { AchievementCriterion, AchievementDefinition, ProgressAggregates, Question, StreakData, StreakSettings, UserProgress } from '@/types';
+import { computeProgressAggregates } from '@/utils';
+import { groupByRevisionQueue } from './spacedRepetition';
+import { getDailyActivity, getDayKey } from './streaks';
+
+interface AchievementData {
+  questions: Question[];
+  userProgress: UserProgress[];
+  streakData: StreakData;
+  settings: StreakSettings;
+  now?: Date;
+}
+
+interface AchievementContext extends AchievementData {
+  aggregates: ProgressAggregates;
+  maxSolvedInADay: number;
+}
+
+const countCompletedGroups = (groups: Record<string, { total: number; completed: number }>) =>
+  Object.values(groups).filter(g => g.total > 0 && g.completed === g.total).length;
+
+// Counts as cleared once something was reviewed today and nothing is left due
+const isRevisionQueueCleared = ({ userProgress, settings, now = new Date() }: AchievementContext) => {
+  const queues = groupByRevisionQueue(userProgress, now);
+  const today = getDayKey(now, settings);
+  const reviewedToday = userProgress.some(p =>
+    p.marked_for_revision && p.last_reviewed_at && getDayKey(p.last_reviewed_at, settings) === today
+  );
+  return reviewedToday && queues.overdue.length === 0 && queues.due.length === 0;
+};
+
+const isCriterionMet = (criterion: AchievementCriterion, context: AchievementContext): boolean => {
+  switch (criterion.type) {
+    case 'solved_difficulty':
+      return context.aggregates.difficulty[criterion.difficulty].completed >= criterion.count;
+    case 'streak_days':
+      return context.streakData.longestStreak >= criterion.days;
+    case 'topics_completed':
+      return countCompletedGroups(context.aggregates.topics) >= criterion.count;
+    case 'sheets_completed':
+      return countCompletedGroups(context.aggregates.sheets) >= criterion.count;
+    case 'solved_in_a_day':
+      return context.maxSolvedInADay >= criterion.count;
+    case 'revision_queue_cleared':
+      return isRevisionQueueCleared(context);
+    default:
+      return false;
+  }
+};
+
+// Ids of every definition whose criterion the user currently meets
+export const getEarnedAchievementIds = (
+  definitions: AchievementDefinition[],
+  data: AchievementData
+): string[] => {
+  const activity = getDailyActivity(data.questions, data.userProgress, [], data.settings);
+  const context: AchievementContext = {
+    ...data,
+    aggregates: computeProgressAggregates(data.questions, data.userProgress),
+    maxSolvedInADay: Math.max(0, ...[...activity.values()].map(day => day.solved.length))
+  };
+
+  return definitions.filter(d => isCriterionMet(d.criterion, context)).map(d => d.id);
+};
@@ -0,0 +1,160 @@
+// Goal progress, pace projections and the hit/missed history of closed periods
+import type { ActivityDay, Goal, GoalProgress, GoalResult, PracticeSession, Question, StreakSettings, UserProgress } from '@/types';
+import { GOALS } from '@/constants';
+import { addDaysToKey, getDailyActivity, getDayKey, getWeekdayOfKey } from './streaks';
+
+export const buildGoalContext = (
+  questions: Question[],
+  userProgress: UserProgress[],
+  sessions: PracticeSession[],
+  settings: StreakSettings,
+  now: Date = new Date()
+) => ({
+  questions,
+  completedIds: new Set(userProgress.filter(p => p.completed).map(p => p.question_id)),
+  activity: getDailyActivity(questions, userProgress, sessions, settings),
+  settings,
+  today: getDayKey(now, settings)
+});
+
+export type GoalContext = ReturnType<typeof buildGoalContext>;
+
+type PendingGoalResult = Omit<GoalResult, 'id' | 'created_at'>;
+
+// Weeks start on Sunday, matching the activity calendar
+export const getWeekStartKey = (dayKey: string): string => addDaysToKey(dayKey, -getWeekdayOfKey(dayKey));
+
+export const isRepeatingGoal = (goal: Goal): boolean =>
+  goal.kind === 'daily_questions' || goal.kind === 'weekly_minutes';
+
+const getGoalQuestions = (goal: Goal, context: GoalContext): Question[] => {
+  if (goal.kind === 'topic_questions') return context.questions.filter(q => q.topic === goal.topic);
+  if (goal.kind === 'sheet_completion') return context.questions.filter(q => q.sheet_id === goal.sheet_id);
+  return [];
+};
+
+const sumActivity = (context: GoalContext, from: string, to: string, value: (day: ActivityDay) => number) => {
+  let total = 0;
+  for (let dayKey = from; dayKey <= to; dayKey = addDaysToKey(dayKey, 1)) {
+    const day = context.activity.get(dayKey);
+    if (day) total += value(day);
+  }
+  return total;
+};
+
+const getPeriod = (goal: Goal, context: GoalContext): { start: string; end: string | null } => {
+  if (goal.kind === 'daily_questions') return { start: context.today, end: context.today };
+  if (goal.kind === 'weekly_minutes') {
+    const start = getWeekStartKey(context.today);
+    return { start, end: addDaysToKey(start, 6) };
+  }
+  return { start: getDayKey(goal.created_at, context.settings), end: goal.due_date };
+};
+
+const getAchieved = (goal: Goal, context: GoalContext, from: string, to: string): number => {
+  switch (goal.kind) {
+    case 'daily_questions':
+      return sumActivity(context, from, to, day => day.solved.length);
+    case 'weekly_minutes':
+      return Math.floor(sumActivity(context, from, to, day => day.secondsPracticed) / 60);
+    default:
+      return getGoalQuestions(goal, context).filter(q => context.completedIds.has(q.id)).length;
+  }
+};
+
+export const getGoalTarget = (goal: Goal, context: GoalContext): number =>
+  goal.kind === 'sheet_completion' ? getGoalQuestions(goal, context).length : goal.target ?? 0;
+
+// Projects a one-off goal's finish from how many of its questions were solved recently
+const projectCompletion = (goal: Goal, context: GoalContext, remaining: number): string | null => {
+  if (remaining <= 0) return context.today;
+
+  const goalQuestionIds = new Set(getGoalQuestions(goal, context).map(q => q.id));
+  const windowStart = addDaysToKey(context.today, -(GOALS.PACE_WINDOW_DAYS - 1));
+  const recent = sumActivity(context, windowStart, context.today, day =>
+    day.solved.filter(q => goalQuestionIds.has(q.id)).length
+  );
+  if (recent === 0) return null;
+
+  return addDaysToKey(context.today, Math.ceil(remaining / (recent / GOALS.PACE_WINDOW_DAYS)));
+};
+
+export const evaluateGoal = (goal: Goal, context: GoalContext): GoalProgress => {
+  const period = getPeriod(goal, context);
+  const target = getGoalTarget(goal, context);
+  const current = isRepeatingGoal(goal)
+    ? getAchieved(goal, context, period.start, period.end)
+    : getAchieved(goal, context, period.start, context.today);
+  const projectedDate = isRepeatingGoal(goal) ? null : projectCompletion(goal, context, target - current);
+
+  return {
+    goal,
+    current,
+    target,
+    percentage: target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0,
+    met: target > 0 && current >= target,
+    periodStart: period.start,
+    periodEnd: period.end,
+    projectedDate,
+    onTrack: goal.due_date && !isRepeatingGoal(goal)
+      ? projectedDate !== null && projectedDate <= goal.due_date
+      : null
+  };
+};
+
+// Results for periods that have closed but are not recorded yet. Repeating goals close
+// every day or week (filled in at most BACKFILL_DAYS back); one-off goals close once,
+// when they are met or their due date passes.
+export const getPendingGoalResults = (
+  goal: Goal,
+  context: GoalContext,
+  recordedPeriodStarts: Set<string>
+): PendingGoalResult[] => {
+  if (!goal.is_active) return [];
+
+  const createdOn = getDayKey(goal.created_at, context.settings);
+  const backfillFrom = addDaysToKey(context.today, -GOALS.BACKFILL_DAYS);
+  const firstDay = createdOn > backfillFrom ? createdOn : backfillFrom;
+  const result = (start: string, end: string, achieved: number, target: number): PendingGoalResult => ({
+    goal_id: goal.id,
+    user_id: goal.user_id,
+    period_start: start,
+    period_end: end,
+    achieved,
+    target,
+    met: achieved >= target
+  });
+
+  if (goal.kind === 'daily_questions') {
+    const pending: PendingGoalResult[] = [];
+    for (let dayKey = firstDay; dayKey < context.today; dayKey = addDaysToKey(dayKey, 1)) {
+      if (!recordedPeriodStarts.has(dayKey)) {
+        pending.push(result(dayKey, dayKey, getAchieved(goal, context, dayKey, dayKey), goal.target));
+      }
+    }
+    return pending;
+  }
+
+  if (goal.kind === 'weekly_minutes') {
+    const pending: PendingGoalResult[] = [];
+    const currentWeek = getWeekStartKey(context.today);
+    // A week counts from the one the goal was created in
+    for (let weekStart = getWeekStartKey(firstDay); weekStart < currentWeek; weekStart = addDaysToKey(weekStart, 7)) {
+      if (!recordedPeriodStarts.has(weekStart)) {
+        const weekEnd = addDaysToKey(weekStart, 6);
+        pending.push(result(weekStart, weekEnd, getAchieved(goal, context, weekStart, weekEnd), goal.target));
+      }
+    }
+    return pending;
+  }
+
+  if (recordedPeriodStarts.has(createdOn)) return [];
+  const progress = evaluateGoal(goal, context);
+  if (progress.met) {
+    return [result(createdOn, context.today, progress.current, progress.target)];
+  }
+  if (goal.due_date && goal.due_date < context.today) {
+    return [result(createdOn, goal.due_date, progress.current, progress.target)];
+  }
+  return [];
+};
@@ -0,0 +1,37 @@
+import { bench, describe } from 'vitest';
+import { computeProgressAggregates, filterQuestionsByStatus, sortQuestions } from './index';
+import { buildProgressFixture, legacyFilterByStatus, legacyProgressAggregates, legacySortByCompletion } from '@/test/progressFixture';
+
+// A ~1000-question sheet, the size where the per-question scans became noticeable.
+// Progress is copied per iteration so the indexed runs pay for building the index.
+const { questions, userProgress } = buildProgressFixture(1000);
+
+describe('dashboard aggregates, 1000 questions', () => {
+  bench('per-question scans', () => {
+    legacyProgressAggregates(questions, [...userProgress]);
+  });
+
+  bench('progress index, one pass', () => {
+    computeProgressAggregates(questions, [...userProgress]);
+  });
+});
+
+describe('status filter, 1000 questions', () => {
+  bench('per-question scans', () => {
+    legacyFilterByStatus(questions, [...userProgress], 'pending');
+  });
+
+  bench('progress index', () => {
+    filterQuestionsByStatus(questions, [...userProgress], 'pending');
+  });
+});
+
+describe('sort by completion, 1000 questions', () => {
+  bench('per-question scans', () => {
+    legacySortByCompletion(questions, [...userProgress], 'asc');
+  });
+
+  bench('progress index', () => {
+    sortQuestions(questions, [...userProgress], 'completion', 'asc');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDifficultyStats,
+  calculateTopicProgress,
+  computeProgressAggregates,
+  filterQuestionsByStatus,
+  getSafeRedirectPath,
+  getUniqueTopics,
+  sortQuestions,
+  summarizeUserProgress
+} from './index';
+import { getRecentDayKeys } from './streaks';
+import {
+  buildProgressFixture,
+  legacyDifficultyStats,
+  legacyFilterByStatus,
+  legacyProgressAggregates,
+  legacySortByCompletion,
+  legacyTopicProgress
+} from '@/test/progressFixture';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-origin paths with their search', () => {
+    expect(getSafeRedirectPath('/analytics')).toBe('/analytics');
+    expect(getSafeRedirectPath('/admin?tab=users')).toBe('/admin?tab=users');
+  });
+
+  it('falls back to the dashboard for missing or relative values', () => {
+    expect(getSafeRedirectPath(null)).toBe('/');
+    expect(getSafeRedirectPath('')).toBe('/');
+    expect(getSafeRedirectPath('admin')).toBe('/');
+  });
+
+  it('refuses absolute and protocol-relative URLs', () => {
+    expect(getSafeRedirectPath('https://evil.com')).toBe('/');
+    expect(getSafeRedirectPath('//evil.com')).toBe('/');
+    expect(getSafeRedirectPath('/\\evil.com')).toBe('/');
+  });
+});
+
+describe('indexed progress utilities', () => {
+  const { questions, userProgress } = buildProgressFixture(1000);
+
+  it('aggregate in one pass to the same totals as the per-question scans', () => {
+    expect(computeProgressAggregates(questions, userProgress)).toEqual(legacyProgressAggregates(questions, userProgress));
+  });
+
+  it('compute difficulty stats identically', () => {
+    expect(calculateDifficultyStats(questions, userProgress)).toEqual(legacyDifficultyStats(questions, userProgress));
+  });
+
+  it('compute topic progress identically', () => {
+    getUniqueTopics(questions).forEach(topic => {
+      expect(calculateTopicProgress(questions, userProgress, topic)).toEqual(legacyTopicProgress(questions, userProgress, topic));
+    });
+  });
+
+  it('filter by status identically', () => {
+    ['completed', 'pending', 'revision', 'all'].forEach(status => {
+      expect(filterQuestionsByStatus(questions, userProgress, status)).toEqual(legacyFilterByStatus(questions, userProgress, status));
+    });
+  });
+
+  it('sort by completion identically', () => {
+    (['asc', 'desc'] as const).forEach(sortOrder => {
+      expect(sortQuestions(questions, userProgress, 'completion', sortOrder))
+        .toEqual(legacySortByCompletion(questions, userProgress, sortOrder));
+    });
+  });
+
+  it('treat questions without a progress row as pending', () => {
+    expect(computeProgressAggregates(questions, []).status).toEqual({ completed: 0, pending: questions.length, revision: 0 });
+  });
+});
+
+describe('summarizeUserProgress', () => {
+  const UTC = { timeZone: 'UTC', rolloverHour: 0, restDays: [] };
+
+  it('works the streak out over completion days and recorded freezes', () => {
+    // A week of practice earns a freeze, which covers the missed day before yesterday
+    const days = getRecentDayKeys(10, UTC);
+    const summary = summarizeUserProgress({
+      user_id: 'user-1',
+      completed: 12,
+      last_active_at: '2026-03-10T12:00:00.000Z',
+      completion_days: [...days.slice(0, 7), ...days.slice(8)],
+      freeze_days: [days[7]]
+    }, 40, UTC);
+
+    expect(summary).toEqual({ completed: 12, total: 40, lastActiveAt: '2026-03-10T12:00:00.000Z', streak: 9 });
+  });
+
+  it('reports an empty summary for a student without progress', () => {
+    expect(summarizeUserProgress(undefined, 40, UTC)).toEqual({ completed: 0, total: 40, lastActiveAt: null, streak: 0 });
+  });
+});
@@ -1,6 +1,7 @@
 // Utility functions used across the application
-import type { Question, UserProgress, DifficultyStats, TopicProgress } from '@/types';
+import type { Sheet, Question, UserProgress, DifficultyStats, TopicProgress, PracticeSession, SessionTimeStats, UserProgressSummary, UserProgressSummaryRow, CohortSheet, SheetDeadline, RealtimeChange, ProgressIndex, ProgressAggregates, SheetProgress, StreakSettings } from '@/types';
 import { DIFFICULTY_COLORS, TIME_FORMATS } from '@/constants';
+import { calculateStreakData, calculateStreakFromDays, countCompletedOnDay, getDayKey, getStreakSettings } from './streaks';
 
 // ============= TIME UTILITIES =============
 export const formatTime = (seconds: number): string => {
@@ -20,38 +21,93 @@ export const calculateTimeDifference = (startTime: Date, endTime: Date): number
   return Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
 };
 
+// ============= PROGRESS INDEX =============
+// Progress arrays are replaced rather than mutated, so an index can be reused
+// for as long as the array it was built from is alive.
+const progressIndexCache = new WeakMap<UserProgress[], ProgressIndex>();
+
+export const getProgressIndex = (userProgress: UserProgress[]): ProgressIndex => {
+  let index = progressIndexCache.get(userProgress);
+  if (!index) {
+    index = new Map(userProgress.map(p => [p.question_id, p]));
+    progressIndexCache.set(userProgress, index);
+  }
+  return index;
+};
+
+export const isQuestionCompleted = (index: ProgressIndex, questionId: string): boolean =>
+  index.get(questionId)?.completed || false;
+
+export const isMarkedForRevision = (index: ProgressIndex, questionId: string): boolean =>
+  index.get(questionId)?.marked_for_revision || false;
+
 // ============= PROGRESS CALCULATIONS =============
 export const calculateCompletionRate = (total: number, completed: number): number => {
   return total > 0 ? Math.round((completed / total) * 100) : 0;
 };
 
-export const calculateDifficultyStats = (
+export const computeProgressAggregates = (
   questions: Question[],
   userProgress: UserProgress[]
-): DifficultyStats => {
-  return {
-    Easy: {
-      total: questions.filter(q => q.difficulty === 'Easy').length,
-      completed: questions.filter(q => 
-        q.difficulty === 'Easy' && 
-        userProgress.some(p => p.question_id === q.id && p.completed)
-      ).length
+): ProgressAggregates => {
+  const index = getProgressIndex(userProgress);
+  const aggregates: ProgressAggregates = {
+    difficulty: {
+      Easy: { total: 0, completed: 0 },
+      Medium: { total: 0, completed: 0 },
+      Hard: { total: 0, completed: 0 }
     },
-    Medium: {
-      total: questions.filter(q => q.difficulty === 'Medium').length,
-      completed: questions.filter(q => 
-        q.difficulty === 'Medium' && 
-        userProgress.some(p => p.question_id === q.id && p.completed)
-      ).length
-    },
-    Hard: {
-      total: questions.filter(q => q.difficulty === 'Hard').length,
-      completed: questions.filter(q => 
-        q.difficulty === 'Hard' && 
-        userProgress.some(p => p.question_id === q.id && p.completed)
-      ).length
+    topics: {},
+    sheets: {},
+    sheetTopics: {},
+    status: { completed: 0, pending: 0, revision: 0 }
+  };
+
+  const tally = (counts: { total: number; completed: number }, completed: boolean) => {
+    counts.total++;
+    if (completed) counts.completed++;
+  };
+
+  questions.forEach(q => {
+    const completed = isQuestionCompleted(index, q.id);
+
+    if (aggregates.difficulty[q.difficulty]) {
+      tally(aggregates.difficulty[q.difficulty], completed);
     }
+
+    aggregates.topics[q.topic] ??= { topic: q.topic, total: 0, completed: 0, percentage: 0 };
+    tally(aggregates.topics[q.topic], completed);
+
+    aggregates.sheets[q.sheet_id] ??= { total: 0, completed: 0, percentage: 0 };
+    tally(aggregates.sheets[q.sheet_id], completed);
+
+    const sheetTopics = (aggregates.sheetTopics[q.sheet_id] ??= {});
+    sheetTopics[q.topic] ??= { topic: q.topic, total: 0, completed: 0, percentage: 0 };
+    tally(sheetTopics[q.topic], completed);
+
+    if (completed) {
+      aggregates.status.completed++;
+    } else {
+      aggregates.status.pending++;
+    }
+    if (isMarkedForRevision(index, q.id)) aggregates.status.revision++;
+  });
+
+  const withPercentage = (counts: { total: number; completed: number; percentage: number }) => {
+    counts.percentage = calculateCompletionRate(counts.total, counts.completed);
   };
+  Object.values(aggregates.topics).forEach(withPercentage);
+  Object.values(aggregates.sheets).forEach(withPercentage);
+  Object.values(aggregates.sheetTopics).forEach(topics => Object.values(topics).forEach(withPercentage));
+
+  return aggregates;
+};
+
+export const calculateDifficultyStats = (
+  questions: Question[],
+  userProgress: UserProgress[]
+): DifficultyStats => {
+  return computeProgressAggregates(questions, userProgress).difficulty;
 };
 
 export const calculateTopicProgress = (
@@ -59,10 +115,9 @@ export const calculateTopicProgress = (
   userProgress: UserProgress[],
   topic: string
 ): TopicProgress => {
+  const index = getProgressIndex(userProgress);
   const topicQuestions = questions.filter(q => q.topic === topic);
-  const completedInTopic = topicQuestions.filter(q =>
-    userProgress.some(p => p.question_id === q.id && p.completed)
-  ).length;
+  const completedInTopic = topicQuestions.filter(q => isQuestionCompleted(index, q.id)).length;
   
   return {
     topic,
@@ -72,35 +127,94 @@ export const calculateTopicProgress = (
   };
 };
 
-export const calculateCurrentStreak = (userProgress: UserProgress[]): number => {
-  const today = new Date();
-  let currentStreak = 0;
-  let checkDate = new Date(today);
-  
-  while (true) {
-    const dateStr = checkDate.toISOString().split('T')[0];
-    const completedToday = userProgress.some(p => 
-      p.completed && p.completed_at && 
-      new Date(p.completed_at).toISOString().split('T')[0] === dateStr
-    );
-    
-    if (completedToday) {
-      currentStreak++;
-      checkDate.setDate(checkDate.getDate() - 1);
-    } else {
-      break;
-    }
-  }
-  
-  return currentStreak;
+// Same totals the dashboard shows per sheet, for any set of questions such as a custom list
+export const calculateQuestionSetProgress = (
+  questions: Question[],
+  userProgress: UserProgress[]
+): SheetProgress => {
+  const index = getProgressIndex(userProgress);
+  const completed = questions.filter(q => isQuestionCompleted(index, q.id)).length;
+
+  return {
+    total: questions.length,
+    completed,
+    percentage: calculateCompletionRate(questions.length, completed)
+  };
 };
 
-export const getQuestionsCompletedToday = (userProgress: UserProgress[]): number => {
-  const todayStr = new Date().toISOString().split('T')[0];
-  return userProgress.filter(p => 
-    p.completed && p.completed_at && 
-    new Date(p.completed_at).toISOString().split('T')[0] === todayStr
-  ).length;
+// Resolves ids to questions in the given order, skipping any that were deleted
+export const getQuestionsByIds = (questionIds: string[], questions: Question[]): Question[] => {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  return questionIds.map(id => byId.get(id)).filter(Boolean);
+};
+
+export const calculateCurrentStreak = (
+  userProgress: UserProgress[],
+  settings: StreakSettings = getStreakSettings()
+): number => {
+  return calculateStreakData(userProgress, settings).currentStreak;
+};
+
+export const getQuestionsCompletedToday = (
+  userProgress: UserProgress[],
+  settings: StreakSettings = getStreakSettings()
+): number => {
+  return countCompletedOnDay(userProgress, getDayKey(new Date(), settings), settings);
+};
+
+export const summarizeUserProgress = (
+  row: UserProgressSummaryRow | undefined,
+  totalQuestions: number,
+  settings: StreakSettings = getStreakSettings()
+): UserProgressSummary => {
+  return {
+    completed: row?.completed ?? 0,
+    total: totalQuestions,
+    lastActiveAt: row?.last_active_at ?? null,
+    streak: calculateStreakFromDays(new Set(row?.completion_days ?? []), settings, row?.freeze_days ?? []).currentStreak
+  };
+};
+
+// ============= SESSION ANALYTICS =============
+export const calculateMedian = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+};
+
+// Total and median seconds per question, grouped by the given key (topic, difficulty, ...)
+export const aggregateSessionTime = (
+  sessions: PracticeSession[],
+  questions: Question[],
+  getKey: (question: Question) => string
+): SessionTimeStats[] => {
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+  const perQuestion = new Map<string, number>();
+  const sessionCounts = new Map<string, number>();
+
+  sessions.forEach(session => {
+    const question = questionsById.get(session.question_id);
+    if (!question) return;
+    const key = getKey(question);
+    perQuestion.set(question.id, (perQuestion.get(question.id) || 0) + session.duration_seconds);
+    sessionCounts.set(key, (sessionCounts.get(key) || 0) + 1);
+  });
+
+  const grouped = new Map<string, number[]>();
+  perQuestion.forEach((seconds, questionId) => {
+    const key = getKey(questionsById.get(questionId));
+    grouped.set(key, [...(grouped.get(key) || []), seconds]);
+  });
+
+  return [...grouped.entries()].map(([key, totals]) => ({
+    key,
+    sessions: sessionCounts.get(key) || 0,
+    totalSeconds: totals.reduce((sum, seconds) => sum + seconds, 0),
+    medianSeconds: calculateMedian(totals)
+  }));
 };
 
 // ============= STYLING UTILITIES =============
@@ -127,19 +241,14 @@ export const filterQuestionsByStatus = (
   userProgress: UserProgress[],
   status: string
 ): Question[] => {
+  const index = getProgressIndex(userProgress);
   switch (status) {
     case 'completed':
-      return questions.filter(q =>
-        userProgress.some(p => p.question_id === q.id && p.completed)
-      );
+      return questions.filter(q => isQuestionCompleted(index, q.id));
     case 'pending':
-      return questions.filter(q =>
-        !userProgress.some(p => p.question_id === q.id && p.completed)
-      );
+      return questions.filter(q => !isQuestionCompleted(index, q.id));
     case 'revision':
-      return questions.filter(q =>
-        userProgress.some(p => p.question_id === q.id && p.marked_for_revision)
-      );
+      return questions.filter(q => isMarkedForRevision(index, q.id));
     default:
       return questions;
   }
@@ -182,6 +291,7 @@ export const sortQuestions = (
   sortBy: string,
   sortOrder: 'asc' | 'desc'
 ): Question[] => {
+  const index = getProgressIndex(userProgress);
   const sorted = [...questions].sort((a, b) => {
     let comparison = 0;
     
@@ -197,8 +307,8 @@ export const sortQuestions = (
         comparison = a.topic.localeCompare(b.topic);
         break;
       case 'completion':
-        const aCompleted = userProgress.some(p => p.question_id === a.id && p.completed);
-        const bCompleted = userProgress.some(p => p.question_id === b.id && p.completed);
+        const aCompleted = isQuestionCompleted(index, a.id);
+        const bCompleted = isQuestionCompleted(index, b.id);
         comparison = Number(aCompleted) - Number(bCompleted);
         break;
       default:
@@ -217,9 +327,11 @@ export const isValidEmail = (email: string): boolean => {
   return emailRegex.test(email);
 };
 
-export const isAdminEmail = (email: string): boolean => {
-  const adminEmails = ['gopikrishnackofficial@gmail.com', 'praveenchintuyt@gmail.com'];
-  return adminEmails.includes(email);
+// Only same-origin paths are honoured as post-login redirects. Browsers read "/\" as "//",
+// so both forms of protocol-relative URL are refused.
+export const getSafeRedirectPath = (path: string | null): string => {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) return '/';
+  return path;
 };
 
 // ============= ARRAY UTILITIES =============
@@ -247,4 +359,91 @@ export const formatArrayForInput = (array: string[]): string => {
 
 export const parseInputToArray = (input: string): string[] => {
   return input.split(',').map(item => item.trim()).filter(Boolean);
-};
\ No newline at end of file
+};
+
+// Hints are whole markdown entries; only blank ones are dropped
+export const normalizeHints = (hints: string[]): string[] => {
+  return hints.map(hint => hint.trim()).filter(Boolean);
+};
+
+// Local calendar date (YYYY-MM-DD) for date inputs
+export const formatDateForInput = (dateString?: string | null): string => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// ============= FILE UTILITIES =============
+export const downloadFile = (fileName: string, content: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ============= COHORT UTILITIES =============
+// Restricts sheets and questions to a cohort's assignments; no assignments means everything is visible
+export const filterAssignedContent = (
+  sheets: Sheet[],
+  questions: Question[],
+  assignments: CohortSheet[]
+): { sheets: Sheet[]; questions: Question[] } => {
+  if (assignments.length === 0) return { sheets, questions };
+
+  const assignmentBySheet = new Map(assignments.map(a => [a.sheet_id, a]));
+  return {
+    sheets: sheets.filter(s => assignmentBySheet.has(s.id)),
+    questions: questions.filter(q => {
+      const assignment = assignmentBySheet.get(q.sheet_id);
+      return assignment && (assignment.topics.length === 0 || assignment.topics.includes(q.topic));
+    })
+  };
+};
+
+export const getSheetDeadline = (dueDate: string | null | undefined, now: Date = new Date()): SheetDeadline | null => {
+  if (!dueDate) return null;
+  const msLeft = new Date(dueDate).getTime() - now.getTime();
+  return {
+    dueDate,
+    daysLeft: Math.ceil(msLeft / (24 * 60 * 60 * 1000)),
+    isOverdue: msLeft < 0
+  };
+};
+
+export const formatDeadlineCountdown = (deadline: SheetDeadline): string => {
+  if (deadline.isOverdue) {
+    const daysOverdue = Math.max(1, -deadline.daysLeft);
+    return `Overdue by ${daysOverdue} day${daysOverdue === 1 ? '' : 's'}`;
+  }
+  if (deadline.daysLeft <= 1) return 'Due today';
+  return `Due in ${deadline.daysLeft} days`;
+};
+
+// ============= REALTIME UTILITIES =============
+// Applies one INSERT/UPDATE/DELETE payload to a list of rows without refetching.
+// DELETE payloads only carry the primary key, so isSameRow must match on it.
+export const applyRealtimeChange = <T>(
+  rows: T[],
+  change: RealtimeChange<T>,
+  isSameRow: (row: T, record: Partial<T>) => boolean,
+  compare?: (a: T, b: T) => number
+): T[] => {
+  if (change.eventType === 'DELETE') {
+    return rows.filter(row => !isSameRow(row, change.old));
+  }
+
+  const record = change.new as T;
+  const index = rows.findIndex(row => isSameRow(row, record));
+  const next = [...rows];
+  if (index >= 0) {
+    next[index] = { ...next[index], ...record };
+  } else {
+    next.push(record);
+  }
+  return compare ? next.sort(compare) : next;
+};
@@ -0,0 +1,143 @@
+// Question draws, timing and scoring for timed mock interviews
+import type { DifficultyMix, MockInterviewConfig, MockInterviewResult, MockInterviewState, Question, SessionOutcome, UserProgress } from '@/types';
+import { MOCK_INTERVIEW } from '@/constants';
+import { getProgressIndex, isMarkedForRevision, isQuestionCompleted } from '@/utils';
+
+const DIFFICULTIES: Question['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+// Unsolved or revision questions in the chosen sheets and topics
+export const getMockCandidates = (
+  questions: Question[],
+  userProgress: UserProgress[],
+  { sheetIds, topics }: Pick<MockInterviewConfig, 'sheetIds' | 'topics'>
+): Question[] => {
+  const index = getProgressIndex(userProgress);
+  return questions.filter(q =>
+    sheetIds.includes(q.sheet_id) &&
+    (topics.length === 0 || topics.includes(q.topic)) &&
+    (!isQuestionCompleted(index, q.id) || isMarkedForRevision(index, q.id))
+  );
+};
+
+export const countByDifficulty = (questions: Question[]): DifficultyMix => {
+  const counts: DifficultyMix = { Easy: 0, Medium: 0, Hard: 0 };
+  questions.forEach(q => {
+    if (q.difficulty in counts) counts[q.difficulty]++;
+  });
+  return counts;
+};
+
+// Random questions for each difficulty in the mix, easiest first. A difficulty
+// with too few candidates contributes what it has.
+export const drawMockQuestions = (
+  candidates: Question[],
+  mix: DifficultyMix,
+  random: () => number = Math.random
+): Question[] => {
+  return DIFFICULTIES.flatMap(difficulty => {
+    const pool = candidates.filter(q => q.difficulty === difficulty);
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, mix[difficulty]);
+  });
+};
+
+export const getSuggestedTimeLimit = (mix: DifficultyMix): number =>
+  DIFFICULTIES.reduce((minutes, difficulty) => minutes + mix[difficulty] * MOCK_INTERVIEW.MINUTES_PER_QUESTION[difficulty], 0);
+
+export const startMockInterview = (
+  userId: string,
+  config: MockInterviewConfig,
+  questionIds: string[],
+  now: number = Date.now()
+): MockInterviewState => ({
+  userId,
+  config,
+  questionIds,
+  startedAt: now,
+  deadline: now + config.timeLimitMinutes * 60 * 1000,
+  currentIndex: 0,
+  spentMs: questionIds.map(() => 0),
+  firstActiveAt: questionIds.map((_, i) => (i === 0 ? now : null)),
+  lastActiveAt: questionIds.map(() => null),
+  activeSince: now,
+  endedAt: null,
+  assessments: questionIds.map(() => null)
+});
+
+export const getRemainingMs = (state: MockInterviewState, now: number = Date.now()): number =>
+  Math.max(0, state.deadline - (state.endedAt ?? now));
+
+// Mocks saved before per-question spans were tracked have none
+const getSpans = (state: MockInterviewState) => ({
+  firstActiveAt: state.firstActiveAt ?? state.questionIds.map(() => null),
+  lastActiveAt: state.lastActiveAt ?? state.questionIds.map(() => null)
+});
+
+// Closes the current question's stretch, never counting time past the deadline
+const closeStretch = (state: MockInterviewState, at: number): Pick<MockInterviewState, 'spentMs' | 'lastActiveAt'> => {
+  const { lastActiveAt } = getSpans(state);
+  if (state.activeSince === null) return { spentMs: state.spentMs, lastActiveAt };
+  const end = Math.min(at, state.deadline);
+  return {
+    spentMs: state.spentMs.map((ms, i) => i === state.currentIndex ? ms + Math.max(0, end - state.activeSince) : ms),
+    lastActiveAt: lastActiveAt.map((last, i) => i === state.currentIndex ? end : last)
+  };
+};
+
+export const getQuestionSpentMs = (state: MockInterviewState, index: number, now: number = Date.now()): number =>
+  closeStretch(state, now).spentMs[index];
+
+export const switchMockQuestion = (state: MockInterviewState, index: number, now: number = Date.now()): MockInterviewState => {
+  const running = state.activeSince !== null;
+  return {
+    ...state,
+    ...closeStretch(state, now),
+    firstActiveAt: getSpans(state).firstActiveAt.map((first, i) => i === index && first === null && running ? now : first),
+    currentIndex: index,
+    activeSince: running ? now : null
+  };
+};
+
+export const finishMockInterview = (state: MockInterviewState, now: number = Date.now()): MockInterviewState => {
+  if (state.endedAt !== null) return state;
+  return {
+    ...state,
+    ...closeStretch(state, now),
+    activeSince: null,
+    endedAt: Math.min(now, state.deadline)
+  };
+};
+
+export const getMockScore = (assessments: SessionOutcome[]): number => {
+  if (assessments.length === 0) return 0;
+  const earned = assessments.reduce((sum, outcome) => sum + MOCK_INTERVIEW.ASSESSMENT_WEIGHTS[outcome], 0);
+  return Math.round((earned / assessments.length) * 100);
+};
+
+// Expects a finished mock with every question assessed. Each question keeps the
+// stretch from when it was first opened to when it was last left.
+export const buildMockInterviewResult = (state: MockInterviewState): MockInterviewResult => {
+  const { firstActiveAt, lastActiveAt } = getSpans(state);
+  const toIso = (at: number | null, fallback: number) => new Date(at ?? fallback).toISOString();
+
+  return {
+    startedAt: new Date(state.startedAt).toISOString(),
+    endedAt: new Date(state.endedAt).toISOString(),
+    timeLimitSeconds: state.config.timeLimitMinutes * 60,
+    timeUsedSeconds: Math.floor((state.endedAt - state.startedAt) / 1000),
+    score: getMockScore(state.assessments),
+    sheetIds: state.config.sheetIds,
+    topics: state.config.topics,
+    questions: state.questionIds.map((questionId, position) => ({
+      question_id: questionId,
+      position,
+      time_spent_seconds: Math.floor(state.spentMs[position] / 1000),
+      assessment: state.assessments[position],
+      started_at: toIso(firstActiveAt[position], state.startedAt),
+      ended_at: toIso(lastActiveAt[position], state.endedAt)
+    }))
+  };
+};
@@ -0,0 +1,97 @@
+// Flattens a student's progress into CSV and JSON for use outside the app
+import type { Profile, ProgressExport, ProgressExportRow, ProgressExportStatus, Question, Sheet, UserProgress } from '@/types';
+import { getProgressIndex } from '@/utils';
+
+const CSV_COLUMNS: (keyof ProgressExportRow)[] = [
+  'sheet',
+  'order_index',
+  'title',
+  'topic',
+  'difficulty',
+  'status',
+  'marked_for_revision',
+  'note',
+  'time_spent_seconds',
+  'completed_at'
+];
+
+const getStatus = (progress?: UserProgress): ProgressExportStatus => {
+  if (progress?.completed) return 'Solved';
+  if (progress && (progress.time_spent || progress.note || progress.marked_for_revision)) return 'In progress';
+  return 'Not started';
+};
+
+// Every question in sheet order, whether or not the student has touched it
+export const buildProgressExportRows = (
+  sheets: Sheet[],
+  questions: Question[],
+  userProgress: UserProgress[]
+): ProgressExportRow[] => {
+  const index = getProgressIndex(userProgress);
+  const sheetOrder = new Map(sheets.map((sheet, i) => [sheet.id, i]));
+  const sheetTitles = new Map(sheets.map(sheet => [sheet.id, sheet.title]));
+
+  return [...questions]
+    .sort((a, b) =>
+      (sheetOrder.get(a.sheet_id) ?? sheets.length) - (sheetOrder.get(b.sheet_id) ?? sheets.length) ||
+      a.order_index - b.order_index
+    )
+    .map(question => {
+      const progress = index.get(question.id);
+      return {
+        sheet: sheetTitles.get(question.sheet_id) ?? '',
+        order_index: question.order_index,
+        title: question.title,
+        topic: question.topic,
+        difficulty: question.difficulty,
+        status: getStatus(progress),
+        marked_for_revision: progress?.marked_for_revision || false,
+        note: progress?.note || '',
+        time_spent_seconds: progress?.time_spent || 0,
+        completed_at: progress?.completed ? progress.completed_at || '' : ''
+      };
+    });
+};
+
+export const buildProgressExport = (
+  profile: Pick<Profile, 'name' | 'email'> | null,
+  sheets: Sheet[],
+  questions: Question[],
+  userProgress: UserProgress[]
+): ProgressExport => {
+  const rows = buildProgressExportRows(sheets, questions, userProgress);
+  return {
+    exported_at: new Date().toISOString(),
+    student: {
+      name: profile?.name || '',
+      email: profile?.email || ''
+    },
+    summary: {
+      total: rows.length,
+      solved: rows.filter(r => r.status === 'Solved').length,
+      marked_for_revision: rows.filter(r => r.marked_for_revision).length,
+      time_spent_seconds: rows.reduce((sum, r) => sum + r.time_spent_seconds, 0)
+    },
+    questions: rows
+  };
+};
+
+// Quotes fields that need it, and defuses notes a spreadsheet would run as formulas
+const toCsvField = (value: string | number | boolean): string => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toProgressCsv = (rows: ProgressExportRow[]): string => {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => toCsvField(row[column])).join(','))
+  ];
+  return lines.join('\r\n');
+};
+
+export const getProgressExportFileName = (name: string | undefined, extension: 'csv' | 'json'): string => {
+  const slug = (name || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'student'}-progress-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
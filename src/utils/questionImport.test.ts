@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseJson } from './questionImport';
+
+describe('parseCsv', () => {
+  it('maps each row to the trimmed header columns', () => {
+    expect(parseCsv(' title , difficulty \nTwo Sum, Easy \n3Sum,Medium')).toEqual([
+      { title: 'Two Sum', difficulty: 'Easy' },
+      { title: '3Sum', difficulty: 'Medium' }
+    ]);
+  });
+
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    const csv = 'title,notes\n"Two Sum, revisited","Line one\nLine two"\n"Say ""hi""",plain';
+
+    expect(parseCsv(csv)).toEqual([
+      { title: 'Two Sum, revisited', notes: 'Line one\nLine two' },
+      { title: 'Say "hi"', notes: 'plain' }
+    ]);
+  });
+
+  it('handles CRLF line endings and skips blank lines', () => {
+    expect(parseCsv('title,topic\r\n\r\nTwo Sum,Arrays\r\n , \r\n')).toEqual([
+      { title: 'Two Sum', topic: 'Arrays' }
+    ]);
+  });
+
+  it('fills missing trailing fields of a short row with empty strings', () => {
+    expect(parseCsv('title,topic,difficulty\nTwo Sum')).toEqual([
+      { title: 'Two Sum', topic: '', difficulty: '' }
+    ]);
+  });
+
+  it('returns no rows for an empty file or a header alone', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('title,topic\n')).toEqual([]);
+  });
+});
+
+describe('parseJson', () => {
+  it('accepts a top-level array or an object with a questions array', () => {
+    const question = { title: ' Two Sum ', difficulty: 'Easy' };
+
+    expect(parseJson(JSON.stringify([question]))).toEqual([{ title: 'Two Sum', difficulty: 'Easy' }]);
+    expect(parseJson(JSON.stringify({ questions: [question] }))).toEqual([{ title: 'Two Sum', difficulty: 'Easy' }]);
+  });
+
+  it('joins array values and stringifies the rest', () => {
+    expect(parseJson(JSON.stringify([{ tags: ['array', 'hash map'], order_index: 3, notes: null }]))).toEqual([
+      { tags: 'array, hash map', order_index: '3', notes: '' }
+    ]);
+  });
+
+  it('rejects input that holds no list of questions', () => {
+    expect(() => parseJson('{"title":"Two Sum"}')).toThrow('JSON must be an array of questions');
+    expect(() => parseJson('"Two Sum"')).toThrow('JSON must be an array of questions');
+  });
+
+  it('reports the row number of an item that is not an object', () => {
+    expect(() => parseJson('[{"title":"Two Sum"},"3Sum"]')).toThrow('Row 2 must be an object with question fields');
+    expect(() => parseJson('[null]')).toThrow('Row 1 must be an object with question fields');
+    expect(() => parseJson('{"questions":[{"title":"Two Sum"},{"title":"3Sum"},["Valid Anagram"]]}'))
+      .toThrow('Row 3 must be an object with question fields');
+  });
+});
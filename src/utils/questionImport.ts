@@ -0,0 +1,206 @@
+// Parsing, column mapping and validation for bulk question imports
+import type {
+  Question,
+  QuestionFormData,
+  ImportField,
+  ImportColumnMapping,
+  ImportRowResult,
+  RawImportRow
+} from '@/types';
+import { DIFFICULTY_LEVELS, IMPORT_FIELDS } from '@/constants';
+import { formatArrayForInput } from '@/utils';
+
+// ============= PARSING =============
+// RFC 4180 style parser: quoted fields may contain commas, newlines and "" escapes
+export const parseCsv = (text: string): RawImportRow[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+
+  const [header, ...rows] = nonEmpty;
+  const columns = header.map(h => h.trim());
+
+  return rows.map(row =>
+    columns.reduce((acc, column, index) => {
+      acc[column] = (row[index] ?? '').trim();
+      return acc;
+    }, {} as RawImportRow)
+  );
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseJson = (text: string): RawImportRow[] => {
+  const parsed = JSON.parse(text);
+  const items = Array.isArray(parsed) ? parsed : parsed?.questions;
+
+  if (!Array.isArray(items)) {
+    throw new Error('JSON must be an array of questions or an object with a "questions" array');
+  }
+
+  // Rows are numbered from 1, as in the import preview
+  return items.map((item: unknown, index) => {
+    if (!isPlainObject(item)) {
+      throw new Error(`Row ${index + 1} must be an object with question fields`);
+    }
+    return Object.entries(item).reduce((acc, [key, value]) => {
+      acc[key] = Array.isArray(value) ? formatArrayForInput(value.map(String)) : String(value ?? '').trim();
+      return acc;
+    }, {} as RawImportRow);
+  });
+};
+
+export const parseImportFile = (fileName: string, text: string): RawImportRow[] => {
+  return fileName.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+};
+
+export const getImportColumns = (rows: RawImportRow[]): string[] => {
+  return [...new Set(rows.flatMap(row => Object.keys(row)))];
+};
+
+// ============= COLUMN MAPPING =============
+const normalizeColumnName = (name: string): string => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// Matches columns such as "Title", "solve url" or "Order Index" to form fields
+export const suggestColumnMapping = (columns: string[]): ImportColumnMapping => {
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const match = columns.find(column =>
+      [field, ...aliases].some(name => normalizeColumnName(name) === normalizeColumnName(column))
+    );
+    mapping[field] = match ?? '';
+    return mapping;
+  }, {} as ImportColumnMapping);
+};
+
+// ============= VALIDATION =============
+export const normalizeDifficulty = (value: string): QuestionFormData['difficulty'] | null => {
+  return DIFFICULTY_LEVELS.find(level => level.toLowerCase() === value.trim().toLowerCase()) ?? null;
+};
+
+export const isValidHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const normalizeUrl = (url: string): string => url.trim().toLowerCase().replace(/\/+$/, '');
+
+const readField = (row: RawImportRow, mapping: ImportColumnMapping, field: ImportField): string => {
+  const column = mapping[field];
+  return column ? (row[column] ?? '').trim() : '';
+};
+
+export const validateImportRows = (
+  rows: RawImportRow[],
+  mapping: ImportColumnMapping,
+  sheetId: string,
+  existingQuestions: Question[]
+): ImportRowResult[] => {
+  const sheetQuestions = existingQuestions.filter(q => q.sheet_id === sheetId);
+  const seenTitles = new Set(sheetQuestions.map(q => normalizeTitle(q.title)));
+  const seenUrls = new Set(sheetQuestions.filter(q => q.solve_url).map(q => normalizeUrl(q.solve_url)));
+  let nextOrderIndex = sheetQuestions.reduce((max, q) => Math.max(max, q.order_index), 0) + 1;
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const title = readField(row, mapping, 'title');
+    const topic = readField(row, mapping, 'topic');
+    const rawDifficulty = readField(row, mapping, 'difficulty');
+    const solveUrl = readField(row, mapping, 'solve_url');
+    const rawOrderIndex = readField(row, mapping, 'order_index');
+
+    if (!title) errors.push('Missing title');
+    if (!topic) errors.push('Missing topic');
+
+    const difficulty = normalizeDifficulty(rawDifficulty);
+    if (!difficulty) {
+      errors.push(rawDifficulty ? `Unknown difficulty "${rawDifficulty}"` : 'Missing difficulty');
+    }
+
+    if (solveUrl && !isValidHttpUrl(solveUrl)) errors.push(`Invalid solve URL "${solveUrl}"`);
+
+    let orderIndex = nextOrderIndex;
+    if (rawOrderIndex) {
+      const parsed = Number(rawOrderIndex);
+      if (Number.isInteger(parsed)) {
+        orderIndex = parsed;
+      } else {
+        errors.push(`Invalid order index "${rawOrderIndex}"`);
+      }
+    }
+
+    const data: QuestionFormData = {
+      sheet_id: sheetId,
+      title,
+      topic,
+      tags: readField(row, mapping, 'tags'),
+      difficulty: difficulty ?? 'Easy',
+      solve_url: solveUrl,
+      order_index: orderIndex
+    };
+
+    if (errors.length > 0) {
+      return { rowNumber: index + 1, data, status: 'invalid', errors };
+    }
+
+    const duplicateTitle = seenTitles.has(normalizeTitle(title));
+    const duplicateUrl = solveUrl !== '' && seenUrls.has(normalizeUrl(solveUrl));
+    if (duplicateTitle || duplicateUrl) {
+      return {
+        rowNumber: index + 1,
+        data,
+        status: 'duplicate',
+        errors: [duplicateTitle ? 'Duplicate title in sheet' : 'Duplicate solve URL in sheet']
+      };
+    }
+
+    seenTitles.add(normalizeTitle(title));
+    if (solveUrl) seenUrls.add(normalizeUrl(solveUrl));
+    nextOrderIndex = Math.max(nextOrderIndex, orderIndex) + 1;
+
+    return { rowNumber: index + 1, data, status: 'valid', errors: [] };
+  });
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { getRecommendations } from './recommendations';
+import type { Question, Sheet, UserProgress } from '@/types';
+
+const NOW = new Date('2026-03-20T12:00:00.000Z');
+
+const sheet = (id: string, title: string): Sheet => ({
+  id,
+  title,
+  description: '',
+  topics: [],
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z'
+});
+
+const question = (id: string, topic: string, difficulty: Question['difficulty'], sheet_id: string, order_index: number): Question => ({
+  id,
+  sheet_id,
+  title: id,
+  topic,
+  tags: [],
+  difficulty,
+  order_index,
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z'
+});
+
+const progress = (questionId: string, overrides: Partial<UserProgress> = {}): UserProgress => ({
+  id: `p-${questionId}`,
+  user_id: 'user-1',
+  question_id: questionId,
+  completed: true,
+  marked_for_revision: false,
+  completed_at: '2026-03-10T12:00:00.000Z',
+  created_at: '2026-03-10T12:00:00.000Z',
+  updated_at: '2026-03-10T12:00:00.000Z',
+  ...overrides
+});
+
+const sheets = [sheet('s-1', 'Blind 75'), sheet('s-2', 'Extra')];
+const questions = [
+  question('a-easy', 'Arrays', 'Easy', 's-1', 1),
+  question('a-easy-2', 'Arrays', 'Easy', 's-1', 2),
+  question('a-medium', 'Arrays', 'Medium', 's-1', 5),
+  question('g-easy', 'Graphs', 'Easy', 's-2', 1),
+  question('g-easy-2', 'Graphs', 'Easy', 's-1', 3),
+  question('g-hard', 'Graphs', 'Hard', 's-1', 4)
+];
+
+const recommend = (userProgress: UserProgress[], limit: number, excludeIds: string[] = []) =>
+  getRecommendations(sheets, questions, userProgress, { limit, excludeIds, now: NOW });
+
+const ids = (userProgress: UserProgress[], limit: number, excludeIds: string[] = []) =>
+  recommend(userProgress, limit, excludeIds).map(r => r.question.id);
+
+describe('getRecommendations', () => {
+  it('recommends nothing when there are no questions', () => {
+    expect(getRecommendations(sheets, [], [], { limit: 5, now: NOW })).toEqual([]);
+  });
+
+  it('starts a student without progress on easy questions in sheet order', () => {
+    expect(ids([], 6)).toEqual(['a-easy', 'a-easy-2', 'g-easy-2', 'g-easy', 'a-medium', 'g-hard']);
+    expect(recommend([], 1)[0].reasons).toEqual([
+      'You have not started Arrays yet',
+      'Easy Arrays questions come before Medium and Hard',
+      'Next in Blind 75 order for this topic'
+    ]);
+  });
+
+  it('takes one question per topic before a second from the same topic', () => {
+    expect(ids([], 2)).toEqual(['a-easy', 'g-easy-2']);
+    expect(ids([], 3)).toEqual(['a-easy', 'a-easy-2', 'g-easy-2']);
+  });
+
+  it('ranks the weaker topic first and moves a topic up the difficulty ladder', () => {
+    const userProgress = [progress('a-easy'), progress('a-easy-2')];
+
+    expect(ids(userProgress, 4)).toEqual(['g-easy-2', 'g-easy', 'a-medium', 'g-hard']);
+    expect(recommend(userProgress, 4)[2].reasons).toEqual([
+      'You have finished the Easy Arrays questions, so it is time for Medium',
+      'Next in Blind 75 order for this topic'
+    ]);
+    expect(recommend(userProgress, 4)[3].reasons).toContain('A Hard stretch while Graphs still has easier questions left');
+  });
+
+  it('puts overdue revision first, then revision due today', () => {
+    const userProgress = [
+      progress('a-easy', { marked_for_revision: true, next_review_at: '2026-03-15T12:00:00.000Z' }),
+      progress('g-easy', { marked_for_revision: true, next_review_at: null }),
+      progress('a-easy-2', { marked_for_revision: true, next_review_at: '2026-03-30T12:00:00.000Z' })
+    ];
+    const recommendations = recommend(userProgress, 3);
+
+    expect(recommendations.map(r => r.question.id)).toEqual(['a-easy', 'g-easy', 'g-easy-2']);
+    expect(recommendations[0].reasons).toEqual(['Overdue for revision']);
+    expect(recommendations[1].reasons).toEqual(['Due for revision today']);
+  });
+
+  it('leaves out solved questions and excluded ones', () => {
+    const userProgress = [progress('a-easy'), progress('g-easy-2')];
+
+    expect(ids(userProgress, 6)).not.toContain('a-easy');
+    expect(ids(userProgress, 6, ['a-easy-2'])).toEqual(['g-easy', 'a-medium', 'g-hard']);
+  });
+});
@@ -0,0 +1,138 @@
+// Deterministic "up next" ranking of the questions a student should do next
+import type { Question, Recommendation, RevisionQueue, Sheet, TopicProgress, UserProgress } from '@/types';
+import { RECOMMENDATIONS } from '@/constants';
+import { computeProgressAggregates, getProgressIndex, isQuestionCompleted } from '@/utils';
+import { getRevisionQueue } from './spacedRepetition';
+
+const DIFFICULTY_LADDER: Question['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+// Lower tiers always rank first; everything else only breaks ties within a tier
+const TIERS = {
+  REVISION_OVERDUE: 0,
+  REVISION_DUE: 1,
+  DIFFICULTY_LADDER: 2,
+  STRETCH: 3
+} as const;
+
+type Tier = typeof TIERS[keyof typeof TIERS];
+
+const getDifficultyRank = (difficulty: Question['difficulty']) => DIFFICULTY_LADDER.indexOf(difficulty);
+
+interface Candidate {
+  question: Question;
+  tier: Tier;
+  topic: TopicProgress;
+  sheetRank: number;
+}
+
+interface RecommendationOptions {
+  limit: number;
+  // Usually the question the student just finished
+  excludeIds?: string[];
+  now?: Date;
+}
+
+const compareCandidates = (a: Candidate, b: Candidate) =>
+  a.tier - b.tier ||
+  a.topic.percentage - b.topic.percentage ||
+  getDifficultyRank(a.question.difficulty) - getDifficultyRank(b.question.difficulty) ||
+  a.sheetRank - b.sheetRank ||
+  a.question.order_index - b.question.order_index ||
+  a.question.id.localeCompare(b.question.id);
+
+const getTier = (revisionQueue: RevisionQueue | null, difficulty: Question['difficulty'], ladderStep: number): Tier => {
+  if (revisionQueue === 'overdue') return TIERS.REVISION_OVERDUE;
+  if (revisionQueue === 'due') return TIERS.REVISION_DUE;
+  return getDifficultyRank(difficulty) <= ladderStep ? TIERS.DIFFICULTY_LADDER : TIERS.STRETCH;
+};
+
+const explain = (candidate: Candidate, ladderStep: number, isNextInSheet: boolean, sheetTitle?: string): string[] => {
+  const { question, tier, topic } = candidate;
+  if (tier === TIERS.REVISION_OVERDUE) return ['Overdue for revision'];
+  if (tier === TIERS.REVISION_DUE) return ['Due for revision today'];
+
+  const reasons: string[] = [];
+  if (topic.completed === 0) {
+    reasons.push(`You have not started ${topic.topic} yet`);
+  } else if (topic.percentage < RECOMMENDATIONS.WEAK_TOPIC_PERCENTAGE) {
+    reasons.push(`${topic.topic} is one of your weaker topics (${topic.percentage}% complete)`);
+  }
+
+  if (tier === TIERS.STRETCH) {
+    reasons.push(`A ${question.difficulty} stretch while ${topic.topic} still has easier questions left`);
+  } else if (ladderStep > 0) {
+    reasons.push(`You have finished the ${DIFFICULTY_LADDER[ladderStep - 1]} ${topic.topic} questions, so it is time for ${question.difficulty}`);
+  } else {
+    reasons.push(`Easy ${topic.topic} questions come before Medium and Hard`);
+  }
+
+  if (isNextInSheet && sheetTitle) {
+    reasons.push(`Next in ${sheetTitle} order for this topic`);
+  }
+  return reasons;
+};
+
+// Ranks unsolved and due-for-revision questions by revision urgency, then weakest
+// topic, difficulty ladder and sheet order. The first pass takes at most one
+// question per topic so the list is not all one topic.
+export const getRecommendations = (
+  sheets: Sheet[],
+  questions: Question[],
+  userProgress: UserProgress[],
+  { limit, excludeIds = [], now = new Date() }: RecommendationOptions
+): Recommendation[] => {
+  const index = getProgressIndex(userProgress);
+  const { topics } = computeProgressAggregates(questions, userProgress);
+  const sheetRanks = new Map(sheets.map((sheet, i) => [sheet.id, i]));
+  const sheetTitles = new Map(sheets.map(sheet => [sheet.id, sheet.title]));
+
+  // Easiest difficulty each topic still has unsolved questions at
+  const ladderSteps = new Map<string, number>();
+  // Lowest order_index still unsolved for each sheet and topic
+  const nextInSheet = new Map<string, number>();
+  questions.forEach(q => {
+    if (isQuestionCompleted(index, q.id)) return;
+    ladderSteps.set(q.topic, Math.min(ladderSteps.get(q.topic) ?? Infinity, getDifficultyRank(q.difficulty)));
+    const key = `${q.sheet_id}:${q.topic}`;
+    nextInSheet.set(key, Math.min(nextInSheet.get(key) ?? Infinity, q.order_index));
+  });
+
+  const candidates: Candidate[] = [];
+  questions.forEach(question => {
+    if (excludeIds.includes(question.id)) return;
+    const progress = index.get(question.id);
+    const revisionQueue = progress?.marked_for_revision ? getRevisionQueue(progress, now) : null;
+    const isRevisionDue = revisionQueue === 'overdue' || revisionQueue === 'due';
+    if (progress?.completed && !isRevisionDue) return;
+
+    candidates.push({
+      question,
+      tier: getTier(revisionQueue, question.difficulty, ladderSteps.get(question.topic) ?? 0),
+      topic: topics[question.topic],
+      sheetRank: sheetRanks.get(question.sheet_id) ?? sheets.length
+    });
+  });
+  candidates.sort(compareCandidates);
+
+  const picked: Candidate[] = [];
+  const pickedTopics = new Set<string>();
+  candidates.forEach(candidate => {
+    if (picked.length < limit && !pickedTopics.has(candidate.question.topic)) {
+      picked.push(candidate);
+      pickedTopics.add(candidate.question.topic);
+    }
+  });
+  candidates.forEach(candidate => {
+    if (picked.length < limit && !picked.includes(candidate)) picked.push(candidate);
+  });
+  picked.sort(compareCandidates);
+
+  return picked.map(candidate => {
+    const { question } = candidate;
+    const isNextInSheet = nextInSheet.get(`${question.sheet_id}:${question.topic}`) === question.order_index;
+    return {
+      question,
+      reasons: explain(candidate, ladderSteps.get(question.topic) ?? 0, isNextInSheet, sheetTitles.get(question.sheet_id))
+    };
+  });
+};
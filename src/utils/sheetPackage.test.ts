@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { appendAfterExisting, buildSheetPackage, parseSheetPackage, validateSheetPackage } from './sheetPackage';
+import { SHEET_PACKAGE_FORMAT, SHEET_PACKAGE_VERSION } from '@/constants';
+import type { Question, Sheet, SheetQuestionContent } from '@/types';
+
+const sheet: Sheet = {
+  id: 'sheet-1',
+  title: 'Blind 75',
+  description: 'Classics',
+  topics: ['Arrays'],
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+};
+
+const question: Question = {
+  id: 'q-1',
+  sheet_id: 'sheet-1',
+  title: 'Two Sum',
+  topic: 'Arrays',
+  tags: ['hash map'],
+  difficulty: 'Easy',
+  solve_url: 'https://leetcode.com/problems/two-sum/',
+  order_index: 1,
+  description: 'Find two numbers that add up to the target.',
+  editorial_unlock_hints: 2,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+};
+
+const content: SheetQuestionContent[] = [{
+  question_id: 'q-1',
+  hints: ['Try a hash map', 'Store complements'],
+  editorial: 'One pass with a map of seen values.'
+}];
+
+describe('sheet packages', () => {
+  it('carry statements, hints and editorials through export and import', () => {
+    const sheetPackage = parseSheetPackage(JSON.stringify(buildSheetPackage(sheet, [question], content)));
+    expect(sheetPackage.version).toBe(SHEET_PACKAGE_VERSION);
+
+    const [result] = validateSheetPackage(sheetPackage, 'sheet-2', []);
+    expect(result.status).toBe('valid');
+    expect(result.data).toMatchObject({
+      sheet_id: 'sheet-2',
+      title: 'Two Sum',
+      description: 'Find two numbers that add up to the target.',
+      hints: ['Try a hash map', 'Store complements'],
+      editorial: 'One pass with a map of seen values.',
+      editorial_unlock_hints: 2
+    });
+  });
+
+  it('keep a multi-line markdown hint as one hint', () => {
+    const hint = 'Sort first:\n\n```python\nnums.sort()\n```';
+    const sheetPackage = parseSheetPackage(JSON.stringify(
+      buildSheetPackage(sheet, [question], [{ question_id: 'q-1', hints: [hint, 'Then two pointers'], editorial: null }])
+    ));
+
+    const [result] = validateSheetPackage(sheetPackage, 'sheet-2', []);
+    expect(result.data.hints).toEqual([hint, 'Then two pointers']);
+  });
+
+  it('still read version 1 packages, with empty content', () => {
+    const sheetPackage = parseSheetPackage(JSON.stringify({
+      format: SHEET_PACKAGE_FORMAT,
+      version: 1,
+      exported_at: '2026-01-01T00:00:00.000Z',
+      sheet: { title: 'Old', description: '', topics: ['Arrays'] },
+      questions: [{ title: 'Two Sum', topic: 'Arrays', tags: [], difficulty: 'Easy', solve_url: null, order_index: 1 }]
+    }));
+
+    expect(sheetPackage.questions[0]).toMatchObject({ description: null, hints: [], editorial: null, editorial_unlock_hints: null });
+    const [result] = validateSheetPackage(sheetPackage, 'sheet-2', []);
+    expect(result.status).toBe('valid');
+    expect(result.data).toMatchObject({ description: '', hints: [], editorial: '', editorial_unlock_hints: null });
+  });
+
+  it('refuse packages from a newer version', () => {
+    const text = JSON.stringify({ ...buildSheetPackage(sheet, [question], content), version: SHEET_PACKAGE_VERSION + 1 });
+    expect(() => parseSheetPackage(text)).toThrow(`Unsupported sheet package version ${SHEET_PACKAGE_VERSION + 1}`);
+  });
+
+  it('append merged questions after the last one in the target sheet', () => {
+    const [result] = validateSheetPackage(parseSheetPackage(JSON.stringify(buildSheetPackage(sheet, [question], content))), 'sheet-2', []);
+    const existing = [
+      { ...question, id: 'q-2', sheet_id: 'sheet-2', order_index: 7 },
+      { ...question, id: 'q-3', sheet_id: 'sheet-3', order_index: 40 }
+    ];
+    const rows = [{ ...result.data, order_index: 3 }, { ...result.data, title: 'Three Sum', order_index: 1 }];
+
+    expect(appendAfterExisting(rows, 'sheet-2', existing).map(r => [r.title, r.order_index])).toEqual([
+      ['Three Sum', 8],
+      ['Two Sum', 9]
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+// Portable, versioned JSON format for moving sheets between projects
+import type { Sheet, Question, QuestionFormData, SheetPackage, SheetQuestionContent, ImportColumnMapping, ImportRowResult } from '@/types';
+import { SHEET_PACKAGE_FORMAT, SHEET_PACKAGE_VERSION } from '@/constants';
+import { downloadFile, formatArrayForInput } from '@/utils';
+import { validateImportRows } from '@/utils/questionImport';
+
+export const buildSheetPackage = (sheet: Sheet, questions: Question[], content: SheetQuestionContent[]): SheetPackage => {
+  const contentById = new Map(content.map(c => [c.question_id, c]));
+  return {
+    format: SHEET_PACKAGE_FORMAT,
+    version: SHEET_PACKAGE_VERSION,
+    exported_at: new Date().toISOString(),
+    sheet: {
+      title: sheet.title,
+      description: sheet.description || '',
+      topics: sheet.topics
+    },
+    questions: questions
+      .filter(q => q.sheet_id === sheet.id)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(q => ({
+        title: q.title,
+        topic: q.topic,
+        tags: q.tags,
+        difficulty: q.difficulty,
+        solve_url: q.solve_url || null,
+        order_index: q.order_index,
+        description: q.description || null,
+        hints: contentById.get(q.id)?.hints ?? [],
+        editorial: contentById.get(q.id)?.editorial || null,
+        editorial_unlock_hints: q.editorial_unlock_hints ?? null
+      }))
+  };
+};
+
+export const parseSheetPackage = (text: string): SheetPackage => {
+  let parsed: SheetPackage;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (parsed?.format !== SHEET_PACKAGE_FORMAT) {
+    throw new Error('The file is not a sheet package');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > SHEET_PACKAGE_VERSION) {
+    throw new Error(`Unsupported sheet package version ${parsed.version}`);
+  }
+  if (!parsed.sheet?.title || !Array.isArray(parsed.questions)) {
+    throw new Error('The sheet package is missing its sheet or questions');
+  }
+
+  return {
+    ...parsed,
+    sheet: {
+      title: parsed.sheet.title,
+      description: parsed.sheet.description || '',
+      topics: Array.isArray(parsed.sheet.topics) ? parsed.sheet.topics : []
+    },
+    questions: parsed.questions.map(q => ({
+      ...q,
+      description: q.description || null,
+      hints: Array.isArray(q.hints) ? q.hints : [],
+      editorial: q.editorial || null,
+      editorial_unlock_hints: Number.isInteger(q.editorial_unlock_hints) ? q.editorial_unlock_hints : null
+    }))
+  };
+};
+
+const PACKAGE_COLUMN_MAPPING: ImportColumnMapping = {
+  title: 'title',
+  topic: 'topic',
+  tags: 'tags',
+  difficulty: 'difficulty',
+  solve_url: 'solve_url',
+  order_index: 'order_index'
+};
+
+// Runs package questions through the bulk import validation so merges skip duplicates
+export const validateSheetPackage = (
+  sheetPackage: SheetPackage,
+  sheetId: string,
+  existingQuestions: Question[]
+): ImportRowResult[] => {
+  const rows = sheetPackage.questions.map(q => ({
+    title: q.title ?? '',
+    topic: q.topic ?? '',
+    tags: formatArrayForInput(q.tags ?? []),
+    difficulty: q.difficulty ?? '',
+    solve_url: q.solve_url ?? '',
+    order_index: q.order_index === undefined ? '' : String(q.order_index)
+  }));
+
+  // Content columns are not part of the import mapping, so they are carried over row by row
+  return validateImportRows(rows, PACKAGE_COLUMN_MAPPING, sheetId, existingQuestions).map((result, index) => {
+    const q = sheetPackage.questions[index];
+    return {
+      ...result,
+      data: {
+        ...result.data,
+        description: q.description || '',
+        hints: q.hints,
+        editorial: q.editorial || '',
+        editorial_unlock_hints: q.editorial_unlock_hints
+      }
+    };
+  });
+};
+
+// Merged questions go after everything already in the target sheet, keeping the package's order
+export const appendAfterExisting = (
+  rows: QuestionFormData[],
+  sheetId: string,
+  existingQuestions: Question[]
+): QuestionFormData[] => {
+  const lastIndex = existingQuestions
+    .filter(q => q.sheet_id === sheetId)
+    .reduce((max, q) => Math.max(max, q.order_index), 0);
+
+  return [...rows]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map((row, i) => ({ ...row, sheet_id: sheetId, order_index: lastIndex + i + 1 }));
+};
+
+export const getSheetPackageFileName = (sheet: Pick<Sheet, 'title'>): string => {
+  const slug = sheet.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'sheet'}.sheet.json`;
+};
+
+export const downloadJson = (fileName: string, data: unknown): void => {
+  downloadFile(fileName, JSON.stringify(data, null, 2), 'application/json');
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getRevisionQueue, groupByRevisionQueue, scheduleReview } from './spacedRepetition';
+import type { UserProgress } from '@/types';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const progressRow = (id: string, overrides: Partial<UserProgress> = {}): UserProgress => ({
+  id,
+  user_id: 'user-1',
+  question_id: id,
+  completed: true,
+  marked_for_revision: true,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('scheduleReview', () => {
+  it('steps intervals 1, 6, then the previous interval times the ease factor', () => {
+    const first = scheduleReview(undefined, 'good', NOW);
+    expect(first.repetitions).toBe(1);
+    expect(first.review_interval).toBe(1);
+    expect(first.next_review_at).toBe('2026-03-11T12:00:00.000Z');
+    expect(first.last_reviewed_at).toBe(NOW.toISOString());
+
+    const second = scheduleReview(first, 'good', NOW);
+    expect(second.repetitions).toBe(2);
+    expect(second.review_interval).toBe(6);
+
+    const third = scheduleReview(second, 'good', NOW);
+    expect(third.repetitions).toBe(3);
+    expect(third.review_interval).toBe(Math.round(6 * second.ease_factor));
+
+    const fourth = scheduleReview(third, 'good', NOW);
+    expect(fourth.review_interval).toBe(Math.round(third.review_interval * third.ease_factor));
+  });
+
+  it('restarts the sequence on "again" but keeps lowering the ease factor', () => {
+    const schedule = scheduleReview({ ease_factor: 2.5, review_interval: 15, repetitions: 3 }, 'again', NOW);
+    expect(schedule.repetitions).toBe(0);
+    expect(schedule.review_interval).toBe(1);
+    expect(schedule.ease_factor).toBe(1.96);
+  });
+
+  it('raises the ease factor on "easy" and lowers it on "hard"', () => {
+    expect(scheduleReview(undefined, 'easy', NOW).ease_factor).toBe(2.6);
+    expect(scheduleReview(undefined, 'good', NOW).ease_factor).toBe(2.5);
+    expect(scheduleReview(undefined, 'hard', NOW).ease_factor).toBe(2.36);
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    let schedule = scheduleReview(undefined, 'again', NOW);
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 'again', NOW);
+      expect(schedule.ease_factor).toBeGreaterThanOrEqual(1.3);
+    }
+    expect(schedule.ease_factor).toBe(1.3);
+    expect(scheduleReview({ ease_factor: 1.3, review_interval: 6, repetitions: 2 }, 'hard', NOW).ease_factor).toBe(1.3);
+  });
+});
+
+describe('getRevisionQueue', () => {
+  it('treats questions without a scheduled review as due', () => {
+    expect(getRevisionQueue({ next_review_at: undefined }, NOW)).toBe('due');
+  });
+
+  it('buckets reviews before today as overdue, today as due and later as upcoming', () => {
+    expect(getRevisionQueue({ next_review_at: '2026-03-09T23:59:59.000Z' }, NOW)).toBe('overdue');
+    expect(getRevisionQueue({ next_review_at: '2026-03-10T00:00:00.000Z' }, NOW)).toBe('due');
+    expect(getRevisionQueue({ next_review_at: '2026-03-10T23:59:59.000Z' }, NOW)).toBe('due');
+    expect(getRevisionQueue({ next_review_at: '2026-03-11T00:00:00.000Z' }, NOW)).toBe('upcoming');
+  });
+});
+
+describe('groupByRevisionQueue', () => {
+  it('groups only marked questions and orders each queue by review date', () => {
+    const queues = groupByRevisionQueue([
+      progressRow('late', { next_review_at: '2026-03-08T09:00:00.000Z' }),
+      progressRow('later', { next_review_at: '2026-03-01T09:00:00.000Z' }),
+      progressRow('today', { next_review_at: '2026-03-10T18:00:00.000Z' }),
+      progressRow('unscheduled'),
+      progressRow('soon', { next_review_at: '2026-03-20T09:00:00.000Z' }),
+      progressRow('next', { next_review_at: '2026-03-12T09:00:00.000Z' }),
+      progressRow('unmarked', { marked_for_revision: false, next_review_at: '2026-03-01T09:00:00.000Z' })
+    ], NOW);
+
+    expect(queues.overdue.map(p => p.id)).toEqual(['later', 'late']);
+    expect(queues.due.map(p => p.id)).toEqual(['unscheduled', 'today']);
+    expect(queues.upcoming.map(p => p.id)).toEqual(['next', 'soon']);
+  });
+});
@@ -0,0 +1,102 @@
+// SM-2 spaced repetition scheduling for revision questions
+import type { RecallGrade, ReviewSchedule, RevisionQueue, UserProgress } from '@/types';
+import { RECALL_GRADES, SPACED_REPETITION } from '@/constants';
+
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+
+export const getRecallQuality = (grade: RecallGrade): number => {
+  return RECALL_GRADES.find(g => g.value === grade)?.quality ?? 0;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+// Next ease factor per SM-2, never dropping below the minimum
+export const calculateEaseFactor = (easeFactor: number, quality: number): number => {
+  const next = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return Math.max(SPACED_REPETITION.MIN_EASE_FACTOR, Math.round(next * 100) / 100);
+};
+
+export const scheduleReview = (
+  progress: Partial<UserProgress> | undefined,
+  grade: RecallGrade,
+  now: Date = new Date()
+): ReviewSchedule => {
+  const quality = getRecallQuality(grade);
+  const easeFactor = progress?.ease_factor ?? SPACED_REPETITION.DEFAULT_EASE_FACTOR;
+  const previousInterval = progress?.review_interval ?? 0;
+  let repetitions = progress?.repetitions ?? 0;
+  let interval: number;
+
+  if (quality < 3) {
+    // Failed recall restarts the repetition sequence
+    repetitions = 0;
+    interval = SPACED_REPETITION.FIRST_INTERVAL_DAYS;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      interval = SPACED_REPETITION.FIRST_INTERVAL_DAYS;
+    } else if (repetitions === 2) {
+      interval = SPACED_REPETITION.SECOND_INTERVAL_DAYS;
+    } else {
+      interval = Math.round(previousInterval * easeFactor);
+    }
+  }
+
+  return {
+    ease_factor: calculateEaseFactor(easeFactor, quality),
+    review_interval: interval,
+    repetitions,
+    next_review_at: addDays(now, interval).toISOString(),
+    last_reviewed_at: now.toISOString()
+  };
+};
+
+// Questions without a scheduled review are treated as due today
+export const getRevisionQueue = (
+  progress: Pick<UserProgress, 'next_review_at'>,
+  now: Date = new Date()
+): RevisionQueue => {
+  if (!progress.next_review_at) return 'due';
+
+  const reviewAt = new Date(progress.next_review_at);
+  const today = startOfDay(now);
+
+  if (reviewAt < today) return 'overdue';
+  if (reviewAt.getTime() < today.getTime() + MS_IN_DAY) return 'due';
+  return 'upcoming';
+};
+
+export const getDaysUntilReview = (nextReviewAt: string, now: Date = new Date()): number => {
+  const diff = startOfDay(new Date(nextReviewAt)).getTime() - startOfDay(now).getTime();
+  return Math.round(diff / MS_IN_DAY);
+};
+
+export const groupByRevisionQueue = (
+  userProgress: UserProgress[],
+  now: Date = new Date()
+): Record<RevisionQueue, UserProgress[]> => {
+  const queues: Record<RevisionQueue, UserProgress[]> = { overdue: [], due: [], upcoming: [] };
+
+  userProgress
+    .filter(p => p.marked_for_revision)
+    .forEach(p => queues[getRevisionQueue(p, now)].push(p));
+
+  const byReviewDate = (a: UserProgress, b: UserProgress) =>
+    new Date(a.next_review_at ?? 0).getTime() - new Date(b.next_review_at ?? 0).getTime();
+
+  queues.overdue.sort(byReviewDate);
+  queues.due.sort(byReviewDate);
+  queues.upcoming.sort(byReviewDate);
+
+  return queues;
+};
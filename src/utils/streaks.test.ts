@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStreakData, calculateStreakFromDays, getCompletionDayKeys, getDayKey } from './streaks';
+import type { StreakSettings, UserProgress } from '@/types';
+
+const settings = (timeZone: string, rolloverHour = 0): StreakSettings => ({ timeZone, rolloverHour, restDays: [] });
+
+const UTC = settings('UTC');
+const IST = settings('Asia/Kolkata');
+const NEW_YORK = settings('America/New_York');
+
+const completedAt = (instants: string[]): UserProgress[] =>
+  instants.map((completed_at, i) => ({
+    id: `p-${i}`,
+    user_id: 'user-1',
+    question_id: `q-${i}`,
+    completed: true,
+    marked_for_revision: false,
+    completed_at,
+    created_at: completed_at,
+    updated_at: completed_at
+  }));
+
+// One completion at noon UTC on each day
+const onDays = (days: string[]) => completedAt(days.map(day => `${day}T12:00:00.000Z`));
+
+describe('getDayKey', () => {
+  it('rolls IST over at local midnight, 18:30 UTC', () => {
+    expect(getDayKey('2026-03-10T18:29:59.000Z', IST)).toBe('2026-03-10');
+    expect(getDayKey('2026-03-10T18:30:00.000Z', IST)).toBe('2026-03-11');
+    expect(getDayKey('2026-03-10T18:29:59.000Z', UTC)).toBe('2026-03-10');
+    expect(getDayKey('2026-03-10T18:30:00.000Z', UTC)).toBe('2026-03-10');
+  });
+
+  it('puts the same instant on different days in UTC and IST around UTC midnight', () => {
+    expect(getDayKey('2026-03-10T23:59:00.000Z', UTC)).toBe('2026-03-10');
+    expect(getDayKey('2026-03-10T23:59:00.000Z', IST)).toBe('2026-03-11');
+  });
+
+  it('follows New York midnight across the spring-forward change', () => {
+    // Midnight before the change is 05:00 UTC (EST), the one after is 04:00 UTC (EDT)
+    expect(getDayKey('2026-03-08T04:59:00.000Z', NEW_YORK)).toBe('2026-03-07');
+    expect(getDayKey('2026-03-08T05:00:00.000Z', NEW_YORK)).toBe('2026-03-08');
+    expect(getDayKey('2026-03-09T03:59:00.000Z', NEW_YORK)).toBe('2026-03-08');
+    expect(getDayKey('2026-03-09T04:00:00.000Z', NEW_YORK)).toBe('2026-03-09');
+  });
+
+  it('follows New York midnight across the fall-back change', () => {
+    // Midnight before the change is 04:00 UTC (EDT), the one after is 05:00 UTC (EST)
+    expect(getDayKey('2026-11-01T03:59:00.000Z', NEW_YORK)).toBe('2026-10-31');
+    expect(getDayKey('2026-11-01T04:00:00.000Z', NEW_YORK)).toBe('2026-11-01');
+    expect(getDayKey('2026-11-02T04:59:00.000Z', NEW_YORK)).toBe('2026-11-01');
+    expect(getDayKey('2026-11-02T05:00:00.000Z', NEW_YORK)).toBe('2026-11-02');
+  });
+
+  it('counts time before the rollover hour as the previous day', () => {
+    const lateNights = settings('UTC', 3);
+    expect(getDayKey('2026-03-10T02:59:00.000Z', lateNights)).toBe('2026-03-09');
+    expect(getDayKey('2026-03-10T03:00:00.000Z', lateNights)).toBe('2026-03-10');
+  });
+
+  it('keeps the rollover at the same wall-clock hour on a DST day', () => {
+    const lateNights = settings('America/New_York', 4);
+    // 04:00 local on 8 March is 08:00 UTC, after clocks went forward at 02:00
+    expect(getDayKey('2026-03-08T07:59:00.000Z', lateNights)).toBe('2026-03-07');
+    expect(getDayKey('2026-03-08T08:00:00.000Z', lateNights)).toBe('2026-03-08');
+  });
+});
+
+describe('calculateStreakData', () => {
+  it('tracks the longest run separately from the current one', () => {
+    const progress = onDays(['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-09', '2026-03-10']);
+    const streak = calculateStreakData(progress, UTC, [], new Date('2026-03-10T20:00:00.000Z'));
+
+    expect(streak.currentStreak).toBe(2);
+    expect(streak.longestStreak).toBe(5);
+    expect(streak.lastActivityDate).toBe('2026-03-10');
+    expect(streak.frozenDays).toEqual([]);
+  });
+
+  it('keeps the run alive through today and ends it after a missed day', () => {
+    const progress = onDays(['2026-03-08', '2026-03-09', '2026-03-10']);
+
+    expect(calculateStreakData(progress, UTC, [], new Date('2026-03-11T20:00:00.000Z')).currentStreak).toBe(3);
+    expect(calculateStreakData(progress, UTC, [], new Date('2026-03-12T20:00:00.000Z')).currentStreak).toBe(0);
+    expect(calculateStreakData(progress, UTC, [], new Date('2026-03-12T20:00:00.000Z')).longestStreak).toBe(3);
+  });
+
+  it('buckets completions into the student zone, not UTC', () => {
+    // 00:05 and 23:55 IST on 10 March, but 9 and 10 March in UTC
+    const progress = completedAt(['2026-03-09T18:35:00.000Z', '2026-03-10T18:25:00.000Z']);
+    const now = new Date('2026-03-10T20:00:00.000Z');
+
+    expect(calculateStreakData(progress, IST, [], now).currentStreak).toBe(1);
+    expect(calculateStreakData(progress, UTC, [], now).currentStreak).toBe(2);
+  });
+
+  it('counts a late-night solve toward the previous day with a rollover hour', () => {
+    // 01:00 UTC on 12 March belongs to 11 March when days start at 03:00
+    const progress = completedAt(['2026-03-09T12:00:00.000Z', '2026-03-10T12:00:00.000Z', '2026-03-12T01:00:00.000Z']);
+    const now = new Date('2026-03-12T02:00:00.000Z');
+
+    expect(calculateStreakData(progress, settings('UTC', 3), [], now).currentStreak).toBe(3);
+    expect(calculateStreakData(progress, UTC, [], now).currentStreak).toBe(1);
+  });
+
+  it('does not break a run across a DST change', () => {
+    // Evening solves in New York either side of spring-forward
+    const progress = completedAt(['2026-03-07T23:00:00.000Z', '2026-03-08T23:00:00.000Z', '2026-03-09T23:00:00.000Z']);
+    const streak = calculateStreakData(progress, NEW_YORK, [], new Date('2026-03-10T01:00:00.000Z'));
+
+    expect(streak.currentStreak).toBe(3);
+    expect(streak.lastActivityDate).toBe('2026-03-09');
+  });
+
+  it('gives the same result from server-bucketed day keys as from progress rows', () => {
+    const progress = onDays(['2026-03-01', '2026-03-02', '2026-03-04', '2026-03-05', '2026-03-06']);
+    const now = new Date('2026-03-06T20:00:00.000Z');
+
+    expect(calculateStreakFromDays(getCompletionDayKeys(progress, UTC), UTC, [], now)).toEqual(calculateStreakData(progress, UTC, [], now));
+    expect(calculateStreakFromDays(new Set(['2026-03-05', '2026-03-06']), UTC, [], now).currentStreak).toBe(2);
+  });
+
+  it('spends an earned freeze on a missed day and reports it until recorded', () => {
+    const progress = onDays(['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-09']);
+    const now = new Date('2026-03-09T20:00:00.000Z');
+
+    const fresh = calculateStreakData(progress, UTC, [], now);
+    expect(fresh.currentStreak).toBe(8);
+    expect(fresh.frozenDays).toEqual(['2026-03-08']);
+    expect(fresh.newFrozenDays).toEqual(['2026-03-08']);
+    expect(fresh.freezesAvailable).toBe(0);
+
+    const recorded = calculateStreakData(progress, UTC, ['2026-03-08'], now);
+    expect(recorded.currentStreak).toBe(8);
+    expect(recorded.newFrozenDays).toEqual([]);
+  });
+
+  it('does not let a recorded freeze cover a day without an earned allowance', () => {
+    const progress = onDays(['2026-03-05', '2026-03-06', '2026-03-08']);
+    const streak = calculateStreakData(progress, UTC, ['2026-03-07'], new Date('2026-03-08T20:00:00.000Z'));
+
+    expect(streak.currentStreak).toBe(1);
+    expect(streak.frozenDays).toEqual([]);
+  });
+});
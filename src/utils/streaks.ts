@@ -0,0 +1,189 @@
+// Timezone-aware day bucketing shared by every streak and daily count
+import type { ActivityDay, PracticeSession, Profile, Question, StreakData, StreakSettings, UserProgress } from '@/types';
+import { STREAK_DEFAULTS, STREAK_FREEZE } from '@/constants';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDeviceTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || STREAK_DEFAULTS.TIME_ZONE;
+};
+
+// A profile without a saved zone follows the device it is viewed on
+export const getStreakSettings = (
+  profile?: Pick<Profile, 'timezone' | 'day_rollover_hour' | 'rest_days'> | null
+): StreakSettings => {
+  const timeZone = profile?.timezone && isValidTimeZone(profile.timezone) ? profile.timezone : getDeviceTimeZone();
+  return {
+    timeZone,
+    rolloverHour: profile?.day_rollover_hour ?? STREAK_DEFAULTS.ROLLOVER_HOUR,
+    restDays: profile?.rest_days ?? []
+  };
+};
+
+// Day keys are YYYY-MM-DD strings; arithmetic on them is done in UTC so DST never applies
+export const addDaysToKey = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export const getWeekdayOfKey = (dayKey: string): number => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// The student's calendar day for an instant. Works from wall-clock parts in their
+// zone, so a DST change shifts neither midnight nor the rollover hour.
+export const getDayKey = (date: Date | string, settings: StreakSettings): string => {
+  const parts = getFormatter(settings.timeZone).formatToParts(new Date(date));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  const dayKey = `${part('year')}-${part('month')}-${part('day')}`;
+  return Number(part('hour')) < settings.rolloverHour ? addDaysToKey(dayKey, -1) : dayKey;
+};
+
+// The last `count` day keys ending today, oldest first
+export const getRecentDayKeys = (count: number, settings: StreakSettings, now: Date = new Date()): string[] => {
+  const today = getDayKey(now, settings);
+  return Array.from({ length: count }, (_, i) => addDaysToKey(today, i - (count - 1)));
+};
+
+export const formatDayKey = (dayKey: string, options: Intl.DateTimeFormatOptions = {}): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+};
+
+export const getCompletionDayKeys = (userProgress: UserProgress[], settings: StreakSettings): Set<string> => {
+  return new Set(
+    userProgress
+      .filter(p => p.completed && p.completed_at)
+      .map(p => getDayKey(p.completed_at as string, settings))
+  );
+};
+
+export const countCompletedOnDay = (userProgress: UserProgress[], dayKey: string, settings: StreakSettings): number => {
+  return userProgress.filter(p =>
+    p.completed && p.completed_at && getDayKey(p.completed_at, settings) === dayKey
+  ).length;
+};
+
+// Questions solved and practice sessions for every active day, keyed by day
+export const getDailyActivity = (
+  questions: Question[],
+  userProgress: UserProgress[],
+  sessions: PracticeSession[],
+  settings: StreakSettings
+): Map<string, ActivityDay> => {
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+  const days = new Map<string, ActivityDay>();
+  const getDay = (dayKey: string) => {
+    let day = days.get(dayKey);
+    if (!day) {
+      day = { dayKey, solved: [], sessions: 0, secondsPracticed: 0 };
+      days.set(dayKey, day);
+    }
+    return day;
+  };
+
+  userProgress.forEach(p => {
+    const question = questionsById.get(p.question_id);
+    if (p.completed && p.completed_at && question) {
+      getDay(getDayKey(p.completed_at, settings)).solved.push(question);
+    }
+  });
+
+  sessions.forEach(s => {
+    const day = getDay(getDayKey(s.started_at, settings));
+    day.sessions++;
+    day.secondsPracticed += s.duration_seconds;
+  });
+
+  return days;
+};
+
+export const calculateStreakData = (
+  userProgress: UserProgress[],
+  settings: StreakSettings,
+  recordedFreezeDays: string[] = [],
+  now: Date = new Date()
+): StreakData => {
+  return calculateStreakFromDays(getCompletionDayKeys(userProgress, settings), settings, recordedFreezeDays, now);
+};
+
+// Walks every day from the first active day to today. Active days extend the run and
+// earn freezes; planned rest days are skipped over; any other missed day spends a banked
+// freeze, or ends the run if none are left. Recorded freeze days spend from the same
+// allowance, so they only tell which covered days still need to be saved.
+// Today never breaks the run, since the student can still practice.
+export const calculateStreakFromDays = (
+  activeDays: Set<string>,
+  settings: StreakSettings,
+  recordedFreezeDays: string[] = [],
+  now: Date = new Date()
+): StreakData => {
+  const sortedDays = [...activeDays].sort();
+  const recorded = new Set(recordedFreezeDays);
+  const restDays = new Set(settings.restDays);
+  const today = getDayKey(now, settings);
+
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let freezesAvailable = 0;
+  let activeSinceFreeze = 0;
+  const frozenDays: string[] = [];
+  const newFrozenDays: string[] = [];
+
+  for (let dayKey = sortedDays[0]; dayKey && dayKey <= today; dayKey = addDaysToKey(dayKey, 1)) {
+    if (activeDays.has(dayKey)) {
+      currentStreak++;
+      longestStreak = Math.max(longestStreak, currentStreak);
+      activeSinceFreeze++;
+      if (activeSinceFreeze === STREAK_FREEZE.DAYS_PER_FREEZE) {
+        freezesAvailable = Math.min(freezesAvailable + 1, STREAK_FREEZE.MAX_BANKED);
+        activeSinceFreeze = 0;
+      }
+    } else if (dayKey === today || currentStreak === 0 || restDays.has(getWeekdayOfKey(dayKey))) {
+      continue;
+    } else if (freezesAvailable > 0) {
+      freezesAvailable--;
+      frozenDays.push(dayKey);
+      if (!recorded.has(dayKey)) newFrozenDays.push(dayKey);
+    } else {
+      currentStreak = 0;
+      activeSinceFreeze = 0;
+    }
+  }
+
+  return {
+    currentStreak,
+    longestStreak,
+    lastActivityDate: sortedDays[sortedDays.length - 1] ?? null,
+    freezesAvailable,
+    daysUntilNextFreeze: STREAK_FREEZE.DAYS_PER_FREEZE - activeSinceFreeze,
+    frozenDays,
+    newFrozenDays
+  };
+};
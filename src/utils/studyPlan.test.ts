@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { buildStudySchedule, getStudyPlanStatus, parseStudySchedule, shouldReplan, toStudyPlan } from './studyPlan';
+import type { DifficultyMinutes, Question, StudyPlan, UserProgress } from '@/types';
+
+const MINUTES: DifficultyMinutes = { Easy: 15, Medium: 30, Hard: 60 };
+
+const question = (id: string, difficulty: Question['difficulty'] = 'Medium', sheet_id = 'sheet-1'): Question => ({
+  id,
+  sheet_id,
+  title: id,
+  topic: 'Arrays',
+  tags: [],
+  difficulty,
+  order_index: 0,
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z'
+});
+
+const solved = (ids: string[]): UserProgress[] =>
+  ids.map(id => ({
+    id: `p-${id}`,
+    user_id: 'user-1',
+    question_id: id,
+    completed: true,
+    marked_for_revision: false,
+    completed_at: '2026-03-10T12:00:00.000Z',
+    created_at: '2026-03-10T12:00:00.000Z',
+    updated_at: '2026-03-10T12:00:00.000Z'
+  }));
+
+const planWith = (schedule: StudyPlan['schedule'], overrides: Partial<StudyPlan> = {}): StudyPlan => ({
+  id: 'plan-1',
+  user_id: 'user-1',
+  sheet_ids: ['sheet-1'],
+  target_date: '2026-03-13',
+  minutes_per_day: 60,
+  schedule,
+  planned_on: '2026-03-10',
+  is_active: true,
+  created_at: '2026-03-10T00:00:00.000Z',
+  updated_at: '2026-03-10T00:00:00.000Z',
+  ...overrides
+});
+
+// 9 March 2026 is a Monday
+const WEEK = { startDay: '2026-03-09', targetDay: '2026-03-13', restDays: [], minutesPerDay: 60 };
+
+describe('buildStudySchedule', () => {
+  it('spreads questions evenly when they fit before the target', () => {
+    const questions = ['a', 'b', 'c', 'd', 'e'].map(id => question(id));
+    const schedule = buildStudySchedule(questions, MINUTES, WEEK);
+
+    expect(schedule.days.map(d => [d.day, d.question_ids])).toEqual([
+      ['2026-03-09', ['a']],
+      ['2026-03-10', ['b']],
+      ['2026-03-11', ['c']],
+      ['2026-03-12', ['d']],
+      ['2026-03-13', ['e']]
+    ]);
+    expect(schedule.overflowDays).toBe(0);
+  });
+
+  it('keeps every day within the budget and runs the rest past the target', () => {
+    const questions = Array.from({ length: 14 }, (_, i) => question(`q-${i}`));
+    const schedule = buildStudySchedule(questions, MINUTES, WEEK);
+
+    expect(schedule.days.every(d => d.minutes <= 60)).toBe(true);
+    expect(schedule.days.flatMap(d => d.question_ids)).toEqual(questions.map(q => q.id));
+    expect(schedule.days).toHaveLength(7);
+    expect(schedule.days.map(d => d.day).slice(5)).toEqual(['2026-03-14', '2026-03-15']);
+    expect(schedule.overflowDays).toBe(2);
+  });
+
+  it('skips rest days, including the ones after the target', () => {
+    // Saturday and Sunday off
+    const questions = Array.from({ length: 8 }, (_, i) => question(`q-${i}`, 'Hard'));
+    const schedule = buildStudySchedule(questions, MINUTES, { ...WEEK, restDays: [0, 6] });
+
+    expect(schedule.days.map(d => d.day)).toEqual([
+      '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-16', '2026-03-17', '2026-03-18'
+    ]);
+    expect(schedule.overflowDays).toBe(3);
+  });
+
+  it('gives a question longer than the budget a day to itself', () => {
+    const questions = [question('hard', 'Hard'), question('easy', 'Easy')];
+    const schedule = buildStudySchedule(questions, MINUTES, { ...WEEK, targetDay: '2026-03-09', minutesPerDay: 45 });
+
+    expect(schedule.days).toEqual([
+      { day: '2026-03-09', question_ids: ['hard'], minutes: 60 },
+      { day: '2026-03-10', question_ids: ['easy'], minutes: 15 }
+    ]);
+    expect(schedule.overflowDays).toBe(1);
+  });
+
+  it('returns an empty schedule when nothing is left', () => {
+    expect(buildStudySchedule([], MINUTES, WEEK)).toEqual({ days: [], overflowDays: 0 });
+  });
+});
+
+describe('getStudyPlanStatus', () => {
+  const questions = ['a', 'b', 'c', 'd'].map(id => question(id)).concat(question('other', 'Easy', 'sheet-2'));
+  const plan = planWith([
+    { day: '2026-03-10', question_ids: ['a'], minutes: 30 },
+    { day: '2026-03-11', question_ids: ['b'], minutes: 30 },
+    { day: '2026-03-12', question_ids: ['c'], minutes: 30 },
+    { day: '2026-03-14', question_ids: ['d'], minutes: 30 }
+  ]);
+
+  it('finds today and measures the plan sheets only', () => {
+    const status = getStudyPlanStatus(plan, questions, solved(['a', 'other']), '2026-03-11');
+
+    expect(status.today).toEqual(plan.schedule[1]);
+    expect(status.completedCount).toBe(1);
+    expect(status.totalCount).toBe(4);
+    expect(status.behindIds).toEqual([]);
+    expect(status.aheadIds).toEqual([]);
+  });
+
+  it('reports unsolved earlier days as behind and solved later days as ahead', () => {
+    const status = getStudyPlanStatus(plan, questions, solved(['c']), '2026-03-11');
+
+    expect(status.behindIds).toEqual(['a']);
+    expect(status.aheadIds).toEqual(['c']);
+    expect(status.today?.question_ids).toEqual(['b']);
+  });
+
+  it('counts upcoming days after the target date as overflow', () => {
+    expect(getStudyPlanStatus(plan, questions, [], '2026-03-11').overflowDays).toBe(1);
+    expect(getStudyPlanStatus(plan, questions, [], '2026-03-15').overflowDays).toBe(0);
+    expect(getStudyPlanStatus(plan, questions, [], '2026-03-13').today).toBeNull();
+  });
+});
+
+describe('shouldReplan', () => {
+  const questions = ['a', 'b'].map(id => question(id));
+  const plan = planWith([
+    { day: '2026-03-10', question_ids: ['a'], minutes: 30 },
+    { day: '2026-03-12', question_ids: ['b'], minutes: 30 }
+  ]);
+
+  it('re-plans once the student has fallen behind or got ahead', () => {
+    expect(shouldReplan(plan, getStudyPlanStatus(plan, questions, [], '2026-03-11'), '2026-03-11')).toBe(true);
+    expect(shouldReplan(plan, getStudyPlanStatus(plan, questions, solved(['a', 'b']), '2026-03-11'), '2026-03-11')).toBe(true);
+  });
+
+  it('leaves a plan the student is keeping to alone', () => {
+    expect(shouldReplan(plan, getStudyPlanStatus(plan, questions, solved(['a']), '2026-03-11'), '2026-03-11')).toBe(false);
+  });
+
+  it('does not re-plan twice on the same day', () => {
+    const replanned = { ...plan, planned_on: '2026-03-11' };
+    expect(shouldReplan(replanned, getStudyPlanStatus(replanned, questions, [], '2026-03-11'), '2026-03-11')).toBe(false);
+  });
+});
+
+describe('parseStudySchedule', () => {
+  it('reads well-formed days as stored', () => {
+    const schedule = [
+      { day: '2026-03-10', question_ids: ['q-1', 'q-2'], minutes: 45 },
+      { day: '2026-03-11', question_ids: [], minutes: 0 }
+    ];
+    expect(parseStudySchedule(schedule)).toEqual(schedule);
+  });
+
+  it('drops malformed days and stray ids instead of trusting the JSON', () => {
+    expect(parseStudySchedule([
+      { day: '2026-03-10', question_ids: ['q-1', 7, null], minutes: '30' },
+      { question_ids: ['q-2'], minutes: 20 },
+      { day: '2026-03-12', question_ids: 'q-3' },
+      null,
+      'day'
+    ])).toEqual([{ day: '2026-03-10', question_ids: ['q-1'], minutes: 0 }]);
+  });
+
+  it('treats anything but an array as an empty schedule', () => {
+    expect(parseStudySchedule(null)).toEqual([]);
+    expect(parseStudySchedule({ day: '2026-03-10' })).toEqual([]);
+  });
+});
+
+describe('toStudyPlan', () => {
+  it('keeps the row and types its schedule', () => {
+    const row = {
+      id: 'plan-1',
+      user_id: 'user-1',
+      sheet_ids: ['sheet-1'],
+      target_date: '2026-04-01',
+      minutes_per_day: 60,
+      schedule: [{ day: '2026-03-10', question_ids: ['q-1'], minutes: 30 }],
+      planned_on: '2026-03-10',
+      is_active: true,
+      created_at: '2026-03-10T00:00:00.000Z',
+      updated_at: '2026-03-10T00:00:00.000Z'
+    };
+    expect(toStudyPlan(row)).toEqual(row);
+  });
+});
@@ -0,0 +1,155 @@
+// Builds day-by-day study plans and tracks students against them
+import type { DifficultyMinutes, PracticeSession, Question, StudyPlan, StudyPlanDay, StudyPlanStatus, StudySchedule, UserProgress } from '@/types';
+import { STUDY_PLAN } from '@/constants';
+import { aggregateSessionTime, getProgressIndex, isQuestionCompleted } from '@/utils';
+import { addDaysToKey, getWeekdayOfKey } from './streaks';
+
+const DIFFICULTY_ORDER: Question['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+interface ScheduleWindow {
+  startDay: string;
+  targetDay: string;
+  restDays: number[];
+  minutesPerDay: number;
+}
+
+// Median minutes the student took on solved questions of each difficulty,
+// falling back to defaults where there is no timed history yet
+export const getMinutesPerDifficulty = (
+  sessions: PracticeSession[],
+  questions: Question[],
+  userProgress: UserProgress[]
+): DifficultyMinutes => {
+  const index = getProgressIndex(userProgress);
+  const solvedSessions = sessions.filter(s => isQuestionCompleted(index, s.question_id));
+  const minutes: DifficultyMinutes = { ...STUDY_PLAN.DEFAULT_MINUTES };
+
+  aggregateSessionTime(solvedSessions, questions, q => q.difficulty).forEach(stat => {
+    if (stat.medianSeconds > 0) {
+      minutes[stat.key as Question['difficulty']] = Math.max(1, Math.ceil(stat.medianSeconds / 60));
+    }
+  });
+  return minutes;
+};
+
+// Unsolved questions in the plan's sheets, in the order the sheets were picked,
+// then order_index, then easiest first
+export const getRemainingPlanQuestions = (
+  sheetIds: string[],
+  questions: Question[],
+  userProgress: UserProgress[]
+): Question[] => {
+  const index = getProgressIndex(userProgress);
+  return questions
+    .filter(q => sheetIds.includes(q.sheet_id) && !isQuestionCompleted(index, q.id))
+    .sort((a, b) =>
+      sheetIds.indexOf(a.sheet_id) - sheetIds.indexOf(b.sheet_id) ||
+      a.order_index - b.order_index ||
+      DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty)
+    );
+};
+
+// Days from start to target inclusive, minus rest days; never empty
+const getStudyDays = ({ startDay, targetDay, restDays }: ScheduleWindow): string[] => {
+  const days: string[] = [];
+  for (let day = startDay; day <= targetDay; day = addDaysToKey(day, 1)) {
+    if (!restDays.includes(getWeekdayOfKey(day))) days.push(day);
+  }
+  return days.length > 0 ? days : [startDay];
+};
+
+// The next study day after the given one; rest days are kept unless every weekday is one
+const getNextStudyDay = (day: string, restDays: number[]): string => {
+  let next = addDaysToKey(day, 1);
+  while (restDays.length < 7 && restDays.includes(getWeekdayOfKey(next))) next = addDaysToKey(next, 1);
+  return next;
+};
+
+// Spreads the questions evenly over the study days by estimated time, never planning
+// more than the daily budget. Each question goes on the day its midpoint falls in; one
+// that does not fit moves to the next day, and whatever is left after the target date
+// runs on past it. A question longer than the whole budget gets a day to itself.
+export const buildStudySchedule = (
+  questions: Question[],
+  minutes: DifficultyMinutes,
+  window: ScheduleWindow
+): StudySchedule => {
+  const days = getStudyDays(window);
+  const budget = Math.max(1, window.minutesPerDay);
+  const totalMinutes = questions.reduce((sum, q) => sum + minutes[q.difficulty], 0);
+  const pace = Math.min(budget, totalMinutes / days.length);
+  const schedule: StudyPlanDay[] = [];
+  let elapsed = 0;
+  let dayIndex = 0;
+
+  questions.forEach(q => {
+    const cost = minutes[q.difficulty];
+    let index = Math.max(dayIndex, Math.floor((elapsed + cost / 2) / pace));
+    const current = schedule[schedule.length - 1];
+    if (index === dayIndex && current && current.minutes + cost > budget) index++;
+
+    while (days.length <= index) days.push(getNextStudyDay(days[days.length - 1], window.restDays));
+    if (!current || index > dayIndex) schedule.push({ day: days[index], question_ids: [], minutes: 0 });
+    dayIndex = index;
+
+    const entry = schedule[schedule.length - 1];
+    entry.question_ids.push(q.id);
+    entry.minutes += cost;
+    elapsed += cost;
+  });
+
+  return {
+    days: schedule,
+    overflowDays: schedule.filter(d => d.day > window.targetDay).length
+  };
+};
+
+export const getStudyPlanStatus = (
+  plan: StudyPlan,
+  questions: Question[],
+  userProgress: UserProgress[],
+  todayKey: string
+): StudyPlanStatus => {
+  const index = getProgressIndex(userProgress);
+  const planQuestions = questions.filter(q => plan.sheet_ids.includes(q.sheet_id));
+  const upcoming = plan.schedule.filter(d => d.day >= todayKey);
+
+  return {
+    today: plan.schedule.find(d => d.day === todayKey) ?? null,
+    behindIds: plan.schedule
+      .filter(d => d.day < todayKey)
+      .flatMap(d => d.question_ids)
+      .filter(id => !isQuestionCompleted(index, id)),
+    aheadIds: plan.schedule
+      .filter(d => d.day > todayKey)
+      .flatMap(d => d.question_ids)
+      .filter(id => isQuestionCompleted(index, id)),
+    completedCount: planQuestions.filter(q => isQuestionCompleted(index, q.id)).length,
+    totalCount: planQuestions.length,
+    overflowDays: upcoming.filter(d => d.day > plan.target_date).length
+  };
+};
+
+// Re-planned at most once a day, and only when the student has drifted from the schedule
+export const shouldReplan = (plan: StudyPlan, status: StudyPlanStatus, todayKey: string): boolean =>
+  plan.planned_on < todayKey && (status.behindIds.length > 0 || status.aheadIds.length > 0);
+
+// The schedule column is untyped JSON; anything that is not a well-formed day is dropped
+export const parseStudySchedule = (value: unknown): StudyPlanDay[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const { day, question_ids, minutes } = item as Record<string, unknown>;
+    if (typeof day !== 'string' || !Array.isArray(question_ids)) return [];
+    return [{
+      day,
+      question_ids: question_ids.filter((id): id is string => typeof id === 'string'),
+      minutes: typeof minutes === 'number' ? minutes : 0
+    }];
+  });
+};
+
+export const toStudyPlan = (row: Omit<StudyPlan, 'schedule'> & { schedule: unknown }): StudyPlan => ({
+  ...row,
+  schedule: parseStudySchedule(row.schedule)
+});
@@ -0,0 +1,17 @@
+-- Add SM-2 spaced repetition scheduling state to user_progress
+ALTER TABLE public.user_progress
+  ADD COLUMN ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  ADD COLUMN review_interval INTEGER NOT NULL DEFAULT 0, -- in days
+  ADD COLUMN repetitions INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_review_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN last_reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Questions already flagged for revision become due immediately
+UPDATE public.user_progress
+SET next_review_at = now()
+WHERE marked_for_revision = true AND next_review_at IS NULL;
+
+-- Speed up the revision queue lookup
+CREATE INDEX idx_user_progress_revision_queue
+ON public.user_progress (user_id, next_review_at)
+WHERE marked_for_revision = true;
@@ -0,0 +1,10 @@
+-- Store real problem content on questions
+ALTER TABLE public.questions
+  ADD COLUMN description TEXT, -- markdown problem statement
+  ADD COLUMN hints TEXT[] NOT NULL DEFAULT '{}', -- ordered, revealed one at a time
+  ADD COLUMN editorial TEXT, -- markdown approach / solution walkthrough
+  ADD COLUMN editorial_unlock_hints INTEGER; -- hints needed to unlock the editorial, NULL = completion only
+
+-- Track how many hints each user has revealed
+ALTER TABLE public.user_progress
+  ADD COLUMN hints_revealed INTEGER NOT NULL DEFAULT 0;
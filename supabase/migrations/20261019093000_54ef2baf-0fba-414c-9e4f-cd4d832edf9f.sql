@@ -0,0 +1,40 @@
+-- Create enum for practice session outcomes
+CREATE TYPE public.session_outcome AS ENUM ('solved', 'attempted', 'gave_up');
+
+-- Record every timed practice session instead of a single overwritten counter
+CREATE TABLE public.practice_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds >= 0),
+  outcome session_outcome NOT NULL DEFAULT 'attempted',
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_practice_sessions_user_question
+ON public.practice_sessions (user_id, question_id, started_at);
+
+ALTER TABLE public.practice_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own practice sessions"
+ON public.practice_sessions
+FOR ALL
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all practice sessions"
+ON public.practice_sessions
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+CREATE TRIGGER update_practice_sessions_updated_at
+  BEFORE UPDATE ON public.practice_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The timer has always stored seconds; make the column documentation match
+COMMENT ON COLUMN public.user_progress.time_spent IS 'Total practice time in seconds';
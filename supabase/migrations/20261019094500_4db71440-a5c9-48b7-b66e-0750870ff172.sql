@@ -0,0 +1,35 @@
+-- Allow admins to deactivate accounts without deleting their history
+ALTER TABLE public.profiles
+ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX idx_profiles_role_cohort
+ON public.profiles (role, cohort);
+
+-- Admins manage roles, cohorts and account status from the admin panel
+CREATE POLICY "Admins can update all profiles"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (public.is_admin());
+
+-- Students can still edit their own profile, but not the fields admins control
+CREATE OR REPLACE FUNCTION public.protect_profile_admin_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    NEW.role := OLD.role;
+    NEW.cohort := OLD.cohort;
+    NEW.is_active := OLD.is_active;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_admin_fields
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_admin_fields();
@@ -0,0 +1,230 @@
+-- Platform-wide analytics for the admin panel, aggregated in the database so the
+-- client never downloads every user_progress row
+
+CREATE INDEX IF NOT EXISTS idx_user_progress_completed_at
+ON public.user_progress (completed_at)
+WHERE completed = true;
+
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_started_at
+ON public.practice_sessions (started_at);
+
+-- Every day a student touched a question, from progress updates and timed sessions
+CREATE OR REPLACE VIEW public.student_activity_days
+WITH (security_invoker = true) AS
+SELECT user_id, (updated_at AT TIME ZONE 'UTC')::date AS activity_date
+FROM public.user_progress
+UNION
+SELECT user_id, (started_at AT TIME ZONE 'UTC')::date AS activity_date
+FROM public.practice_sessions;
+
+-- Active students and completions per day or per week
+CREATE OR REPLACE FUNCTION public.admin_activity_timeseries(p_bucket TEXT DEFAULT 'day', p_periods INTEGER DEFAULT 30)
+RETURNS TABLE (
+  period_start DATE,
+  active_students BIGINT,
+  completions BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step INTERVAL;
+  v_first DATE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform analytics';
+  END IF;
+
+  IF p_bucket NOT IN ('day', 'week') THEN
+    RAISE EXCEPTION 'Unsupported bucket %', p_bucket;
+  END IF;
+
+  v_step := CASE WHEN p_bucket = 'week' THEN INTERVAL '1 week' ELSE INTERVAL '1 day' END;
+  v_first := date_trunc(p_bucket, now() AT TIME ZONE 'UTC')::date - (v_step * (p_periods - 1))::interval;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(v_first, (now() AT TIME ZONE 'UTC')::date, v_step)::date AS period_start
+  ),
+  activity AS (
+    SELECT date_trunc(p_bucket, a.activity_date)::date AS period_start,
+           COUNT(DISTINCT a.user_id) AS active_students
+    FROM public.student_activity_days a
+    WHERE a.activity_date >= v_first
+    GROUP BY 1
+  ),
+  completed AS (
+    SELECT date_trunc(p_bucket, up.completed_at AT TIME ZONE 'UTC')::date AS period_start,
+           COUNT(*) AS completions
+    FROM public.user_progress up
+    WHERE up.completed = true
+      AND up.completed_at >= v_first
+    GROUP BY 1
+  )
+  SELECT p.period_start,
+         COALESCE(a.active_students, 0),
+         COALESCE(c.completions, 0)
+  FROM periods p
+  LEFT JOIN activity a ON a.period_start = p.period_start
+  LEFT JOIN completed c ON c.period_start = p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+-- Solve rate, median practice time and abandonment for every question.
+-- A student abandons a question when they gave up on it, or stopped working on it
+-- for more than a week, without ever completing it.
+CREATE OR REPLACE FUNCTION public.admin_question_stats()
+RETURNS TABLE (
+  question_id UUID,
+  title TEXT,
+  topic TEXT,
+  difficulty public.question_difficulty,
+  sheet_id UUID,
+  attempted BIGINT,
+  solved BIGINT,
+  abandoned BIGINT,
+  median_seconds NUMERIC
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH attempts AS (
+    SELECT ps.question_id, ps.user_id,
+           MAX(ps.ended_at) AS last_session_at,
+           bool_or(ps.outcome = 'gave_up') AS gave_up
+    FROM public.practice_sessions ps
+    GROUP BY ps.question_id, ps.user_id
+  ),
+  students AS (
+    SELECT COALESCE(a.question_id, up.question_id) AS question_id,
+           COALESCE(a.user_id, up.user_id) AS user_id,
+           COALESCE(up.completed, false) AS completed,
+           COALESCE(a.gave_up, false) AS gave_up,
+           GREATEST(a.last_session_at, up.updated_at) AS last_activity_at
+    FROM attempts a
+    FULL OUTER JOIN public.user_progress up
+      ON up.question_id = a.question_id AND up.user_id = a.user_id
+  ),
+  durations AS (
+    SELECT ps.question_id,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY ps.duration_seconds) AS median_seconds
+    FROM public.practice_sessions ps
+    GROUP BY ps.question_id
+  )
+  SELECT q.id,
+         q.title,
+         q.topic,
+         q.difficulty,
+         q.sheet_id,
+         COUNT(s.user_id),
+         COUNT(s.user_id) FILTER (WHERE s.completed),
+         COUNT(s.user_id) FILTER (
+           WHERE NOT s.completed
+             AND (s.gave_up OR s.last_activity_at < now() - INTERVAL '7 days')
+         ),
+         ROUND(d.median_seconds::numeric)
+  FROM public.questions q
+  LEFT JOIN students s ON s.question_id = q.id
+  LEFT JOIN durations d ON d.question_id = q.id
+  GROUP BY q.id, q.title, q.topic, q.difficulty, q.sheet_id, d.median_seconds
+  ORDER BY q.order_index;
+END;
+$$;
+
+-- How far each cohort's students got through each sheet
+CREATE OR REPLACE FUNCTION public.admin_cohort_funnels()
+RETURNS TABLE (
+  cohort TEXT,
+  sheet_id UUID,
+  sheet_title TEXT,
+  students BIGINT,
+  started BIGINT,
+  halfway BIGINT,
+  finished BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH sheet_sizes AS (
+    SELECT q.sheet_id, COUNT(*) AS total
+    FROM public.questions q
+    GROUP BY q.sheet_id
+  ),
+  student_sheet AS (
+    SELECT p.user_id,
+           COALESCE(p.cohort, 'No cohort') AS cohort,
+           s.id AS sheet_id,
+           s.title AS sheet_title,
+           COUNT(up.id) FILTER (WHERE up.completed) AS completed
+    FROM public.profiles p
+    CROSS JOIN public.sheets s
+    LEFT JOIN public.questions q ON q.sheet_id = s.id
+    LEFT JOIN public.user_progress up ON up.question_id = q.id AND up.user_id = p.user_id
+    WHERE p.role = 'student'
+    GROUP BY p.user_id, p.cohort, s.id, s.title
+  )
+  SELECT ss.cohort,
+         ss.sheet_id,
+         ss.sheet_title,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE ss.completed > 0),
+         COUNT(*) FILTER (WHERE ss.completed * 2 >= sz.total AND ss.completed > 0),
+         COUNT(*) FILTER (WHERE ss.completed >= sz.total AND ss.completed > 0)
+  FROM student_sheet ss
+  JOIN sheet_sizes sz ON sz.sheet_id = ss.sheet_id
+  GROUP BY ss.cohort, ss.sheet_id, ss.sheet_title
+  ORDER BY ss.sheet_title, ss.cohort;
+END;
+$$;
+
+-- Solve rate per cohort and topic, for the weakness heatmap
+CREATE OR REPLACE FUNCTION public.admin_topic_weakness()
+RETURNS TABLE (
+  cohort TEXT,
+  topic TEXT,
+  attempted BIGINT,
+  solved BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT COALESCE(p.cohort, 'No cohort'),
+         q.topic,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE up.completed)
+  FROM public.user_progress up
+  JOIN public.questions q ON q.id = up.question_id
+  JOIN public.profiles p ON p.user_id = up.user_id
+  WHERE p.role = 'student'
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_activity_timeseries(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_question_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_cohort_funnels() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_topic_weakness() TO authenticated;
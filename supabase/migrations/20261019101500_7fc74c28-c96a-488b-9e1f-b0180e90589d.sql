@@ -0,0 +1,262 @@
+-- Replace the free-text profiles.cohort with a first-class cohorts table
+CREATE TABLE public.cohorts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  start_date DATE,
+  end_date DATE,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE public.cohort_mentors (
+  cohort_id UUID NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (cohort_id, user_id)
+);
+
+-- Sheets assigned to a cohort; an empty topics array assigns the whole sheet
+CREATE TABLE public.cohort_sheets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cohort_id UUID NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  sheet_id UUID NOT NULL REFERENCES public.sheets(id) ON DELETE CASCADE,
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  due_date TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (cohort_id, sheet_id)
+);
+
+-- Move existing free-text cohorts over
+INSERT INTO public.cohorts (name)
+SELECT DISTINCT cohort FROM public.profiles
+WHERE cohort IS NOT NULL AND trim(cohort) <> '';
+
+ALTER TABLE public.profiles
+ADD COLUMN cohort_id UUID REFERENCES public.cohorts(id) ON DELETE SET NULL;
+
+UPDATE public.profiles p
+SET cohort_id = c.id
+FROM public.cohorts c
+WHERE c.name = p.cohort;
+
+ALTER TABLE public.profiles DROP COLUMN cohort;
+
+CREATE INDEX idx_profiles_role_cohort_id
+ON public.profiles (role, cohort_id);
+
+-- Cohort of the signed-in user, usable from RLS policies without recursion
+CREATE OR REPLACE FUNCTION public.current_user_cohort_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT cohort_id FROM public.profiles WHERE user_id = auth.uid();
+$$;
+
+ALTER TABLE public.cohorts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_mentors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_sheets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own cohort"
+ON public.cohorts
+FOR SELECT
+TO authenticated
+USING (id = public.current_user_cohort_id());
+
+CREATE POLICY "Admins can manage cohorts"
+ON public.cohorts
+FOR ALL
+TO authenticated
+USING (public.is_admin());
+
+CREATE POLICY "Students can view their cohort's mentors"
+ON public.cohort_mentors
+FOR SELECT
+TO authenticated
+USING (cohort_id = public.current_user_cohort_id());
+
+CREATE POLICY "Admins can manage cohort mentors"
+ON public.cohort_mentors
+FOR ALL
+TO authenticated
+USING (public.is_admin());
+
+CREATE POLICY "Students can view their cohort's sheets"
+ON public.cohort_sheets
+FOR SELECT
+TO authenticated
+USING (cohort_id = public.current_user_cohort_id());
+
+CREATE POLICY "Admins can manage cohort sheets"
+ON public.cohort_sheets
+FOR ALL
+TO authenticated
+USING (public.is_admin());
+
+CREATE TRIGGER update_cohorts_updated_at
+  BEFORE UPDATE ON public.cohorts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_cohort_sheets_updated_at
+  BEFORE UPDATE ON public.cohort_sheets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Students still cannot change admin-managed fields directly. The trigger now runs
+-- as the caller, so SECURITY DEFINER functions such as join_cohort may set cohort_id.
+CREATE OR REPLACE FUNCTION public.protect_profile_admin_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT public.is_admin() THEN
+    NEW.role := OLD.role;
+    NEW.cohort_id := OLD.cohort_id;
+    NEW.is_active := OLD.is_active;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Self-enrollment with a cohort's invite code
+CREATE OR REPLACE FUNCTION public.join_cohort(p_invite_code TEXT)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_cohort_id UUID;
+BEGIN
+  SELECT id INTO v_cohort_id
+  FROM public.cohorts
+  WHERE invite_code = upper(trim(p_invite_code))
+    AND (end_date IS NULL OR end_date >= current_date);
+
+  IF v_cohort_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired invite code';
+  END IF;
+
+  UPDATE public.profiles
+  SET cohort_id = v_cohort_id
+  WHERE user_id = auth.uid();
+
+  RETURN v_cohort_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.regenerate_cohort_invite_code(p_cohort_id UUID)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_code TEXT := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage cohorts';
+  END IF;
+
+  UPDATE public.cohorts
+  SET invite_code = v_code
+  WHERE id = p_cohort_id;
+
+  RETURN v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_cohort(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_cohort_invite_code(UUID) TO authenticated;
+
+-- Admin analytics now group by the cohort table
+CREATE OR REPLACE FUNCTION public.admin_cohort_funnels()
+RETURNS TABLE (
+  cohort TEXT,
+  sheet_id UUID,
+  sheet_title TEXT,
+  students BIGINT,
+  started BIGINT,
+  halfway BIGINT,
+  finished BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH sheet_sizes AS (
+    SELECT q.sheet_id, COUNT(*) AS total
+    FROM public.questions q
+    GROUP BY q.sheet_id
+  ),
+  student_sheet AS (
+    SELECT p.user_id,
+           COALESCE(c.name, 'No cohort') AS cohort,
+           s.id AS sheet_id,
+           s.title AS sheet_title,
+           COUNT(up.id) FILTER (WHERE up.completed) AS completed
+    FROM public.profiles p
+    LEFT JOIN public.cohorts c ON c.id = p.cohort_id
+    CROSS JOIN public.sheets s
+    LEFT JOIN public.questions q ON q.sheet_id = s.id
+    LEFT JOIN public.user_progress up ON up.question_id = q.id AND up.user_id = p.user_id
+    WHERE p.role = 'student'
+    GROUP BY p.user_id, c.name, s.id, s.title
+  )
+  SELECT ss.cohort,
+         ss.sheet_id,
+         ss.sheet_title,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE ss.completed > 0),
+         COUNT(*) FILTER (WHERE ss.completed * 2 >= sz.total AND ss.completed > 0),
+         COUNT(*) FILTER (WHERE ss.completed >= sz.total AND ss.completed > 0)
+  FROM student_sheet ss
+  JOIN sheet_sizes sz ON sz.sheet_id = ss.sheet_id
+  GROUP BY ss.cohort, ss.sheet_id, ss.sheet_title
+  ORDER BY ss.sheet_title, ss.cohort;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_topic_weakness()
+RETURNS TABLE (
+  cohort TEXT,
+  topic TEXT,
+  attempted BIGINT,
+  solved BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT COALESCE(c.name, 'No cohort'),
+         q.topic,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE up.completed)
+  FROM public.user_progress up
+  JOIN public.questions q ON q.id = up.question_id
+  JOIN public.profiles p ON p.user_id = up.user_id
+  LEFT JOIN public.cohorts c ON c.id = p.cohort_id
+  WHERE p.role = 'student'
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Staff roles beyond admin. New enum values must be committed before they can be
+-- used, so the permissions that reference them live in the next migration.
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'mentor';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'teaching_assistant';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'content_editor';
+
+-- Capabilities that RLS policies and admin functions check
+CREATE TYPE public.app_permission AS ENUM (
+  'manage_content',
+  'manage_users',
+  'manage_roles',
+  'manage_cohorts',
+  'view_student_progress',
+  'view_analytics'
+);
@@ -0,0 +1,453 @@
+-- Role management lives entirely in the database: each role maps to a set of
+-- permissions, and every admin policy checks a permission instead of a role
+CREATE TABLE public.role_permissions (
+  role public.user_role NOT NULL,
+  permission public.app_permission NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'manage_content'),
+  ('admin', 'manage_users'),
+  ('admin', 'manage_roles'),
+  ('admin', 'manage_cohorts'),
+  ('admin', 'view_student_progress'),
+  ('admin', 'view_analytics'),
+  ('mentor', 'manage_cohorts'),
+  ('mentor', 'view_student_progress'),
+  ('mentor', 'view_analytics'),
+  ('teaching_assistant', 'view_student_progress'),
+  ('content_editor', 'manage_content');
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Whether the signed-in, active user's role grants a permission
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission public.app_permission)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.user_id = auth.uid()
+      AND p.is_active
+      AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_current_user_permissions()
+RETURNS SETOF public.app_permission
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT rp.permission
+  FROM public.profiles p
+  JOIN public.role_permissions rp ON rp.role = p.role
+  WHERE p.user_id = auth.uid()
+    AND p.is_active;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid()
+    AND role = 'admin'
+    AND is_active
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(public.app_permission) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_current_user_permissions() TO authenticated;
+
+-- Audit trail of every role grant and revocation
+CREATE TABLE public.role_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  old_role public.user_role,
+  new_role public.user_role NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_role_audit_log_created_at
+ON public.role_audit_log (created_at DESC);
+
+ALTER TABLE public.role_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Role managers can view the role audit log"
+ON public.role_audit_log
+FOR SELECT
+TO authenticated
+USING (public.has_permission('manage_roles'));
+
+CREATE OR REPLACE FUNCTION public.log_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    INSERT INTO public.role_audit_log (user_id, old_role, new_role, changed_by)
+    VALUES (NEW.user_id, OLD.role, NEW.role, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_profiles_role_change
+  AFTER UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_role_change();
+
+-- Roles and account status are only changed through permissions now
+CREATE OR REPLACE FUNCTION public.protect_profile_admin_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    IF NOT public.has_permission('manage_roles') THEN
+      NEW.role := OLD.role;
+    END IF;
+    IF NOT public.has_permission('manage_users') THEN
+      NEW.cohort_id := OLD.cohort_id;
+      NEW.is_active := OLD.is_active;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- New users always start as students; staff roles are granted from the admin panel
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', NEW.email),
+    NEW.email,
+    'student'
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Replace role checks in RLS policies with permission checks
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can update all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can manage sheets" ON public.sheets;
+DROP POLICY IF EXISTS "Admins can manage questions" ON public.questions;
+DROP POLICY IF EXISTS "Admins can view all progress" ON public.user_progress;
+DROP POLICY IF EXISTS "Admins can view all user progress" ON public.user_progress;
+DROP POLICY IF EXISTS "Admins can view all user progress for analytics" ON public.user_progress;
+DROP POLICY IF EXISTS "Admins can view all practice sessions" ON public.practice_sessions;
+DROP POLICY IF EXISTS "Admins can manage cohorts" ON public.cohorts;
+DROP POLICY IF EXISTS "Admins can manage cohort mentors" ON public.cohort_mentors;
+DROP POLICY IF EXISTS "Admins can manage cohort sheets" ON public.cohort_sheets;
+
+CREATE POLICY "Staff can view all profiles"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress') OR public.has_permission('manage_users'));
+
+CREATE POLICY "User managers can update all profiles"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (public.has_permission('manage_users') OR public.has_permission('manage_roles'));
+
+CREATE POLICY "Content editors can manage sheets"
+ON public.sheets
+FOR ALL
+TO authenticated
+USING (public.has_permission('manage_content'));
+
+CREATE POLICY "Content editors can manage questions"
+ON public.questions
+FOR ALL
+TO authenticated
+USING (public.has_permission('manage_content'));
+
+CREATE POLICY "Staff can view all progress"
+ON public.user_progress
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
+
+CREATE POLICY "Staff can view all practice sessions"
+ON public.practice_sessions
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
+
+CREATE POLICY "Staff can view all cohorts"
+ON public.cohorts
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
+
+CREATE POLICY "Cohort managers can manage cohorts"
+ON public.cohorts
+FOR ALL
+TO authenticated
+USING (public.has_permission('manage_cohorts'));
+
+CREATE POLICY "Cohort managers can manage cohort mentors"
+ON public.cohort_mentors
+FOR ALL
+TO authenticated
+USING (public.has_permission('manage_cohorts'));
+
+CREATE POLICY "Cohort managers can manage cohort sheets"
+ON public.cohort_sheets
+FOR ALL
+TO authenticated
+USING (public.has_permission('manage_cohorts'));
+
+CREATE OR REPLACE FUNCTION public.regenerate_cohort_invite_code(p_cohort_id UUID)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_code TEXT := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+BEGIN
+  IF NOT public.has_permission('manage_cohorts') THEN
+    RAISE EXCEPTION 'You do not have permission to manage cohorts';
+  END IF;
+
+  UPDATE public.cohorts
+  SET invite_code = v_code
+  WHERE id = p_cohort_id;
+
+  RETURN v_code;
+END;
+$$;
+
+-- Platform analytics are available to every role with view_analytics
+CREATE OR REPLACE FUNCTION public.admin_activity_timeseries(p_bucket TEXT DEFAULT 'day', p_periods INTEGER DEFAULT 30)
+RETURNS TABLE (
+  period_start DATE,
+  active_students BIGINT,
+  completions BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step INTERVAL;
+  v_first DATE;
+BEGIN
+  IF NOT public.has_permission('view_analytics') THEN
+    RAISE EXCEPTION 'You do not have permission to view platform analytics';
+  END IF;
+
+  IF p_bucket NOT IN ('day', 'week') THEN
+    RAISE EXCEPTION 'Unsupported bucket %', p_bucket;
+  END IF;
+
+  v_step := CASE WHEN p_bucket = 'week' THEN INTERVAL '1 week' ELSE INTERVAL '1 day' END;
+  v_first := date_trunc(p_bucket, now() AT TIME ZONE 'UTC')::date - (v_step * (p_periods - 1))::interval;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(v_first, (now() AT TIME ZONE 'UTC')::date, v_step)::date AS period_start
+  ),
+  activity AS (
+    SELECT date_trunc(p_bucket, a.activity_date)::date AS period_start,
+           COUNT(DISTINCT a.user_id) AS active_students
+    FROM public.student_activity_days a
+    WHERE a.activity_date >= v_first
+    GROUP BY 1
+  ),
+  completed AS (
+    SELECT date_trunc(p_bucket, up.completed_at AT TIME ZONE 'UTC')::date AS period_start,
+           COUNT(*) AS completions
+    FROM public.user_progress up
+    WHERE up.completed = true
+      AND up.completed_at >= v_first
+    GROUP BY 1
+  )
+  SELECT p.period_start,
+         COALESCE(a.active_students, 0),
+         COALESCE(c.completions, 0)
+  FROM periods p
+  LEFT JOIN activity a ON a.period_start = p.period_start
+  LEFT JOIN completed c ON c.period_start = p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_question_stats()
+RETURNS TABLE (
+  question_id UUID,
+  title TEXT,
+  topic TEXT,
+  difficulty public.question_difficulty,
+  sheet_id UUID,
+  attempted BIGINT,
+  solved BIGINT,
+  abandoned BIGINT,
+  median_seconds NUMERIC
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('view_analytics') THEN
+    RAISE EXCEPTION 'You do not have permission to view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH attempts AS (
+    SELECT ps.question_id, ps.user_id,
+           MAX(ps.ended_at) AS last_session_at,
+           bool_or(ps.outcome = 'gave_up') AS gave_up
+    FROM public.practice_sessions ps
+    GROUP BY ps.question_id, ps.user_id
+  ),
+  students AS (
+    SELECT COALESCE(a.question_id, up.question_id) AS question_id,
+           COALESCE(a.user_id, up.user_id) AS user_id,
+           COALESCE(up.completed, false) AS completed,
+           COALESCE(a.gave_up, false) AS gave_up,
+           GREATEST(a.last_session_at, up.updated_at) AS last_activity_at
+    FROM attempts a
+    FULL OUTER JOIN public.user_progress up
+      ON up.question_id = a.question_id AND up.user_id = a.user_id
+  ),
+  durations AS (
+    SELECT ps.question_id,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY ps.duration_seconds) AS median_seconds
+    FROM public.practice_sessions ps
+    GROUP BY ps.question_id
+  )
+  SELECT q.id,
+         q.title,
+         q.topic,
+         q.difficulty,
+         q.sheet_id,
+         COUNT(s.user_id),
+         COUNT(s.user_id) FILTER (WHERE s.completed),
+         COUNT(s.user_id) FILTER (
+           WHERE NOT s.completed
+             AND (s.gave_up OR s.last_activity_at < now() - INTERVAL '7 days')
+         ),
+         ROUND(d.median_seconds::numeric)
+  FROM public.questions q
+  LEFT JOIN students s ON s.question_id = q.id
+  LEFT JOIN durations d ON d.question_id = q.id
+  GROUP BY q.id, q.title, q.topic, q.difficulty, q.sheet_id, d.median_seconds
+  ORDER BY q.order_index;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_cohort_funnels()
+RETURNS TABLE (
+  cohort TEXT,
+  sheet_id UUID,
+  sheet_title TEXT,
+  students BIGINT,
+  started BIGINT,
+  halfway BIGINT,
+  finished BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('view_analytics') THEN
+    RAISE EXCEPTION 'You do not have permission to view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH sheet_sizes AS (
+    SELECT q.sheet_id, COUNT(*) AS total
+    FROM public.questions q
+    GROUP BY q.sheet_id
+  ),
+  student_sheet AS (
+    SELECT p.user_id,
+           COALESCE(c.name, 'No cohort') AS cohort,
+           s.id AS sheet_id,
+           s.title AS sheet_title,
+           COUNT(up.id) FILTER (WHERE up.completed) AS completed
+    FROM public.profiles p
+    LEFT JOIN public.cohorts c ON c.id = p.cohort_id
+    CROSS JOIN public.sheets s
+    LEFT JOIN public.questions q ON q.sheet_id = s.id
+    LEFT JOIN public.user_progress up ON up.question_id = q.id AND up.user_id = p.user_id
+    WHERE p.role = 'student'
+    GROUP BY p.user_id, c.name, s.id, s.title
+  )
+  SELECT ss.cohort,
+         ss.sheet_id,
+         ss.sheet_title,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE ss.completed > 0),
+         COUNT(*) FILTER (WHERE ss.completed * 2 >= sz.total AND ss.completed > 0),
+         COUNT(*) FILTER (WHERE ss.completed >= sz.total AND ss.completed > 0)
+  FROM student_sheet ss
+  JOIN sheet_sizes sz ON sz.sheet_id = ss.sheet_id
+  GROUP BY ss.cohort, ss.sheet_id, ss.sheet_title
+  ORDER BY ss.sheet_title, ss.cohort;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_topic_weakness()
+RETURNS TABLE (
+  cohort TEXT,
+  topic TEXT,
+  attempted BIGINT,
+  solved BIGINT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('view_analytics') THEN
+    RAISE EXCEPTION 'You do not have permission to view platform analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT COALESCE(c.name, 'No cohort'),
+         q.topic,
+         COUNT(*),
+         COUNT(*) FILTER (WHERE up.completed)
+  FROM public.user_progress up
+  JOIN public.questions q ON q.id = up.question_id
+  JOIN public.profiles p ON p.user_id = up.user_id
+  LEFT JOIN public.cohorts c ON c.id = p.cohort_id
+  WHERE p.role = 'student'
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Streaks and daily counts are bucketed in the student's own timezone. NULL means
+-- follow the device's zone. A day can roll over after midnight (e.g. at 4am) so
+-- late-night practice still counts towards the evening it started.
+ALTER TABLE public.profiles
+ADD COLUMN timezone TEXT,
+ADD COLUMN day_rollover_hour SMALLINT NOT NULL DEFAULT 0
+  CHECK (day_rollover_hour >= 0 AND day_rollover_hour <= 23);
@@ -0,0 +1,32 @@
+-- Planned rest days are weekdays (0 = Sunday) that neither extend nor break a streak
+ALTER TABLE public.profiles
+ADD COLUMN rest_days SMALLINT[] NOT NULL DEFAULT '{}'
+  CHECK (rest_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+-- Each missed day covered by a streak freeze. Freezes are earned from the streak
+-- itself; recording where they were spent keeps the streak stable on every device.
+CREATE TABLE public.streak_freezes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  frozen_on DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, frozen_on)
+);
+
+ALTER TABLE public.streak_freezes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own streak freezes"
+ON public.streak_freezes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own streak freezes"
+ON public.streak_freezes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view student streak freezes"
+ON public.streak_freezes
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
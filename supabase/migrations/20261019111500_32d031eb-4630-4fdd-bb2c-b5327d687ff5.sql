@@ -0,0 +1,74 @@
+-- Average completions and practice per student in a cohort for each day in a range,
+-- bucketed in the caller's timezone and rollover hour so it lines up with their own
+-- activity calendar
+CREATE OR REPLACE FUNCTION public.cohort_daily_activity(
+  p_cohort_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_time_zone TEXT DEFAULT 'UTC',
+  p_rollover_hour INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  activity_date DATE,
+  students BIGINT,
+  active_students BIGINT,
+  average_completions NUMERIC
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_rollover INTERVAL := make_interval(hours => p_rollover_hour);
+  v_students BIGINT;
+BEGIN
+  IF NOT public.has_permission('view_student_progress') THEN
+    RAISE EXCEPTION 'You do not have permission to view cohort activity';
+  END IF;
+
+  SELECT COUNT(*) INTO v_students
+  FROM public.profiles p
+  WHERE p.cohort_id = p_cohort_id
+    AND p.role = 'student'
+    AND p.is_active;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT p.user_id
+    FROM public.profiles p
+    WHERE p.cohort_id = p_cohort_id
+      AND p.role = 'student'
+      AND p.is_active
+  ),
+  completed AS (
+    SELECT ((up.completed_at AT TIME ZONE p_time_zone) - v_rollover)::date AS day,
+           up.user_id
+    FROM public.user_progress up
+    JOIN members m ON m.user_id = up.user_id
+    WHERE up.completed = true
+      AND up.completed_at IS NOT NULL
+  ),
+  practiced AS (
+    SELECT ((ps.started_at AT TIME ZONE p_time_zone) - v_rollover)::date AS day,
+           ps.user_id
+    FROM public.practice_sessions ps
+    JOIN members m ON m.user_id = ps.user_id
+  ),
+  days AS (
+    SELECT generate_series(p_from, p_to, INTERVAL '1 day')::date AS day
+  )
+  SELECT d.day,
+         v_students,
+         (SELECT COUNT(DISTINCT a.user_id)
+          FROM (SELECT c.user_id FROM completed c WHERE c.day = d.day
+                UNION
+                SELECT pr.user_id FROM practiced pr WHERE pr.day = d.day) a),
+         CASE WHEN v_students = 0 THEN 0
+              ELSE ROUND((SELECT COUNT(*) FROM completed c WHERE c.day = d.day)::numeric / v_students, 2)
+         END
+  FROM days d
+  ORDER BY d.day;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cohort_daily_activity(UUID, DATE, DATE, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,77 @@
+-- Student goals. Daily and weekly goals repeat every period; topic and sheet goals
+-- are one-off targets, optionally with a due date.
+CREATE TYPE public.goal_kind AS ENUM ('daily_questions', 'weekly_minutes', 'topic_questions', 'sheet_completion');
+
+CREATE TABLE public.goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind public.goal_kind NOT NULL,
+  target INTEGER CHECK (target > 0),
+  topic TEXT,
+  sheet_id UUID REFERENCES public.sheets(id) ON DELETE CASCADE,
+  due_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'sheet_completion' OR target IS NOT NULL),
+  CHECK (kind <> 'topic_questions' OR topic IS NOT NULL),
+  CHECK (kind <> 'sheet_completion' OR sheet_id IS NOT NULL)
+);
+
+CREATE INDEX idx_goals_user
+ON public.goals (user_id, is_active);
+
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own goals"
+ON public.goals
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view student goals"
+ON public.goals
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
+
+CREATE TRIGGER update_goals_updated_at
+  BEFORE UPDATE ON public.goals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per closed period of a repeating goal, or once for a one-off goal when it
+-- is met or its due date passes. Kept even if the goal's target changes later.
+CREATE TABLE public.goal_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  achieved INTEGER NOT NULL,
+  target INTEGER NOT NULL,
+  met BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (goal_id, period_start)
+);
+
+CREATE INDEX idx_goal_results_user_period
+ON public.goal_results (user_id, period_end DESC);
+
+ALTER TABLE public.goal_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own goal results"
+ON public.goal_results
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own goal results"
+ON public.goal_results
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view student goal results"
+ON public.goal_results
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
@@ -0,0 +1,27 @@
+-- Achievements a user has unlocked. The definitions live in the app; only the
+-- achievement id and when it was earned are stored.
+CREATE TABLE public.user_achievements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, achievement_id)
+);
+
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own achievements"
+ON public.user_achievements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can unlock their own achievements"
+ON public.user_achievements
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view student achievements"
+ON public.user_achievements
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
@@ -0,0 +1,89 @@
+-- Student-owned question lists. Questions can come from any sheet and keep the
+-- order the owner gives them.
+CREATE TABLE public.custom_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  share_token UUID UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_custom_lists_user
+ON public.custom_lists (user_id);
+
+CREATE TABLE public.custom_list_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  list_id UUID NOT NULL REFERENCES public.custom_lists(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (list_id, question_id)
+);
+
+CREATE INDEX idx_custom_list_questions_list_position
+ON public.custom_list_questions (list_id, position);
+
+ALTER TABLE public.custom_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custom_list_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own lists"
+ON public.custom_lists
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage questions in their own lists"
+ON public.custom_list_questions
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.custom_lists l
+  WHERE l.id = list_id AND l.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.custom_lists l
+  WHERE l.id = list_id AND l.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_custom_lists_updated_at
+  BEFORE UPDATE ON public.custom_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Read-only view of a shared list for anyone signed in who has the link. Lists are
+-- not readable through the table, so links cannot be enumerated; clearing the
+-- token revokes them.
+CREATE OR REPLACE FUNCTION public.get_shared_custom_list(p_share_token UUID)
+RETURNS TABLE (
+  name TEXT,
+  description TEXT,
+  owner_name TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[]
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    l.name,
+    l.description,
+    p.name AS owner_name,
+    l.updated_at,
+    COALESCE(
+      ARRAY(
+        SELECT q.question_id
+        FROM public.custom_list_questions q
+        WHERE q.list_id = l.id
+        ORDER BY q.position, q.created_at
+      ),
+      '{}'
+    ) AS question_ids
+  FROM public.custom_lists l
+  LEFT JOIN public.profiles p ON p.user_id = l.user_id
+  WHERE l.share_token = p_share_token
+    AND auth.uid() IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_custom_list(UUID) TO authenticated;
@@ -0,0 +1,70 @@
+-- Timed mock interviews. One row per finished mock, scored from the student's own
+-- assessment of each question; the questions keep their draw order.
+CREATE TABLE public.mock_interviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  time_limit_seconds INTEGER NOT NULL CHECK (time_limit_seconds > 0),
+  time_used_seconds INTEGER NOT NULL CHECK (time_used_seconds >= 0),
+  score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+  sheet_ids UUID[] NOT NULL DEFAULT '{}',
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ended_at >= started_at)
+);
+
+CREATE INDEX idx_mock_interviews_user_started
+ON public.mock_interviews (user_id, started_at DESC);
+
+CREATE TABLE public.mock_interview_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mock_interview_id UUID NOT NULL REFERENCES public.mock_interviews(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  time_spent_seconds INTEGER NOT NULL DEFAULT 0 CHECK (time_spent_seconds >= 0),
+  assessment public.session_outcome NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (mock_interview_id, question_id)
+);
+
+ALTER TABLE public.mock_interviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mock_interview_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mock interviews"
+ON public.mock_interviews
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own mock interviews"
+ON public.mock_interviews
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view student mock interviews"
+ON public.mock_interviews
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
+
+CREATE POLICY "Users can view their own mock interview questions"
+ON public.mock_interview_questions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.mock_interviews m
+  WHERE m.id = mock_interview_id AND m.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can record their own mock interview questions"
+ON public.mock_interview_questions
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.mock_interviews m
+  WHERE m.id = mock_interview_id AND m.user_id = auth.uid()
+));
+
+CREATE POLICY "Staff can view student mock interview questions"
+ON public.mock_interview_questions
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
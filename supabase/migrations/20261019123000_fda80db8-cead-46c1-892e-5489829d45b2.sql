@@ -0,0 +1,40 @@
+-- Generated day-by-day study plans. The schedule is an array of
+-- { day, question_ids, minutes } objects and is rewritten whenever the plan is
+-- regenerated; planned_on is the day it was last generated.
+CREATE TABLE public.study_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sheet_ids UUID[] NOT NULL,
+  target_date DATE NOT NULL,
+  minutes_per_day INTEGER NOT NULL CHECK (minutes_per_day > 0),
+  schedule JSONB NOT NULL DEFAULT '[]',
+  planned_on DATE NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (cardinality(sheet_ids) > 0)
+);
+
+-- At most one plan is followed at a time
+CREATE UNIQUE INDEX idx_study_plans_one_active
+ON public.study_plans (user_id)
+WHERE is_active;
+
+ALTER TABLE public.study_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own study plans"
+ON public.study_plans
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view student study plans"
+ON public.study_plans
+FOR SELECT
+TO authenticated
+USING (public.has_permission('view_student_progress'));
+
+CREATE TRIGGER update_study_plans_updated_at
+  BEFORE UPDATE ON public.study_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,87 @@
+-- Keep hints and editorials out of the question list; students only get what they have unlocked
+REVOKE SELECT ON public.questions FROM anon, authenticated;
+
+GRANT SELECT (
+  id,
+  sheet_id,
+  title,
+  topic,
+  tags,
+  difficulty,
+  solve_url,
+  order_index,
+  description,
+  editorial_unlock_hints,
+  created_at,
+  updated_at
+) ON public.questions TO anon, authenticated;
+
+-- Revealed hints and, once unlocked, the editorial for the caller; content managers see everything
+CREATE OR REPLACE FUNCTION public.get_question_content(p_question_id UUID)
+RETURNS TABLE (
+  hints TEXT[],
+  hint_count INTEGER,
+  editorial TEXT,
+  has_editorial BOOLEAN
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH access AS (
+    SELECT
+      q.hints,
+      q.editorial,
+      q.editorial_unlock_hints,
+      public.has_permission('manage_content') AS is_staff,
+      COALESCE(up.completed, false) AS completed,
+      COALESCE(up.hints_revealed, 0) AS hints_revealed
+    FROM public.questions q
+    LEFT JOIN public.user_progress up
+      ON up.question_id = q.id
+      AND up.user_id = auth.uid()
+    WHERE q.id = p_question_id
+      AND auth.uid() IS NOT NULL
+  )
+  SELECT
+    CASE
+      WHEN is_staff THEN hints
+      ELSE COALESCE(hints[1:hints_revealed], '{}')
+    END AS hints,
+    COALESCE(array_length(hints, 1), 0) AS hint_count,
+    CASE
+      WHEN is_staff
+        OR completed
+        OR (editorial_unlock_hints IS NOT NULL AND hints_revealed >= editorial_unlock_hints)
+      THEN editorial
+    END AS editorial,
+    editorial IS NOT NULL AND editorial <> '' AS has_editorial
+  FROM access;
+$$;
+
+-- Full hints and editorials for a whole sheet, for package export
+CREATE OR REPLACE FUNCTION public.get_sheet_question_content(p_sheet_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  hints TEXT[],
+  editorial TEXT
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'You do not have permission to export question content';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.hints, q.editorial
+  FROM public.questions q
+  WHERE q.sheet_id = p_sheet_id
+  ORDER BY q.order_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_question_content(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sheet_question_content(UUID) TO authenticated;
@@ -0,0 +1,41 @@
+-- Per-student progress summary for the admin user list: completion count, last activity
+-- and the distinct completion days in the student's own zone, so the streak can be
+-- worked out without pulling every progress row. Students without a saved zone fall
+-- back to the caller's, matching how the client buckets their days.
+CREATE OR REPLACE FUNCTION public.get_user_progress_summaries(
+  p_user_ids UUID[],
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  user_id UUID,
+  completed BIGINT,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  completion_days DATE[]
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    p.user_id,
+    COUNT(up.id) FILTER (WHERE up.completed) AS completed,
+    MAX(COALESCE(up.updated_at, up.completed_at)) AS last_active_at,
+    COALESCE(
+      ARRAY_AGG(DISTINCT ((up.completed_at AT TIME ZONE z.zone) - make_interval(hours => p.day_rollover_hour))::date)
+        FILTER (WHERE up.completed AND up.completed_at IS NOT NULL),
+      '{}'
+    ) AS completion_days
+  FROM public.profiles p
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      (SELECT tz.name FROM pg_catalog.pg_timezone_names tz WHERE tz.name = p.timezone),
+      p_time_zone
+    ) AS zone
+  ) z
+  LEFT JOIN public.user_progress up ON up.user_id = p.user_id
+  WHERE p.user_id = ANY(p_user_ids)
+    AND (public.has_permission('view_student_progress') OR p.user_id = auth.uid())
+  GROUP BY p.user_id, z.zone, p.day_rollover_hour;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_progress_summaries(UUID[], TEXT) TO authenticated;
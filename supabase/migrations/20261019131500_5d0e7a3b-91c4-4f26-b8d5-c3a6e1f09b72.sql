@@ -0,0 +1,61 @@
+-- Saves a timed practice session by id. The timer calls it again for the same session
+-- whenever the page is hidden and once more when it stops; only the seconds added since
+-- the last save go onto the question's total, so repeated or concurrent saves from
+-- several tabs never count the same time twice.
+CREATE OR REPLACE FUNCTION public.record_practice_session(
+  p_session_id UUID,
+  p_question_id UUID,
+  p_started_at TIMESTAMP WITH TIME ZONE,
+  p_duration_seconds INTEGER,
+  p_outcome public.session_outcome DEFAULT 'attempted'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_previous INTEGER;
+  v_added INTEGER;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record practice';
+  END IF;
+
+  INSERT INTO public.practice_sessions (id, user_id, question_id, started_at, ended_at, duration_seconds, outcome)
+  VALUES (p_session_id, v_user_id, p_question_id, p_started_at, now(), 0, p_outcome)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- The row lock makes concurrent saves of one session take turns
+  SELECT ps.duration_seconds INTO v_previous
+  FROM public.practice_sessions ps
+  WHERE ps.id = p_session_id
+    AND ps.user_id = v_user_id
+    AND ps.question_id = p_question_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice session % does not belong to you', p_session_id;
+  END IF;
+
+  v_added := GREATEST(p_duration_seconds - v_previous, 0);
+
+  UPDATE public.practice_sessions
+  SET ended_at = now(),
+      duration_seconds = v_previous + v_added,
+      outcome = p_outcome
+  WHERE id = p_session_id;
+
+  INSERT INTO public.user_progress (user_id, question_id, time_spent)
+  VALUES (v_user_id, p_question_id, v_added)
+  ON CONFLICT (user_id, question_id)
+  DO UPDATE SET time_spent = COALESCE(public.user_progress.time_spent, 0) + EXCLUDED.time_spent
+  RETURNING time_spent INTO v_total;
+
+  RETURN v_total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_practice_session(UUID, UUID, TIMESTAMP WITH TIME ZONE, INTEGER, public.session_outcome) TO authenticated;
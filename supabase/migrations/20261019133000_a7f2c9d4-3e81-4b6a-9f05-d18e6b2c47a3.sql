@@ -0,0 +1,92 @@
+-- Streak freezes are only recorded through record_streak_freezes, which checks they were earned
+DROP POLICY IF EXISTS "Users can record their own streak freezes" ON public.streak_freezes;
+
+-- Records freezes for missed days the student's streak can actually cover. The walk
+-- mirrors calculateStreakFromDays (one freeze per 7 active days, at most 2 banked) over
+-- completion days in the student's zone, falling back to the caller's when none is saved.
+-- Only past days from the last week are accepted; anything else is silently skipped.
+CREATE OR REPLACE FUNCTION public.record_streak_freezes(
+  p_days DATE[],
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS SETOF public.streak_freezes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  c_days_per_freeze CONSTANT INTEGER := 7;
+  c_max_banked CONSTANT INTEGER := 2;
+  v_user_id UUID := auth.uid();
+  v_zone TEXT;
+  v_rollover INTERVAL;
+  v_rest_days SMALLINT[];
+  v_today DATE;
+  v_active DATE[];
+  v_day DATE;
+  v_streak INTEGER := 0;
+  v_freezes INTEGER := 0;
+  v_active_since_freeze INTEGER := 0;
+  v_frozen DATE[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a streak freeze';
+  END IF;
+
+  SELECT
+    COALESCE((SELECT tz.name FROM pg_catalog.pg_timezone_names tz WHERE tz.name = p.timezone), p_time_zone),
+    make_interval(hours => p.day_rollover_hour),
+    p.rest_days
+  INTO v_zone, v_rollover, v_rest_days
+  FROM public.profiles p
+  WHERE p.user_id = v_user_id;
+
+  v_zone := COALESCE(v_zone, p_time_zone);
+  v_rollover := COALESCE(v_rollover, INTERVAL '0 hours');
+  v_rest_days := COALESCE(v_rest_days, '{}');
+  v_today := ((now() AT TIME ZONE v_zone) - v_rollover)::date;
+
+  SELECT COALESCE(ARRAY_AGG(DISTINCT ((up.completed_at AT TIME ZONE v_zone) - v_rollover)::date), '{}')
+  INTO v_active
+  FROM public.user_progress up
+  WHERE up.user_id = v_user_id
+    AND up.completed = true
+    AND up.completed_at IS NOT NULL;
+
+  -- Today never needs a freeze, so the walk stops at yesterday
+  SELECT MIN(d) INTO v_day FROM unnest(v_active) d;
+  WHILE v_day IS NOT NULL AND v_day < v_today LOOP
+    IF v_day = ANY(v_active) THEN
+      v_streak := v_streak + 1;
+      v_active_since_freeze := v_active_since_freeze + 1;
+      IF v_active_since_freeze = c_days_per_freeze THEN
+        v_freezes := LEAST(v_freezes + 1, c_max_banked);
+        v_active_since_freeze := 0;
+      END IF;
+    ELSIF v_streak = 0 OR EXTRACT(DOW FROM v_day)::SMALLINT = ANY(v_rest_days) THEN
+      NULL;
+    ELSIF v_freezes > 0 THEN
+      v_freezes := v_freezes - 1;
+      v_frozen := v_frozen || v_day;
+    ELSE
+      v_streak := 0;
+      v_active_since_freeze := 0;
+    END IF;
+    v_day := v_day + 1;
+  END LOOP;
+
+  RETURN QUERY
+  WITH recorded AS (
+    INSERT INTO public.streak_freezes (user_id, frozen_on)
+    SELECT v_user_id, d
+    FROM unnest(p_days) d
+    WHERE d = ANY(v_frozen)
+      AND d >= v_today - c_days_per_freeze
+    ON CONFLICT (user_id, frozen_on) DO NOTHING
+    RETURNING *
+  )
+  SELECT * FROM recorded;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_streak_freezes(DATE[], TEXT) TO authenticated;
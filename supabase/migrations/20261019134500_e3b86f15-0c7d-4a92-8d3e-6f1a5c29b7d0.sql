@@ -0,0 +1,35 @@
+-- Replaces the caller's active study plan in one transaction, so a failed insert
+-- leaves the previous plan in place. Runs as the caller; row level security applies.
+CREATE OR REPLACE FUNCTION public.create_study_plan(
+  p_sheet_ids UUID[],
+  p_target_date DATE,
+  p_minutes_per_day INTEGER,
+  p_schedule JSONB,
+  p_planned_on DATE
+)
+RETURNS public.study_plans
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_plan public.study_plans;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to create a study plan';
+  END IF;
+
+  UPDATE public.study_plans
+  SET is_active = false
+  WHERE user_id = v_user_id
+    AND is_active;
+
+  INSERT INTO public.study_plans (user_id, sheet_ids, target_date, minutes_per_day, schedule, planned_on)
+  VALUES (v_user_id, p_sheet_ids, p_target_date, p_minutes_per_day, p_schedule, p_planned_on)
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_study_plan(UUID[], DATE, INTEGER, JSONB, DATE) TO authenticated;
@@ -0,0 +1,92 @@
+-- Records a finished mock in one transaction: the mock, its questions, a practice
+-- session per timed question over that question's own stretch of the mock, and the
+-- question's progress. Solved questions are completed and the rest are queued for
+-- revision; time is added on the server so concurrent saves never overwrite it.
+-- Runs as the caller; row level security applies.
+CREATE OR REPLACE FUNCTION public.record_mock_interview(
+  p_started_at TIMESTAMP WITH TIME ZONE,
+  p_ended_at TIMESTAMP WITH TIME ZONE,
+  p_time_limit_seconds INTEGER,
+  p_time_used_seconds INTEGER,
+  p_score INTEGER,
+  p_sheet_ids UUID[],
+  p_topics TEXT[],
+  p_questions JSONB
+)
+RETURNS public.mock_interviews
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_mock public.mock_interviews;
+  v_question RECORD;
+  v_solved BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record a mock interview';
+  END IF;
+
+  INSERT INTO public.mock_interviews (user_id, started_at, ended_at, time_limit_seconds, time_used_seconds, score, sheet_ids, topics)
+  VALUES (v_user_id, p_started_at, p_ended_at, p_time_limit_seconds, p_time_used_seconds, p_score, p_sheet_ids, p_topics)
+  RETURNING * INTO v_mock;
+
+  FOR v_question IN
+    SELECT *
+    FROM jsonb_to_recordset(p_questions) AS q(
+      question_id UUID,
+      position INTEGER,
+      time_spent_seconds INTEGER,
+      assessment public.session_outcome,
+      started_at TIMESTAMP WITH TIME ZONE,
+      ended_at TIMESTAMP WITH TIME ZONE
+    )
+  LOOP
+    v_solved := v_question.assessment = 'solved';
+
+    INSERT INTO public.mock_interview_questions (mock_interview_id, question_id, position, time_spent_seconds, assessment)
+    VALUES (v_mock.id, v_question.question_id, v_question.position, v_question.time_spent_seconds, v_question.assessment);
+
+    IF v_question.time_spent_seconds > 0 THEN
+      INSERT INTO public.practice_sessions (user_id, question_id, started_at, ended_at, duration_seconds, outcome, note)
+      VALUES (
+        v_user_id,
+        v_question.question_id,
+        v_question.started_at,
+        v_question.ended_at,
+        v_question.time_spent_seconds,
+        v_question.assessment,
+        'Mock interview'
+      );
+    END IF;
+
+    INSERT INTO public.user_progress AS up (
+      user_id, question_id, time_spent, completed, completed_at, marked_for_revision, next_review_at
+    )
+    VALUES (
+      v_user_id,
+      v_question.question_id,
+      v_question.time_spent_seconds,
+      v_solved,
+      CASE WHEN v_solved THEN p_ended_at END,
+      NOT v_solved,
+      CASE WHEN NOT v_solved THEN p_ended_at END
+    )
+    ON CONFLICT (user_id, question_id) DO UPDATE SET
+      time_spent = COALESCE(up.time_spent, 0) + EXCLUDED.time_spent,
+      completed = up.completed OR EXCLUDED.completed,
+      completed_at = CASE WHEN EXCLUDED.completed AND NOT up.completed THEN EXCLUDED.completed_at ELSE up.completed_at END,
+      marked_for_revision = up.marked_for_revision OR EXCLUDED.marked_for_revision,
+      next_review_at = CASE
+        WHEN EXCLUDED.marked_for_revision AND NOT up.marked_for_revision THEN EXCLUDED.next_review_at
+        ELSE up.next_review_at
+      END;
+  END LOOP;
+
+  RETURN v_mock;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_mock_interview(
+  TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER, INTEGER, UUID[], TEXT[], JSONB
+) TO authenticated;
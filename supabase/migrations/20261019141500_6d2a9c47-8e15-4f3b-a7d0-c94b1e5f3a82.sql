@@ -0,0 +1,72 @@
+-- Revealed hints unlock the editorial, so students can no longer set the count themselves;
+-- every other progress column stays writable under the existing row policies
+REVOKE INSERT, UPDATE ON public.user_progress FROM anon, authenticated;
+
+GRANT INSERT (
+  id,
+  user_id,
+  question_id,
+  completed,
+  completed_at,
+  marked_for_revision,
+  note,
+  time_spent,
+  ease_factor,
+  review_interval,
+  repetitions,
+  next_review_at,
+  last_reviewed_at,
+  created_at,
+  updated_at
+) ON public.user_progress TO authenticated;
+
+GRANT UPDATE (
+  completed,
+  completed_at,
+  marked_for_revision,
+  note,
+  time_spent,
+  ease_factor,
+  review_interval,
+  repetitions,
+  next_review_at,
+  last_reviewed_at,
+  updated_at
+) ON public.user_progress TO authenticated;
+
+-- Reveals the caller's next hint for a question, never past the hints it has,
+-- and returns how many are now revealed
+CREATE OR REPLACE FUNCTION public.reveal_next_hint(p_question_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_hint_count INTEGER;
+  v_revealed INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to reveal hints';
+  END IF;
+
+  SELECT cardinality(q.hints) INTO v_hint_count
+  FROM public.questions q
+  WHERE q.id = p_question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % does not exist', p_question_id;
+  END IF;
+
+  INSERT INTO public.user_progress AS up (user_id, question_id, hints_revealed)
+  VALUES (v_user_id, p_question_id, LEAST(1, v_hint_count))
+  ON CONFLICT (user_id, question_id)
+  DO UPDATE SET hints_revealed = LEAST(up.hints_revealed + 1, v_hint_count)
+  RETURNING hints_revealed INTO v_revealed;
+
+  RETURN v_revealed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reveal_next_hint(UUID) TO authenticated;
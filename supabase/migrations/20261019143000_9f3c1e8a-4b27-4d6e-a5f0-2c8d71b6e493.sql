@@ -0,0 +1,46 @@
+-- Adds each student's recorded streak freezes to their progress summary, so the admin
+-- user list works the streak out the same way the student's own dashboard does
+DROP FUNCTION IF EXISTS public.get_user_progress_summaries(UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_user_progress_summaries(
+  p_user_ids UUID[],
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  user_id UUID,
+  completed BIGINT,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  completion_days DATE[],
+  freeze_days DATE[]
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    p.user_id,
+    COUNT(up.id) FILTER (WHERE up.completed) AS completed,
+    MAX(COALESCE(up.updated_at, up.completed_at)) AS last_active_at,
+    COALESCE(
+      ARRAY_AGG(DISTINCT ((up.completed_at AT TIME ZONE z.zone) - make_interval(hours => p.day_rollover_hour))::date)
+        FILTER (WHERE up.completed AND up.completed_at IS NOT NULL),
+      '{}'
+    ) AS completion_days,
+    COALESCE(
+      (SELECT ARRAY_AGG(sf.frozen_on ORDER BY sf.frozen_on) FROM public.streak_freezes sf WHERE sf.user_id = p.user_id),
+      '{}'
+    ) AS freeze_days
+  FROM public.profiles p
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      (SELECT tz.name FROM pg_catalog.pg_timezone_names tz WHERE tz.name = p.timezone),
+      p_time_zone
+    ) AS zone
+  ) z
+  LEFT JOIN public.user_progress up ON up.user_id = p.user_id
+  WHERE p.user_id = ANY(p_user_ids)
+    AND (public.has_permission('view_student_progress') OR p.user_id = auth.uid())
+  GROUP BY p.user_id, z.zone, p.day_rollover_hour;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_progress_summaries(UUID[], TEXT) TO authenticated;